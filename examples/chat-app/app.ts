@@ -31,14 +31,16 @@ async function createChatApp(): Promise<IOServer> {
     },
     mode: ["websocket", "polling"],
     routes: "./examples/chat-app/routes",
-  });
+    // Drain connections and stop gracefully on SIGINT / SIGTERM
+    shutdown: { signals: true },
+  })
+    // Chained registration types the managers of the application handle
+    .addManager({
+      name: "statsManager",
+      manager: StatsManager,
+    });
 
   // Register components
-  server.addManager({
-    name: "statsManager",
-    manager: StatsManager,
-  });
-
   server.addWatcher({
     name: "chatWatcher",
     watcher: ChatWatcher,
@@ -85,19 +87,6 @@ async function startChatApp() {
     console.log("   - Message notifications");
     console.log("   - Responsive design");
     console.log("🔥 Server is running and waiting for connections...");
-
-    // Keep the process alive
-    process.on("SIGINT", async () => {
-      console.log("\n🛑 Received SIGINT, shutting down gracefully...");
-      try {
-        await server.stop();
-        console.log("✅ Server stopped successfully");
-        process.exit(0);
-      } catch (error) {
-        console.error("❌ Error stopping server:", error);
-        process.exit(1);
-      }
-    });
   } catch (error) {
     console.error("❌ Failed to start chat app:", error);
     process.exit(1);
@@ -277,7 +277,7 @@ export class ChatService extends BaseService {
   }
 
   // Handle disconnect
-  async disconnect(socket: any): Promise<void> {
+  async onDisconnect(socket: any): Promise<void> {
     const user = this.users.get(socket.id);
 
     if (user) {
@@ -1,42 +1,21 @@
-import { BaseWatcher } from '../../../src';
+import { AppHandle, BaseWatcher, Schedule } from '../../../src';
+import { StatsManager } from '../managers/StatsManager';
 
-export class ChatWatcher extends BaseWatcher {
-  private readonly CLEANUP_INTERVAL = 30 * 60 * 1000; // 30 minutes
-  private readonly STATS_INTERVAL = 5 * 60 * 1000; // 5 minutes
+export class ChatWatcher extends BaseWatcher<
+  AppHandle<{ statsManager: StatsManager }>
+> {
   private readonly MAX_MESSAGES_PER_ROOM = 1000;
-  private intervals: NodeJS.Timeout[] = [];
 
   async watch(): Promise<void> {
     this.appHandle.log(6, 'ChatWatcher started');
-
-    // Start periodic cleanup
-    this.intervals.push(
-      setInterval(() => {
-        this.cleanupOldMessages();
-      }, this.CLEANUP_INTERVAL)
-    );
-
-    // Start periodic stats logging
-    this.intervals.push(
-      setInterval(() => {
-        this.logStats();
-      }, this.STATS_INTERVAL)
-    );
-
-    // Start health monitoring
-    this.intervals.push(
-      setInterval(() => {
-        this.monitorHealth();
-      }, 60000)
-    ); // Every minute
   }
 
   stop(): void {
-    this.intervals.forEach(interval => clearInterval(interval));
-    this.intervals = [];
     this.appHandle.log(6, 'ChatWatcher stopped');
   }
 
+  // On the hour and at half past
+  @Schedule({ cron: '*/30 * * * *' })
   private cleanupOldMessages(): void {
     this.appHandle.log(6, 'Running message cleanup...');
 
@@ -45,16 +24,18 @@ export class ChatWatcher extends BaseWatcher {
     this.appHandle.log(6, 'Message cleanup completed');
   }
 
+  // Every 5 minutes
+  @Schedule({ interval: 5 * 60 * 1000 })
   private logStats(): void {
-    if (this.appHandle.statsManager) {
-      const stats = this.appHandle.statsManager.getStats();
-      this.appHandle.log(
-        6,
-        `Chat Stats - Users: ${stats.totalUsers}, Rooms: ${stats.activeRooms}, Messages: ${stats.messagesCount}, Peak: ${stats.peakConcurrentUsers}, Uptime: ${stats.uptime}`
-      );
-    }
+    const stats = this.appHandle.statsManager.getStats();
+    this.appHandle.log(
+      6,
+      `Chat Stats - Users: ${stats.totalUsers}, Rooms: ${stats.activeRooms}, Messages: ${stats.messagesCount}, Peak: ${stats.peakConcurrentUsers}, Uptime: ${stats.uptime}`
+    );
   }
 
+  // Every minute
+  @Schedule({ interval: 60 * 1000 })
   private monitorHealth(): void {
     const memUsage = process.memoryUsage();
     const memUsageMB = Math.round(memUsage.heapUsed / 1024 / 1024);
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview AsyncApiGenerator - AsyncAPI document generation for IOServer services
+ *
+ * Converts the contract of registered services into an AsyncAPI 3.0
+ * document: every namespace becomes a channel, service methods become
+ * operations the server receives (replying with their acknowledgement), and
+ * events declared in `emits` become operations the server sends.
+ *
+ * @author Ben Mz <0x42en@users.noreply.github.com>
+ * @version 2.1.1
+ * @since 2.2.0
+ */
+
+import type { ServiceContract, ServiceEventContract } from './IOServer';
+import { createSchemaComponents } from './OpenApiGenerator';
+
+/**
+ * AsyncAPI server object
+ * @interface AsyncApiServer
+ */
+export interface AsyncApiServer {
+  /** Host and port, e.g. 'api.example.com:443' */
+  host: string;
+  /** Protocol, e.g. 'ws' or 'wss' */
+  protocol: string;
+  /** Socket.IO path - defaults to '/socket.io/' */
+  pathname?: string;
+  description?: string;
+}
+
+/**
+ * Publication settings of the AsyncAPI document
+ * @interface AsyncApiOptions
+ */
+export interface AsyncApiOptions {
+  /** URL serving the JSON document - defaults to '/asyncapi.json' */
+  url?: string;
+  /** AsyncAPI info object - title and version default to IOServer's */
+  info?: {
+    title?: string;
+    version?: string;
+    description?: string;
+    [field: string]: unknown;
+  };
+  /** AsyncAPI servers by name - defaults to the listening host and port */
+  servers?: Record<string, AsyncApiServer>;
+}
+
+/**
+ * Server-level content of the generated document
+ * @interface AsyncApiDocumentOptions
+ */
+export interface AsyncApiDocumentOptions {
+  info: { title: string; version: string; [field: string]: unknown };
+  servers: Record<string, AsyncApiServer>;
+  /** Event broadcast to every namespace on shutdown */
+  shutdownEvent?: string;
+  /** Security schemes (OpenAPI flavour) by strategy name */
+  securitySchemes?: Record<string, Record<string, unknown>>;
+  /** Shared schemas added to Fastify, by `$id` */
+  schemas?: Record<string, unknown>;
+}
+
+function channelKey(serviceName: string): string {
+  return serviceName === '/'
+    ? 'root'
+    : serviceName.replace(/[^A-Za-z0-9_.-]/g, '_');
+}
+
+function messageKey(prefix: string, event: string): string {
+  return `${prefix}.${event.replace(/[^A-Za-z0-9_.-]/g, '_')}`;
+}
+
+function buildMessage(
+  name: string,
+  payload?: Record<string, unknown>,
+  summary?: string
+): Record<string, unknown> {
+  const message: Record<string, unknown> = { name };
+  if (summary) {
+    message.summary = summary;
+  }
+  if (payload) {
+    message.payload = payload;
+  }
+  return message;
+}
+
+/**
+ * Converts an OpenAPI security scheme into its AsyncAPI counterpart
+ * @private
+ */
+function toAsyncApiScheme(
+  scheme: Record<string, unknown>
+): Record<string, unknown> {
+  return scheme.type === 'apiKey' ? { ...scheme, type: 'httpApiKey' } : scheme;
+}
+
+/**
+ * Generates an AsyncAPI 3.0 document describing Socket.IO services
+ *
+ * Operations the server receives are named `<channel>.receive.<method>`,
+ * operations it sends `<channel>.send.<event>`; the root namespace is the
+ * `root` channel.
+ *
+ * @param {ServiceContract[]} services - Registered services
+ * @param {AsyncApiDocumentOptions} options - Info, servers and components
+ * @returns {Record<string, unknown>} AsyncAPI document
+ */
+export function generateAsyncApi(
+  services: ServiceContract[],
+  options: AsyncApiDocumentOptions
+): Record<string, unknown> {
+  const { schemas, rewrite } = createSchemaComponents(options.schemas);
+  const channels: Record<string, unknown> = {};
+  const operations: Record<string, unknown> = {};
+
+  services.forEach(service => {
+    const key = channelKey(service.name);
+    const channel = { $ref: `#/channels/${key}` };
+    const messages: Record<string, unknown> = {};
+    const messageRef = (id: string) => ({
+      $ref: `#/channels/${key}/messages/${id}`,
+    });
+
+    service.methods.forEach(method => {
+      const request = messageKey('receive', method.name);
+      messages[request] = buildMessage(method.name, method.data);
+
+      const operation: Record<string, unknown> = {
+        action: 'receive',
+        channel,
+        messages: [messageRef(request)],
+      };
+      if (method.ack) {
+        const reply = messageKey('reply', method.name);
+        messages[reply] = buildMessage(
+          method.name,
+          method.ack,
+          'Acknowledgement'
+        );
+        operation.reply = { channel, messages: [messageRef(reply)] };
+      }
+      operations[`${key}.${request}`] = operation;
+    });
+
+    const emits: (ServiceEventContract & { summary?: string })[] = [
+      ...service.emits,
+    ];
+    if (options.shutdownEvent) {
+      emits.push({
+        name: options.shutdownEvent,
+        data: {
+          type: 'object',
+          properties: { timeout: { type: 'integer' } },
+        },
+        summary: 'Server is shutting down, within `timeout` milliseconds',
+      });
+    }
+    emits.forEach(event => {
+      const id = messageKey('send', event.name);
+      const description = event.data?.description;
+      messages[id] = buildMessage(
+        event.name,
+        event.data,
+        event.summary ??
+          (typeof description === 'string' ? description : undefined)
+      );
+      operations[`${key}.${id}`] = {
+        action: 'send',
+        channel,
+        messages: [messageRef(id)],
+      };
+    });
+
+    channels[key] = { address: service.namespace, messages };
+  });
+
+  const servers: Record<string, Record<string, unknown>> = {};
+  const securitySchemes: Record<string, unknown> = {};
+  Object.entries(options.securitySchemes || {}).forEach(([name, scheme]) => {
+    securitySchemes[name] = toAsyncApiScheme(scheme);
+  });
+  Object.entries(options.servers).forEach(([name, server]) => {
+    servers[name] = { pathname: '/socket.io/', ...server };
+    if (Object.keys(securitySchemes).length > 0) {
+      servers[name].security = Object.keys(securitySchemes).map(scheme => ({
+        $ref: `#/components/securitySchemes/${scheme}`,
+      }));
+    }
+  });
+
+  const document: Record<string, unknown> = {
+    asyncapi: '3.0.0',
+    info: options.info,
+    defaultContentType: 'application/json',
+    servers,
+    channels,
+    operations,
+  };
+
+  const components: Record<string, unknown> = {};
+  if (Object.keys(schemas).length > 0) {
+    components.schemas = schemas;
+  }
+  if (Object.keys(securitySchemes).length > 0) {
+    components.securitySchemes = securitySchemes;
+  }
+  if (Object.keys(components).length > 0) {
+    document.components = components;
+  }
+
+  return rewrite(document);
+}
@@ -0,0 +1,912 @@
+/**
+ * @fileoverview Auth - Authentication strategies shared by HTTP and WebSocket
+ *
+ * Strategies extract credentials from a transport-neutral context (headers,
+ * query string, cookies and Socket.IO handshake payload) and resolve the
+ * authenticated user. IOServer runs them once per HTTP request and once per
+ * socket handshake, exposing the result as `request.user` and
+ * `socket.data.user`.
+ *
+ * @author Ben Mz <0x42en@users.noreply.github.com>
+ * @version 2.1.1
+ * @since 2.2.0
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { IncomingHttpHeaders } from 'http';
+import type { Socket } from 'socket.io';
+import type { LogContext } from './IOServer';
+import { IOServerError } from './IOServerError';
+
+/**
+ * Authenticated user attached to requests and sockets. Extend it through
+ * declaration merging to type `request.user` and `socket.data.user`:
+ *
+ * ```typescript
+ * declare module 'ioserver' {
+ *   interface AuthUser { id: string; roles: string[] }
+ * }
+ * ```
+ * @interface AuthUser
+ */
+export interface AuthUser {
+  [key: string]: any;
+}
+
+/**
+ * Transport-neutral credentials source handed to strategies
+ * @interface AuthContext
+ */
+export interface AuthContext {
+  /** Transport the credentials were received on */
+  transport: 'http' | 'socket';
+  /** HTTP request or Socket.IO handshake headers */
+  headers: IncomingHttpHeaders;
+  /** Query string parameters */
+  query: Record<string, unknown>;
+  /** Cookies parsed from the Cookie header */
+  cookies: Record<string, string>;
+  /** Socket.IO handshake `auth` payload (empty over HTTP) */
+  auth: Record<string, unknown>;
+}
+
+/**
+ * Pluggable authentication strategy
+ *
+ * `authenticate()` returns `undefined` when the context carries no
+ * credentials for this strategy, so the next strategy is tried. It throws an
+ * IOServerError (usually 401) when credentials are present but invalid.
+ * @interface AuthStrategy
+ */
+export interface AuthStrategy {
+  /** Strategy name used in logs */
+  readonly name: string;
+  /** OpenAPI security scheme describing the credentials, for API docs */
+  readonly securityScheme?: Record<string, unknown>;
+  authenticate(
+    context: AuthContext
+  ): Promise<AuthUser | undefined> | AuthUser | undefined;
+}
+
+/**
+ * Authentication configuration
+ * @interface AuthOptions
+ */
+export interface AuthOptions {
+  /** Strategies tried in order until one authenticates the user */
+  strategies: AuthStrategy[];
+  /**
+   * Require authentication on every route and service method unless they opt
+   * out with `auth: false` - defaults to true. When false, routes and
+   * methods opt in with `auth: true`.
+   */
+  required?: boolean;
+  /** Named policies referenced by access rules (e.g. from route files) */
+  policies?: Record<string, AuthPolicy>;
+  /** Reads the roles of a user - defaults to `user.roles` */
+  getRoles?: (user: AuthUser) => string[];
+  /** Reads the permissions of a user - defaults to `user.permissions` */
+  getPermissions?: (user: AuthUser) => string[];
+}
+
+/**
+ * Authorization requirements of a route or service method. Declaring a rule
+ * implies authentication.
+ * @interface AccessRule
+ */
+export interface AccessRule {
+  /** The user must have at least one of these roles */
+  roles?: string[];
+  /** The user must have every one of these permissions */
+  permissions?: string[];
+  /** Resource-level check: name of a registered policy, or the policy itself */
+  policy?: string | AuthPolicy;
+}
+
+/**
+ * Authentication requirement of a route or service method: `true` requires
+ * an authenticated user, an AccessRule also checks roles, permissions and
+ * policy, `false` makes it public
+ */
+export type AuthRequirement = boolean | AccessRule;
+
+/**
+ * Context handed to policies
+ * @interface PolicyContext
+ */
+export interface PolicyContext {
+  transport: 'http' | 'socket';
+  /** Controller or service name */
+  component: string;
+  /** Fastify request (HTTP only) */
+  request?: any;
+  /** Calling socket (socket only) */
+  socket?: any;
+  /** Called service method (socket only) */
+  method?: string;
+  /** Event payload (socket only) */
+  data?: any;
+}
+
+/**
+ * Resource-level authorization check, e.g. "is the user a member of this
+ * room". Returns false (or throws an IOServerError) to deny access.
+ */
+export type AuthPolicy = (
+  user: AuthUser,
+  context: PolicyContext
+) => Promise<boolean> | boolean;
+
+/** Resolves a user from a verified credential, undefined when unknown */
+export type UserResolver<T> = (
+  value: T,
+  context: AuthContext
+) => Promise<AuthUser | undefined> | AuthUser | undefined;
+
+/**
+ * Parses a Cookie header into a name/value map
+ * @param {string} header - Cookie header value
+ * @returns {Record<string, string>} Cookies by name
+ */
+export function parseCookies(header?: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) {
+    return cookies;
+  }
+
+  header.split(';').forEach(pair => {
+    const index = pair.indexOf('=');
+    if (index < 0) {
+      return;
+    }
+    const name = pair.slice(0, index).trim();
+    const value = pair.slice(index + 1).trim();
+    if (name && cookies[name] === undefined) {
+      try {
+        cookies[name] = decodeURIComponent(value.replace(/^"(.*)"$/, '$1'));
+      } catch {
+        cookies[name] = value;
+      }
+    }
+  });
+  return cookies;
+}
+
+/**
+ * Extracts a bearer token from the Authorization header, or from the
+ * `token` field of the Socket.IO handshake payload
+ * @param {AuthContext} context - Credentials source
+ * @returns {string | undefined} Token when present
+ */
+export function getBearerToken(context: AuthContext): string | undefined {
+  const header = context.headers.authorization;
+  if (typeof header === 'string') {
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (match) {
+      return match[1].trim();
+    }
+  }
+  if (typeof context.auth.token === 'string') {
+    return context.auth.token.replace(/^Bearer\s+/i, '');
+  }
+  return undefined;
+}
+
+/**
+ * Runs strategies in order and returns the first authenticated user
+ * @param {AuthStrategy[]} strategies - Configured strategies
+ * @param {AuthContext} context - Credentials source
+ * @returns {Promise<AuthUser | undefined>} User, undefined without credentials
+ * @throws {IOServerError} When credentials are invalid
+ */
+export async function authenticate(
+  strategies: AuthStrategy[],
+  context: AuthContext
+): Promise<AuthUser | undefined> {
+  for (const strategy of strategies) {
+    let user: AuthUser | undefined;
+    try {
+      user = await strategy.authenticate(context);
+    } catch (error) {
+      if (error instanceof IOServerError) {
+        throw error;
+      }
+      throw new IOServerError(
+        `Authentication failed (${strategy.name}): ${(error as Error)?.message || error}`,
+        401
+      );
+    }
+    if (user) {
+      return user;
+    }
+  }
+  return undefined;
+}
+
+type JwtAlgorithmKind = 'hmac' | 'rsa' | 'pss' | 'ec' | 'eddsa';
+
+const JWT_ALGORITHMS: Record<
+  string,
+  { kind: JwtAlgorithmKind; hash: string | null }
+> = {
+  HS256: { kind: 'hmac', hash: 'sha256' },
+  HS384: { kind: 'hmac', hash: 'sha384' },
+  HS512: { kind: 'hmac', hash: 'sha512' },
+  RS256: { kind: 'rsa', hash: 'sha256' },
+  RS384: { kind: 'rsa', hash: 'sha384' },
+  RS512: { kind: 'rsa', hash: 'sha512' },
+  PS256: { kind: 'pss', hash: 'sha256' },
+  PS384: { kind: 'pss', hash: 'sha384' },
+  PS512: { kind: 'pss', hash: 'sha512' },
+  ES256: { kind: 'ec', hash: 'sha256' },
+  ES384: { kind: 'ec', hash: 'sha384' },
+  ES512: { kind: 'ec', hash: 'sha512' },
+  EdDSA: { kind: 'eddsa', hash: null },
+};
+
+const KEY_TYPES: Record<JwtAlgorithmKind, string[]> = {
+  hmac: [],
+  rsa: ['rsa'],
+  pss: ['rsa', 'rsa-pss'],
+  ec: ['ec'],
+  eddsa: ['ed25519', 'ed448'],
+};
+
+/**
+ * Configuration options of the JWT strategy
+ * @interface JwtStrategyOptions
+ */
+export interface JwtStrategyOptions {
+  /** Shared secret verifying HS256/384/512 tokens */
+  secret?: string | Buffer;
+  /** PEM public key verifying asymmetric tokens */
+  publicKey?: string | Buffer;
+  /**
+   * Path to a local JWKS file, keys are selected by `kid`: a token without
+   * `kid` is only accepted by a file holding a single key
+   */
+  jwksFile?: string;
+  /** Accepted algorithms - defaults to those matching the configured key */
+  algorithms?: string[];
+  /** Expected `iss` claim */
+  issuer?: string | string[];
+  /** Expected `aud` claim */
+  audience?: string | string[];
+  /** Tolerance (seconds) applied to `exp` and `nbf` - defaults to 0 */
+  clockTolerance?: number;
+  /** Rejects tokens without `exp` claim - defaults to true */
+  requireExp?: boolean;
+  /** Maps the verified payload to the user - defaults to the payload */
+  resolve?: UserResolver<Record<string, unknown>>;
+}
+
+/**
+ * Authenticates bearer JSON Web Tokens signed with a local secret, a PEM
+ * public key or the keys of a local JWKS file
+ * @class JwtStrategy
+ */
+export class JwtStrategy implements AuthStrategy {
+  readonly name = 'jwt';
+  readonly securityScheme = {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+  };
+
+  private readonly secret?: Buffer;
+  private readonly keys: Map<string | undefined, crypto.KeyObject> = new Map();
+  private readonly algorithms: string[];
+
+  constructor(private readonly options: JwtStrategyOptions) {
+    if (options.secret !== undefined) {
+      this.secret = Buffer.from(options.secret);
+    }
+    if (options.publicKey !== undefined) {
+      this.keys.set(undefined, crypto.createPublicKey(options.publicKey));
+    }
+    if (options.jwksFile) {
+      this.loadJwks(options.jwksFile);
+    }
+    if (!this.secret && this.keys.size === 0) {
+      throw new IOServerError(
+        'JWT strategy requires a secret, a public key or a JWKS file',
+        500
+      );
+    }
+
+    this.algorithms =
+      options.algorithms ||
+      Object.keys(JWT_ALGORITHMS).filter(
+        alg => (JWT_ALGORITHMS[alg].kind === 'hmac') === Boolean(this.secret)
+      );
+  }
+
+  private loadJwks(file: string): void {
+    let keys: unknown;
+    try {
+      keys = JSON.parse(fs.readFileSync(file, 'utf8')).keys;
+    } catch (error) {
+      throw new IOServerError(
+        `Unable to load JWKS file ${file}: ${error}`,
+        500
+      );
+    }
+    if (!Array.isArray(keys)) {
+      throw new IOServerError(`JWKS file ${file} has no keys`, 500);
+    }
+    keys.forEach(jwk => {
+      this.keys.set(
+        jwk.kid,
+        crypto.createPublicKey({ key: jwk, format: 'jwk' })
+      );
+    });
+  }
+
+  async authenticate(context: AuthContext): Promise<AuthUser | undefined> {
+    const token = getBearerToken(context);
+    if (!token) {
+      return undefined;
+    }
+
+    const payload = this.verify(token);
+    const user = this.options.resolve
+      ? await this.options.resolve(payload, context)
+      : payload;
+    if (!user) {
+      throw new IOServerError('Unknown token subject', 401);
+    }
+    return user;
+  }
+
+  /**
+   * Verifies a token signature and its registered claims
+   * @param {string} token - Compact JWT
+   * @returns {Record<string, unknown>} Token payload
+   * @throws {IOServerError} When the token is invalid
+   */
+  verify(token: string): Record<string, unknown> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new IOServerError('Malformed token', 401);
+    }
+
+    let header: { alg?: unknown; kid?: unknown } | null;
+    let payload: Record<string, unknown> | null;
+    try {
+      header = JSON.parse(Buffer.from(parts[0], 'base64url').toString());
+      payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString());
+    } catch {
+      throw new IOServerError('Malformed token', 401);
+    }
+
+    const alg = header?.alg;
+    if (
+      typeof alg !== 'string' ||
+      !JWT_ALGORITHMS[alg] ||
+      !this.algorithms.includes(alg)
+    ) {
+      throw new IOServerError(`Unsupported token algorithm ${alg}`, 401);
+    }
+    const algorithm = JWT_ALGORITHMS[alg];
+    if (!payload || typeof payload !== 'object') {
+      throw new IOServerError('Malformed token', 401);
+    }
+
+    const data = Buffer.from(`${parts[0]}.${parts[1]}`);
+    const signature = Buffer.from(parts[2], 'base64url');
+    const kid = header?.kid === undefined ? undefined : String(header.kid);
+    if (!this.verifySignature(algorithm, kid, data, signature)) {
+      throw new IOServerError('Invalid token signature', 401);
+    }
+
+    this.verifyClaims(payload);
+    return payload;
+  }
+
+  private verifySignature(
+    algorithm: { kind: JwtAlgorithmKind; hash: string | null },
+    kid: string | undefined,
+    data: Buffer,
+    signature: Buffer
+  ): boolean {
+    if (algorithm.kind === 'hmac') {
+      if (!this.secret) {
+        return false;
+      }
+      const expected = crypto
+        .createHmac(algorithm.hash as string, this.secret)
+        .update(data)
+        .digest();
+      return (
+        expected.length === signature.length &&
+        crypto.timingSafeEqual(expected, signature)
+      );
+    }
+
+    // A single key verifies tokens without kid, and tokens whose kid it
+    // cannot contradict when it has none (publicKey option)
+    const [single] = this.keys.size === 1 ? this.keys : [];
+    const key =
+      this.keys.get(kid) ??
+      (single && (kid === undefined || single[0] === undefined)
+        ? single[1]
+        : undefined);
+    if (
+      !key ||
+      !KEY_TYPES[algorithm.kind].includes(key.asymmetricKeyType as string)
+    ) {
+      return false;
+    }
+
+    switch (algorithm.kind) {
+      case 'pss':
+        return crypto.verify(
+          algorithm.hash,
+          data,
+          {
+            key,
+            padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+            saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+          },
+          signature
+        );
+      case 'ec':
+        return crypto.verify(
+          algorithm.hash,
+          data,
+          { key, dsaEncoding: 'ieee-p1363' },
+          signature
+        );
+      default:
+        return crypto.verify(algorithm.hash, data, key, signature);
+    }
+  }
+
+  private verifyClaims(payload: Record<string, unknown>): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.options.clockTolerance || 0;
+
+    if (typeof payload.exp !== 'number') {
+      if (this.options.requireExp ?? true) {
+        throw new IOServerError('Token without expiration', 401);
+      }
+    } else if (now - tolerance >= payload.exp) {
+      throw new IOServerError('Token expired', 401);
+    }
+    if (typeof payload.nbf === 'number' && now + tolerance < payload.nbf) {
+      throw new IOServerError('Token not active yet', 401);
+    }
+
+    if (this.options.issuer) {
+      const issuers = ([] as string[]).concat(this.options.issuer);
+      if (typeof payload.iss !== 'string' || !issuers.includes(payload.iss)) {
+        throw new IOServerError('Invalid token issuer', 401);
+      }
+    }
+    if (this.options.audience) {
+      const expected = ([] as string[]).concat(this.options.audience);
+      const audiences = ([] as unknown[]).concat(payload.aud ?? []);
+      if (!expected.some(aud => audiences.includes(aud))) {
+        throw new IOServerError('Invalid token audience', 401);
+      }
+    }
+  }
+}
+
+/**
+ * Configuration options of the API key strategy
+ * @interface ApiKeyStrategyOptions
+ */
+export interface ApiKeyStrategyOptions {
+  /** Users by API key, or a function resolving the user of a key */
+  keys: Record<string, AuthUser> | UserResolver<string>;
+  /** Header carrying the key - defaults to 'x-api-key' */
+  header?: string;
+  /** Query string parameter carrying the key (disabled by default) */
+  query?: string;
+}
+
+/**
+ * Authenticates API keys sent in a header, the query string or the
+ * `apiKey` field of the Socket.IO handshake payload
+ * @class ApiKeyStrategy
+ */
+export class ApiKeyStrategy implements AuthStrategy {
+  readonly name = 'api-key';
+  readonly securityScheme: Record<string, unknown>;
+
+  private readonly header: string;
+
+  constructor(private readonly options: ApiKeyStrategyOptions) {
+    this.header = (options.header || 'x-api-key').toLowerCase();
+    this.securityScheme = { type: 'apiKey', in: 'header', name: this.header };
+  }
+
+  async authenticate(context: AuthContext): Promise<AuthUser | undefined> {
+    const key = this.extractKey(context);
+    if (!key) {
+      return undefined;
+    }
+
+    const keys = this.options.keys;
+    const user =
+      typeof keys === 'function'
+        ? await keys(key, context)
+        : Object.prototype.hasOwnProperty.call(keys, key)
+          ? keys[key]
+          : undefined;
+    if (!user) {
+      throw new IOServerError('Invalid API key', 401);
+    }
+    return user;
+  }
+
+  private extractKey(context: AuthContext): string | undefined {
+    const header = context.headers[this.header];
+    if (typeof header === 'string' && header) {
+      return header;
+    }
+    const query = this.options.query
+      ? context.query[this.options.query]
+      : undefined;
+    if (typeof query === 'string') {
+      return query;
+    }
+    if (typeof context.auth.apiKey === 'string') {
+      return context.auth.apiKey;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Configuration options of the session cookie strategy
+ * @interface SessionStrategyOptions
+ */
+export interface SessionStrategyOptions {
+  /** Resolves the user owning a session id, undefined when unknown */
+  resolve: UserResolver<string>;
+  /** Name of the session cookie - defaults to 'sid' */
+  cookie?: string;
+}
+
+/**
+ * Authenticates a session cookie, sent with HTTP requests and with the
+ * Socket.IO handshake of same-origin clients
+ * @class SessionStrategy
+ */
+export class SessionStrategy implements AuthStrategy {
+  readonly name = 'session';
+  readonly securityScheme: Record<string, unknown>;
+
+  private readonly cookie: string;
+
+  constructor(private readonly options: SessionStrategyOptions) {
+    this.cookie = options.cookie || 'sid';
+    this.securityScheme = { type: 'apiKey', in: 'cookie', name: this.cookie };
+  }
+
+  async authenticate(context: AuthContext): Promise<AuthUser | undefined> {
+    const sessionId = context.cookies[this.cookie];
+    if (!sessionId) {
+      return undefined;
+    }
+
+    const user = await this.options.resolve(sessionId, context);
+    if (!user) {
+      throw new IOServerError('Invalid or expired session', 401);
+    }
+    return user;
+  }
+}
+
+/**
+ * Checks an access rule against an authenticated user
+ * @param {AccessRule} rule - Roles, permissions and policy to satisfy
+ * @param {AuthUser} user - Authenticated user
+ * @param {PolicyContext} context - Context handed to the policy
+ * @param {AuthOptions} options - Policies and role/permission readers
+ * @throws {IOServerError} 403 when access is denied
+ */
+export async function authorize(
+  rule: AccessRule,
+  user: AuthUser,
+  context: PolicyContext,
+  options: Omit<AuthOptions, 'strategies'> = {}
+): Promise<void> {
+  if (rule.roles && rule.roles.length > 0) {
+    const roles = options.getRoles ? options.getRoles(user) : user.roles;
+    if (
+      !Array.isArray(roles) ||
+      !rule.roles.some(role => roles.includes(role))
+    ) {
+      throw new IOServerError('Insufficient role', 403);
+    }
+  }
+
+  if (rule.permissions && rule.permissions.length > 0) {
+    const permissions = options.getPermissions
+      ? options.getPermissions(user)
+      : user.permissions;
+    if (
+      !Array.isArray(permissions) ||
+      !rule.permissions.every(permission => permissions.includes(permission))
+    ) {
+      throw new IOServerError('Insufficient permissions', 403);
+    }
+  }
+
+  if (rule.policy) {
+    const policy =
+      typeof rule.policy === 'string'
+        ? options.policies?.[rule.policy]
+        : rule.policy;
+    if (!policy) {
+      throw new IOServerError(`Unknown policy ${rule.policy}`, 500);
+    }
+    if (!(await policy(user, context))) {
+      throw new IOServerError('Access denied', 403);
+    }
+  }
+}
+
+/**
+ * Authentication of a server: runs the strategies on HTTP requests and
+ * socket handshakes, and checks the requirements of routes and service
+ * methods
+ * @class Authenticator
+ */
+export class Authenticator {
+  /** Whether routes and methods require authentication unless opting out */
+  readonly required: boolean;
+
+  private readonly options: AuthOptions;
+  private readonly services: Map<
+    string,
+    { auth: AuthRequirement; methods: Record<string, AuthRequirement> }
+  > = new Map();
+
+  /**
+   * @param {AuthOptions} options - Strategies, policies and defaults
+   * @param {Function} log - Receives the denied accesses
+   */
+  constructor(
+    options: AuthOptions | undefined,
+    private readonly log: (
+      level: number,
+      text: string,
+      context: LogContext
+    ) => void
+  ) {
+    this.options = options || { strategies: [] };
+    this.required = options?.required !== false;
+  }
+
+  /** Whether any strategy is configured */
+  get enabled(): boolean {
+    return (this.options.strategies || []).length > 0;
+  }
+
+  /**
+   * Sets the requirements of a service and of its methods
+   * @param {string} name - Service name
+   * @param {AuthRequirement} auth - Requirement of the whole service
+   * @param {Record<string, AuthRequirement>} methods - Method requirements
+   */
+  addService(
+    name: string,
+    auth: AuthRequirement | undefined,
+    methods: Record<string, AuthRequirement> = {}
+  ): void {
+    this.services.set(name, { auth: auth ?? this.required, methods });
+  }
+
+  /**
+   * Forgets the requirements of a service
+   * @param {string} name - Service name
+   */
+  removeService(name: string): void {
+    this.services.delete(name);
+  }
+
+  /**
+   * Reads the requirement of a service method, false without strategy
+   * @param {string} serviceName - Service name
+   * @param {string} methodName - Method name
+   * @returns {AuthRequirement} Requirement checked on each call
+   */
+  getMethodAuth(serviceName: string, methodName: string): AuthRequirement {
+    if (!this.enabled) {
+      return false;
+    }
+    const auth = this.services.get(serviceName);
+    if (!auth) {
+      return this.required;
+    }
+    return auth.methods[methodName] ?? auth.auth;
+  }
+
+  /**
+   * Rejects auth requirements and access rules that could never be enforced
+   * @param {AuthRequirement} requirement - Declared requirement
+   * @param {string} target - Route or component, for error messages
+   * @throws {IOServerError} When no strategy or policy can enforce it
+   */
+  checkRequirement(
+    requirement: AuthRequirement | undefined,
+    target: string
+  ): void {
+    if (requirement === true && !this.enabled) {
+      throw new IOServerError(
+        `Auth required on ${target} without auth strategies`,
+        500
+      );
+    }
+    if (typeof requirement !== 'object') {
+      return;
+    }
+    if (!this.enabled) {
+      throw new IOServerError(
+        `Access rule declared on ${target} without auth strategies`,
+        500
+      );
+    }
+    if (
+      typeof requirement.policy === 'string' &&
+      !this.options.policies?.[requirement.policy]
+    ) {
+      throw new IOServerError(
+        `Unknown policy ${requirement.policy} declared on ${target}`,
+        500
+      );
+    }
+  }
+
+  /**
+   * Lists the OpenAPI security schemes of the strategies
+   * @returns {Record<string, Record<string, unknown>>} Schemes by strategy
+   */
+  getSecuritySchemes(): Record<string, Record<string, unknown>> {
+    const securitySchemes: Record<string, Record<string, unknown>> = {};
+    (this.options.strategies || []).forEach(strategy => {
+      if (strategy.securityScheme) {
+        securitySchemes[strategy.name] = strategy.securityScheme;
+      }
+    });
+    return securitySchemes;
+  }
+
+  /**
+   * Creates the onRequest hook authenticating a controller route
+   * @param {boolean} required - Whether anonymous requests are refused
+   * @returns {Function} Fastify hook setting `request.user`
+   */
+  createHook(required: boolean) {
+    return async (request: FastifyRequest, _reply: FastifyReply) => {
+      request.user = await this.authenticate(
+        {
+          transport: 'http',
+          headers: request.headers,
+          query: (request.query as Record<string, unknown>) || {},
+          cookies: parseCookies(request.headers.cookie),
+          auth: {},
+        },
+        required
+      );
+    };
+  }
+
+  /**
+   * Creates the preValidation hook checking the access rule of a route
+   * @param {AccessRule} rule - Rule of the route or controller
+   * @param {string} controllerName - Controller serving the route
+   * @returns {Function} Fastify hook
+   */
+  createAccessHook(rule: AccessRule, controllerName: string) {
+    return async (request: FastifyRequest, _reply: FastifyReply) => {
+      await this.authorize(rule, request.user, {
+        transport: 'http',
+        component: controllerName,
+        request,
+      });
+    };
+  }
+
+  /**
+   * Creates the namespace middleware authenticating socket handshakes.
+   * Connections are only refused when every method of the service requires
+   * authentication; otherwise each call is checked.
+   * @param {string} serviceName - Service of the namespace
+   * @param {string[]} methods - Methods exposed by the service
+   * @param {Function} refuse - Refuses the connection with an error
+   * @returns {Function} Socket.IO namespace middleware
+   */
+  createSocketMiddleware(
+    serviceName: string,
+    methods: string[],
+    refuse: (
+      socket: Socket,
+      error: IOServerError,
+      next: (err?: Error) => void
+    ) => void
+  ) {
+    const required = methods.every(
+      method => this.getMethodAuth(serviceName, method) !== false
+    );
+
+    return async (socket: Socket, next: (err?: Error) => void) => {
+      const handshake = socket.handshake;
+      try {
+        socket.data.user = await this.authenticate(
+          {
+            transport: 'socket',
+            headers: handshake.headers,
+            query: handshake.query || {},
+            cookies: parseCookies(handshake.headers.cookie),
+            auth: handshake.auth || {},
+          },
+          required
+        );
+        next();
+      } catch (error) {
+        refuse(
+          socket,
+          error instanceof IOServerError
+            ? error
+            : new IOServerError(`${error}`, 401),
+          next
+        );
+      }
+    };
+  }
+
+  /**
+   * Checks an access rule, logging denials
+   * @param {AccessRule} rule - Roles, permissions and policy to satisfy
+   * @param {AuthUser} user - Authenticated user, if any
+   * @param {PolicyContext} context - Context handed to the policy
+   * @throws {IOServerError} 401 without user, 403 when access is denied
+   */
+  async authorize(
+    rule: AccessRule,
+    user: AuthUser | undefined,
+    context: PolicyContext
+  ): Promise<void> {
+    if (!user) {
+      throw new IOServerError('Authentication required', 401);
+    }
+
+    try {
+      await authorize(rule, user, context, this.options);
+    } catch (error) {
+      this.log(5, `[!] Access denied on ${context.component}: ${error}`, {
+        componentType: context.transport === 'http' ? 'controller' : 'service',
+        componentName: context.component,
+        method: context.method,
+      });
+      throw error;
+    }
+  }
+
+  private async authenticate(
+    context: AuthContext,
+    required: boolean
+  ): Promise<AuthUser | undefined> {
+    let user: AuthUser | undefined;
+    try {
+      user = await authenticate(this.options.strategies || [], context);
+    } catch (error) {
+      if (required) {
+        throw error;
+      }
+      return undefined;
+    }
+
+    if (!user && required) {
+      throw new IOServerError('Authentication required', 401);
+    }
+    return user;
+  }
+}
@@ -3,19 +3,38 @@
  *
  * This module provides abstract base classes that define the common interface
  * for Services, Controllers, Managers, Watchers, and Middlewares in the IOServer framework.
+ * Each class takes the type of its application handle: `AppHandle` with
+ * untyped managers by default, or `AppHandleOf<typeof server>` to type the
+ * managers registered with chained `addManager()` calls. Components may also
+ * list the tokens of their constructor dependencies in a static `inject`
+ * array, resolved from the providers of the server.
  *
  * @author Ben Mz <0x42en@users.noreply.github.com>
  * @version 2.1.1
  * @since 1.0.0
  */
 
-import { AppHandle } from './IOServer';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { Socket } from 'socket.io';
+import type { Token } from './Container';
+import type { WatcherSchedule } from './Scheduler';
+import {
+  AppHandle,
+  AppHandleCore,
+  ControllerRoute,
+  EventContext,
+  MiddlewareContext,
+  MiddlewareStage,
+} from './IOServer';
 
 /**
  * Abstract base class for real-time services
  *
  * Services handle WebSocket connections and real-time events.
- * Each public method automatically becomes a WebSocket event handler.
+ * Each public method automatically becomes a WebSocket event handler,
+ * unless the service declares its events explicitly through the static
+ * `events` list or the `@SocketEvent()` decorator. Lifecycle hooks
+ * (`onConnection`, `onDisconnect`, `onError`) are never bound as events.
  *
  * @abstract
  * @example
@@ -42,27 +61,67 @@ import { AppHandle } from './IOServer';
  * }
  * ```
  */
-export abstract class BaseService {
+export abstract class BaseService<THandle extends AppHandleCore = AppHandle> {
+  /**
+   * Methods exposed as Socket.IO events. When set, only these methods are
+   * bound; required when the server runs with `strictEvents`.
+   * @static
+   */
+  static events?: string[];
+
+  /**
+   * Tokens of the dependencies passed to the constructor after the
+   * application handle. Connection-scoped services may inject
+   * connection-scoped providers and the `SOCKET` token.
+   * @static
+   */
+  static inject?: Token[];
+
   /**
    * Application handle providing access to shared functionality
    * @protected
    */
-  protected appHandle: AppHandle;
+  protected appHandle: THandle;
 
   /**
    * Creates a new service instance
-   * @param {AppHandle} appHandle - Application handle for shared functionality
+   * @param {THandle} appHandle - Application handle for shared functionality
    */
-  constructor(appHandle: AppHandle) {
+  constructor(appHandle: THandle) {
     this.appHandle = appHandle;
   }
+
+  /**
+   * Optional hook awaited when a socket connects, before its calls are
+   * dispatched. Throwing closes the connection.
+   * @param {Socket} socket - The connected socket
+   */
+  onConnection?(socket: Socket): Promise<void> | void;
+
+  /**
+   * Optional hook awaited when a socket disconnects, e.g. to release what
+   * `onConnection` acquired
+   * @param {Socket} socket - The disconnected socket
+   * @param {string} reason - Socket.IO disconnection reason
+   */
+  onDisconnect?(socket: Socket, reason: string): Promise<void> | void;
+
+  /**
+   * Optional hook awaited when a call fails, before the error payload is
+   * sent to the client
+   * @param {Socket} socket - The calling socket
+   * @param {Error} error - The error thrown by the call
+   * @param {string} method - The called method
+   */
+  onError?(socket: Socket, error: Error, method: string): Promise<void> | void;
 }
 
 /**
  * Abstract base class for HTTP controllers
  *
  * Controllers handle HTTP requests and route mapping.
- * Methods are mapped to routes via JSON configuration files.
+ * Methods are mapped to routes via JSON configuration files, the static
+ * `routes` list or route decorators such as `@Get()`.
  *
  * @abstract
  * @example
@@ -93,20 +152,47 @@ export abstract class BaseService {
  *     }
  *   }
  * }
+ *
+ * // Routes declared in TypeScript instead of a JSON route file
+ * class HealthController extends BaseController {
+ *   static routes: ControllerRoute<HealthController>[] = [
+ *     { method: 'GET', url: '/health', handler: 'getHealth' },
+ *   ];
+ *
+ *   async getHealth(request: FastifyRequest, reply: FastifyReply) {
+ *     reply.send({ status: 'OK' });
+ *   }
+ * }
  * ```
  */
-export abstract class BaseController {
+export abstract class BaseController<
+  THandle extends AppHandleCore = AppHandle,
+> {
+  /**
+   * Routes declared on the controller, registered along with those of the
+   * JSON route file when it exists
+   * @static
+   */
+  static routes?: ControllerRoute[];
+
+  /**
+   * Tokens of the dependencies passed to the constructor after the
+   * application handle
+   * @static
+   */
+  static inject?: Token[];
+
   /**
    * Application handle providing access to shared functionality
    * @protected
    */
-  protected appHandle: AppHandle;
+  protected appHandle: THandle;
 
   /**
    * Creates a new controller instance
-   * @param {AppHandle} appHandle - Application handle for shared functionality
+   * @param {THandle} appHandle - Application handle for shared functionality
    */
-  constructor(appHandle: AppHandle) {
+  constructor(appHandle: THandle) {
     this.appHandle = appHandle;
   }
 }
@@ -116,6 +202,8 @@ export abstract class BaseController {
  *
  * Managers provide shared functionality across services and controllers.
  * They are registered in the appHandle and accessible by their name.
+ * Their optional start() hooks are awaited by IOServer.start(), after the
+ * managers they depend on, and stop() hooks run in reverse order on shutdown.
  *
  * @abstract
  * @example
@@ -123,7 +211,7 @@ export abstract class BaseController {
  * class DatabaseManager extends BaseManager {
  *   private connection: any;
  *
- *   async connect() {
+ *   async start() {
  *     try {
  *       this.connection = await createConnection({
  *         host: process.env.DB_HOST,
@@ -136,6 +224,10 @@ export abstract class BaseController {
  *     }
  *   }
  *
+ *   async stop() {
+ *     await this.connection.end();
+ *   }
+ *
  *   async findUser(id: string) {
  *     return this.connection.query('SELECT * FROM users WHERE id = ?', [id]);
  *   }
@@ -150,180 +242,370 @@ export abstract class BaseController {
  * }
  * ```
  */
-export abstract class BaseManager {
+export abstract class BaseManager<THandle extends AppHandleCore = AppHandle> {
+  /**
+   * Tokens of the dependencies passed to the constructor after the
+   * application handle. Injected managers are started before this one.
+   * @static
+   */
+  static inject?: Token[];
+
   /**
    * Application handle providing access to shared functionality
    * @protected
    */
-  protected appHandle: AppHandle;
+  protected appHandle: THandle;
 
   /**
    * Creates a new manager instance
-   * @param {AppHandle} appHandle - Application handle for shared functionality
+   * @param {THandle} appHandle - Application handle for shared functionality
    */
-  constructor(appHandle: AppHandle) {
+  constructor(appHandle: THandle) {
     this.appHandle = appHandle;
   }
+
+  /**
+   * Optional hook awaited when the server starts, once the managers this one
+   * depends on are started. Throwing aborts the server startup.
+   * @returns {Promise<void>} Promise that resolves when manager is ready
+   */
+  start?(): Promise<void> | void;
+
+  /**
+   * Optional hook awaited when the server stops, in reverse start order
+   * @returns {Promise<void>} Promise that resolves when manager is stopped
+   */
+  stop?(): Promise<void> | void;
 }
 
 /**
  * Abstract base class for background watchers
  *
- * Watchers run background tasks and monitoring processes.
- * The watch() method is called when the server starts.
+ * Watchers run background tasks and monitoring processes. Periodic tasks
+ * are declared as jobs in the static `schedules` list (or with the
+ * `@Schedule()` decorator): IOServer owns their timers, never overlaps two
+ * runs of a job and records the outcome of its last run (see
+ * `getWatcherJobs()` and `triggerWatcherJob()`). The optional watch() hook
+ * is called when the server starts, and stop() when it stops.
  *
  * @abstract
  * @example
  * ```typescript
  * class HealthWatcher extends BaseWatcher {
- *   private intervalId: NodeJS.Timeout | null = null;
- *
- *   async watch() {
- *     this.appHandle.log(6, 'Starting health monitoring');
- *
- *     this.intervalId = setInterval(async () => {
- *       await this.checkSystemHealth();
- *     }, 30000); // Check every 30 seconds
- *   }
- *
- *   private async checkSystemHealth() {
- *     try {
- *       const memUsage = process.memoryUsage();
- *       const cpuUsage = process.cpuUsage();
- *
- *       // Log memory usage
- *       const memMB = Math.round(memUsage.heapUsed / 1024 / 1024);
- *       this.appHandle.log(7, `Memory usage: ${memMB}MB`);
- *
- *       // Alert on high memory usage
- *       if (memUsage.heapUsed > 100 * 1024 * 1024) { // 100MB
- *         this.appHandle.log(4, 'High memory usage detected');
- *
- *         // Send alert to monitoring service
- *         this.appHandle.send({
- *           namespace: 'admin',
- *           event: 'health_alert',
- *           data: { type: 'memory', usage: memMB }
- *         });
- *       }
- *
- *     } catch (error) {
- *       this.appHandle.log(3, `Health check failed: ${error}`);
+ *   static schedules: WatcherSchedule<HealthWatcher>[] = [
+ *     { method: 'checkMemory', interval: 30000, jitter: 1000, runOnStart: true },
+ *     { method: 'purgeSessions', cron: '0 3 * * *' },
+ *   ];
+ *
+ *   async checkMemory() {
+ *     const memMB = Math.round(process.memoryUsage().heapUsed / 1024 / 1024);
+ *     this.appHandle.log(7, `Memory usage: ${memMB}MB`);
+ *
+ *     // Alert on high memory usage
+ *     if (memMB > 100) {
+ *       this.appHandle.send({
+ *         namespace: 'admin',
+ *         event: 'health_alert',
+ *         data: { type: 'memory', usage: memMB }
+ *       });
  *     }
  *   }
  *
- *   stop() {
- *     if (this.intervalId) {
- *       clearInterval(this.intervalId);
- *       this.intervalId = null;
- *     }
+ *   async purgeSessions() {
+ *     await this.appHandle.sessions.purgeExpired();
  *   }
  * }
  * ```
  */
-export abstract class BaseWatcher {
+export abstract class BaseWatcher<THandle extends AppHandleCore = AppHandle> {
+  /**
+   * Jobs run on a cron expression or a fixed interval
+   * @static
+   */
+  static schedules?: WatcherSchedule[];
+
+  /**
+   * Tokens of the dependencies passed to the constructor after the
+   * application handle
+   * @static
+   */
+  static inject?: Token[];
+
   /**
    * Application handle providing access to shared functionality
    * @protected
    */
-  protected appHandle: AppHandle;
+  protected appHandle: THandle;
 
   /**
    * Creates a new watcher instance
-   * @param {AppHandle} appHandle - Application handle for shared functionality
+   * @param {THandle} appHandle - Application handle for shared functionality
    */
-  constructor(appHandle: AppHandle) {
+  constructor(appHandle: THandle) {
     this.appHandle = appHandle;
   }
 
   /**
-   * Abstract method that must be implemented by watchers
-   * This method is called when the server starts
-   * @abstract
+   * Optional hook called when the server starts, after the managers
    * @returns {Promise<void>} Promise that resolves when watcher is started
    */
-  abstract watch(): Promise<void>;
+  watch?(): Promise<void>;
 
   /**
-   * Abstract method that must be implemented by watchers
-   * This method is called when the server stops
-   * @abstract
+   * Optional hook called when the server stops, once the runs in progress
+   * of the scheduled jobs completed
    * @returns {void} Return when watcher is stopped
    */
-  abstract stop(): void;
+  stop?(): Promise<void> | void;
 }
 
 /**
- * Abstract base class for middleware components
+ * Abstract base class shared by the middleware classes, holding the
+ * application handle and the injected dependencies. Extend one of
+ * `BaseMiddleware`, `HttpMiddleware`, `SocketMiddleware` or
+ * `BaseEventMiddleware` rather than this class.
  *
- * Middlewares provide request/response processing for HTTP routes
- * and WebSocket namespaces.
+ * @abstract
+ */
+export abstract class MiddlewareBase<
+  THandle extends AppHandleCore = AppHandle,
+> {
+  /**
+   * Tokens of the dependencies passed to the constructor after the
+   * application handle
+   * @static
+   */
+  static inject?: Token[];
+
+  /**
+   * Application handle providing access to shared functionality, undefined
+   * for instances created without it
+   * @protected
+   */
+  protected appHandle?: THandle;
+
+  /**
+   * Creates a new middleware instance, IOServer instantiating middleware
+   * classes and calling middleware factories once with the application
+   * handle
+   * @param {THandle} appHandle - Application handle for shared functionality
+   */
+  constructor(appHandle?: THandle) {
+    this.appHandle = appHandle;
+  }
+}
+
+/**
+ * Abstract base class for transport-agnostic middlewares
+ *
+ * Middlewares guard the HTTP routes of controllers and the connections of
+ * service namespaces. IOServer runs `handle` with the same normalized
+ * context for both transports, after the built-in authentication (see the
+ * `auth` option of IOServer), so `context.user` is already populated.
+ * Throwing rejects the request or connection with the standard error
+ * payload. Extend `HttpMiddleware` or `SocketMiddleware` instead to work with
+ * the objects of a single transport.
+ *
+ * Middlewares are registered as classes, factories or instances (see
+ * `MiddlewareEntry`). Each entry is instantiated once, so its configuration
+ * and state are shared by every route and connection it guards.
  *
  * @abstract
  * @example
  * ```typescript
- * class AuthMiddleware extends BaseMiddleware {
- *   handle(appHandle: AppHandle) {
- *     return (req: any, reply: any, done: any) => {
- *       const token = req.headers.authorization;
- *
- *       if (!token) {
- *         return reply.status(401).send({
- *           statusCode: 401,
- *           error: 'Unauthorized',
- *           message: 'Authorization header required'
- *         });
- *       }
+ * class ActiveUserMiddleware extends BaseMiddleware {
+ *   handle(context: MiddlewareContext, appHandle: AppHandle) {
+ *     if (context.user?.disabled) {
+ *       appHandle.log(4, `Disabled user ${context.user.id} rejected`);
+ *       throw new IOServerError('Account disabled', 403);
+ *     }
+ *     context.metadata.tenant = context.headers['x-tenant'];
+ *   }
+ * }
  *
- *       try {
- *         // Validate token (pseudo-code)
- *         const user = validateJWT(token);
- *         req.user = user;
- *         done();
- *       } catch (error) {
- *         appHandle.log(4, `Authentication failed: ${error}`);
- *         return reply.status(401).send({
- *           statusCode: 401,
- *           error: 'Unauthorized',
- *           message: 'Invalid token'
- *         });
- *       }
- *     };
+ * class ScopeMiddleware extends BaseMiddleware {
+ *   constructor(appHandle: AppHandle, private readonly scopes: string[]) {
+ *     super(appHandle);
+ *   }
+ *
+ *   handle(context: MiddlewareContext) {
+ *     if (!this.scopes.every(scope => context.user?.scopes?.includes(scope))) {
+ *       throw new IOServerError('Missing scope', 403);
+ *     }
  *   }
  * }
  *
- * // For WebSocket middleware
- * class SocketAuthMiddleware extends BaseMiddleware {
- *   handle(appHandle: AppHandle) {
- *     return (socket: any, next: any) => {
- *       const token = socket.handshake.auth.token;
+ * server.addController({
+ *   name: 'admin',
+ *   controller: AdminController,
+ *   middlewares: [appHandle => new ScopeMiddleware(appHandle, ['admin'])],
+ * });
+ * ```
+ */
+export abstract class BaseMiddleware<
+  THandle extends AppHandleCore = AppHandle,
+> extends MiddlewareBase<THandle> {
+  /**
+   * Fastify lifecycle stage running the middleware on controller routes -
+   * defaults to 'preValidation'. Middlewares run after the built-in hooks of
+   * their stage and before the hooks declared by the route.
+   */
+  readonly stage?: MiddlewareStage;
+
+  /**
+   * Order among the middlewares of the same stage, or of the namespace on
+   * socket connections, lower running first - defaults to 0. Middlewares of
+   * equal priority run in registration order, global ones first.
+   */
+  readonly priority?: number;
+
+  /**
+   * Abstract method that must be implemented by middlewares
+   * Runs for each HTTP request and each socket connection it guards
+   * @abstract
+   * @param {MiddlewareContext} context - Normalized request or connection
+   * @param {THandle} appHandle - Handle of the guarded controller or service
+   * @throws {IOServerError} To reject the request or connection
+   */
+  abstract handle(
+    context: MiddlewareContext,
+    appHandle: THandle
+  ): Promise<void> | void;
+}
+
+/**
+ * Abstract base class for middlewares of HTTP routes only
  *
- *       if (!token) {
- *         return next(new Error('Authentication required'));
- *       }
+ * Receives the Fastify request and reply. Throwing rejects the request with
+ * the standard error payload; a middleware may also send the reply itself.
+ * Registering it on a service fails.
  *
- *       try {
- *         const user = validateJWT(token);
- *         socket.user = user;
- *         next();
- *       } catch (error) {
- *         appHandle.log(4, `Socket authentication failed: ${error}`);
- *         next(new Error('Invalid token'));
- *       }
- *     };
+ * @abstract
+ * @example
+ * ```typescript
+ * class NoCacheMiddleware extends HttpMiddleware {
+ *   readonly stage = 'onSend';
+ *
+ *   handle(request: FastifyRequest, reply: FastifyReply) {
+ *     reply.header('Cache-Control', 'no-store');
  *   }
  * }
  * ```
  */
-export abstract class BaseMiddleware {
+export abstract class HttpMiddleware<
+  THandle extends AppHandleCore = AppHandle,
+> extends MiddlewareBase<THandle> {
   /**
-   * Abstract method that must be implemented by middlewares
-   * Returns a middleware function for Fastify or Socket.IO
+   * Fastify lifecycle stage running the middleware on controller routes -
+   * defaults to 'preValidation'. Middlewares run after the built-in hooks of
+   * their stage and before the hooks declared by the route.
+   */
+  readonly stage?: MiddlewareStage;
+
+  /**
+   * Order among the middlewares of the same stage, lower running first -
+   * defaults to 0. Middlewares of equal priority run in registration order,
+   * global ones first.
+   */
+  readonly priority?: number;
+
+  /**
+   * Abstract method that must be implemented by HTTP middlewares
    * @abstract
-   * @param {AppHandle} appHandle - Application handle for shared functionality
-   * @returns {Function} Middleware function
+   * @param {FastifyRequest} request - Incoming request
+   * @param {FastifyReply} reply - Reply of the request
+   * @param {THandle} appHandle - Handle of the guarded controller
+   * @throws {IOServerError} To reject the request
    */
   abstract handle(
-    appHandle: AppHandle
-  ): (req: any, reply: any, done: any) => void;
+    request: FastifyRequest,
+    reply: FastifyReply,
+    appHandle: THandle
+  ): Promise<void> | void;
+}
+
+/**
+ * Abstract base class for middlewares of service connections only
+ *
+ * Receives the connecting socket, before its service connects. Throwing
+ * refuses the connection, the client receiving the standard error payload
+ * as `connect_error` data. Registering it on a controller fails.
+ *
+ * @abstract
+ * @example
+ * ```typescript
+ * class RoomLimitMiddleware extends SocketMiddleware {
+ *   handle(socket: Socket) {
+ *     if (socket.nsp.sockets.size >= 100) {
+ *       throw new IOServerError('Room is full', 503);
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export abstract class SocketMiddleware<
+  THandle extends AppHandleCore = AppHandle,
+> extends MiddlewareBase<THandle> {
+  /**
+   * Order among the middlewares of the namespace, lower running first -
+   * defaults to 0. Middlewares of equal priority run in registration order,
+   * global ones first.
+   */
+  readonly priority?: number;
+
+  /**
+   * Abstract method that must be implemented by socket middlewares
+   * @abstract
+   * @param {Socket} socket - Connecting socket
+   * @param {THandle} appHandle - Handle of the guarded service
+   * @throws {IOServerError} To refuse the connection
+   */
+  abstract handle(socket: Socket, appHandle: THandle): Promise<void> | void;
+}
+
+/**
+ * Abstract base class for middlewares running around service method calls
+ *
+ * Event middlewares are listed per service (`eventMiddlewares`) or per method
+ * (`methodMiddlewares`). `before` runs once the call passed authentication
+ * and rate limiting: it may normalize `context.data`, wrap `context.ack`, or
+ * throw to reject the call with the standard error payload. The payload is
+ * validated after every `before` hook, so normalized data is validated.
+ * `after` runs in reverse order once the call completed, with
+ * `context.error` set when it failed or its payload was invalid, for the
+ * middlewares whose `before` completed. Both hooks are optional.
+ *
+ * @abstract
+ * @example
+ * ```typescript
+ * class AuditMiddleware extends BaseEventMiddleware {
+ *   after(context: EventContext, appHandle: AppHandle) {
+ *     appHandle.log(5, `${context.method} called by ${context.socket.id}`);
+ *   }
+ * }
+ *
+ * server.addService({
+ *   name: 'chat',
+ *   service: ChatService,
+ *   eventMiddlewares: [AuditMiddleware],
+ *   methodMiddlewares: { sendMessage: [TrimMessageMiddleware] },
+ * });
+ * ```
+ */
+export abstract class BaseEventMiddleware<
+  THandle extends AppHandleCore = AppHandle,
+> extends MiddlewareBase<THandle> {
+  /**
+   * Runs before the method
+   * @param {EventContext} context - Call being handled
+   * @param {THandle} appHandle - Handle of the called service
+   */
+  before?(context: EventContext, appHandle: THandle): Promise<void> | void;
+
+  /**
+   * Runs after the method completed or failed
+   * @param {EventContext} context - Call being handled
+   * @param {THandle} appHandle - Handle of the called service
+   */
+  after?(context: EventContext, appHandle: THandle): Promise<void> | void;
 }
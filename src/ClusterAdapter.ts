@@ -0,0 +1,182 @@
+/**
+ * @fileoverview ClusterAdapter - Socket.IO adapter for Node's cluster module
+ *
+ * Lets several IOServer workers forked on the same machine share rooms,
+ * broadcasts and socket lookups. Workers exchange adapter messages over the
+ * cluster IPC channel, relayed by the primary process with
+ * `setupClusterPrimary()`.
+ *
+ * @author Ben Mz <0x42en@users.noreply.github.com>
+ * @version 2.1.1
+ * @since 2.2.0
+ */
+
+import cluster, { Worker } from 'cluster';
+import type { Namespace, ServerOptions } from 'socket.io';
+import {
+  ClusterAdapterOptions as HeartbeatOptions,
+  ClusterAdapterWithHeartbeat,
+  ClusterMessage,
+  ClusterResponse,
+  ServerId,
+} from 'socket.io-adapter';
+
+const MESSAGE_SOURCE = '_ioserver_cluster_adapter';
+
+/**
+ * Message exchanged between adapters of different instances
+ * @interface ClusterEnvelope
+ */
+export interface ClusterEnvelope {
+  source: typeof MESSAGE_SOURCE;
+  /** Namespace the message belongs to */
+  nsp: string;
+  /** Adapter message, or response to a request of another adapter */
+  kind: 'message' | 'response';
+  /** Adapter which issued the request (responses only) */
+  requesterUid?: ServerId;
+  payload: ClusterMessage | ClusterResponse;
+}
+
+/**
+ * Transport carrying adapter messages between instances
+ * @interface ClusterChannel
+ */
+export interface ClusterChannel {
+  /** Sends a message to every other instance */
+  send(message: ClusterEnvelope): void;
+  /** Listens for messages of other instances, returns an unsubscribe function */
+  subscribe(listener: (message: ClusterEnvelope) => void): () => void;
+}
+
+/**
+ * Configuration options for the cluster adapter
+ * @interface ClusterAdapterOptions
+ */
+export interface ClusterAdapterOptions extends HeartbeatOptions {
+  /** Transport between instances - defaults to the cluster IPC channel */
+  channel?: ClusterChannel;
+}
+
+function isEnvelope(message: unknown): message is ClusterEnvelope {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as Partial<ClusterEnvelope>).source === MESSAGE_SOURCE
+  );
+}
+
+/** Cluster IPC channel of a worker process, relayed by the primary */
+const processChannel: ClusterChannel = {
+  send(message) {
+    // Outside of a worker there is no other instance to reach
+    if (process.send) {
+      process.send(message);
+    }
+  },
+  subscribe(listener) {
+    const handler = (message: unknown) => {
+      if (isEnvelope(message)) {
+        listener(message);
+      }
+    };
+    process.on('message', handler);
+    return () => {
+      process.off('message', handler);
+    };
+  },
+};
+
+class NodeClusterAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly channel: ClusterChannel;
+  private readonly unsubscribe: () => void;
+
+  constructor(nsp: Namespace, options: ClusterAdapterOptions = {}) {
+    super(nsp, options);
+    this.channel = options.channel || processChannel;
+    this.unsubscribe = this.channel.subscribe(message =>
+      this.onEnvelope(message)
+    );
+  }
+
+  private onEnvelope(message: ClusterEnvelope): void {
+    if (message.nsp !== this.nsp.name) {
+      return;
+    }
+
+    if (message.kind === 'response') {
+      if (message.requesterUid === this.uid) {
+        this.onResponse(message.payload as ClusterResponse);
+      }
+    } else {
+      this.onMessage(message.payload as ClusterMessage);
+    }
+  }
+
+  protected doPublish(message: ClusterMessage): Promise<string> {
+    this.channel.send({
+      source: MESSAGE_SOURCE,
+      nsp: this.nsp.name,
+      kind: 'message',
+      payload: message,
+    });
+    // IPC messages are not persisted, there is no offset to recover from
+    return Promise.resolve('');
+  }
+
+  protected doPublishResponse(
+    requesterUid: ServerId,
+    response: ClusterResponse
+  ): Promise<void> {
+    this.channel.send({
+      source: MESSAGE_SOURCE,
+      nsp: this.nsp.name,
+      kind: 'response',
+      requesterUid,
+      payload: response,
+    });
+    return Promise.resolve();
+  }
+
+  close(): void {
+    super.close();
+    this.unsubscribe();
+  }
+}
+
+/**
+ * Creates a Socket.IO adapter sharing rooms and broadcasts between the
+ * workers of a cluster, to be passed as the `adapter` option of IOServer
+ * @param {ClusterAdapterOptions} options - Heartbeat settings and transport
+ * @returns Adapter constructor used by Socket.IO for each namespace
+ */
+export function createClusterAdapter(
+  options: ClusterAdapterOptions = {}
+): ServerOptions['adapter'] {
+  // Socket.IO instantiates the adapter with `new`: keep a regular function
+  return function (nsp: Namespace) {
+    return new NodeClusterAdapter(nsp, options);
+  };
+}
+
+/**
+ * Relays adapter messages between workers. Must be called in the primary
+ * process, before forking workers.
+ *
+ * Workers are forked with the advanced serialization so binary payloads
+ * survive the IPC channel.
+ */
+export function setupClusterPrimary(): void {
+  cluster.setupPrimary({ serialization: 'advanced' });
+  cluster.on('message', (sender: Worker, message: unknown) => {
+    if (!isEnvelope(message)) {
+      return;
+    }
+
+    Object.values(cluster.workers || {}).forEach(worker => {
+      if (worker && worker.id !== sender.id && worker.isConnected()) {
+        worker.send(message);
+      }
+    });
+  });
+}
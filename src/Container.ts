@@ -0,0 +1,479 @@
+/**
+ * @fileoverview Container - Dependency injection for IOServer components
+ *
+ * Providers are registered by token and resolved into the constructor of
+ * components declaring a static `inject` list. Singleton providers are
+ * created once per server; connection providers once per socket, in the
+ * scope created for each connection. Managers are provided by the registry
+ * starting them in dependency order.
+ *
+ * @author Ben Mz <0x42en@users.noreply.github.com>
+ * @version 2.1.1
+ * @since 2.2.0
+ */
+
+import type { Socket } from 'socket.io';
+import { IOServerError } from './IOServerError';
+
+/**
+ * Typed token for values without a class, e.g. configuration objects
+ * @class InjectionToken
+ */
+export class InjectionToken<T = unknown> {
+  /** Phantom field carrying the type of the injected value */
+  declare readonly __type?: T;
+
+  constructor(readonly description: string) {}
+
+  toString(): string {
+    return `InjectionToken(${this.description})`;
+  }
+}
+
+/**
+ * Class taking any constructor arguments, the container resolving them at
+ * run time from the static `inject` list
+ */
+export type Constructor<T = unknown> = new (...args: never[]) => T;
+
+/** Key a provider is registered under: a name, a token or a class */
+export type Token<T = unknown> =
+  string | symbol | InjectionToken<T> | (abstract new (...args: never[]) => T);
+
+/**
+ * Lifetime of provided instances: one per server, or one per socket
+ * connection
+ */
+export type Scope = 'singleton' | 'connection';
+
+/**
+ * Provides a value for a token: as is, by instantiating a class, or by
+ * calling a factory. Classes and factories receive the resolved `inject`
+ * tokens as arguments (classes default to their static `inject` list).
+ */
+export type Provider<T = unknown> =
+  | { useValue: T }
+  | {
+      useClass: Constructor<T>;
+      inject?: Token[];
+      scope?: Scope;
+    }
+  | {
+      useFactory: (...args: never[]) => T;
+      inject?: Token[];
+      scope?: Scope;
+    };
+
+/** Socket of the current connection, provided in connection scopes */
+export const SOCKET = new InjectionToken<Socket>('socket');
+
+/**
+ * Describes a token in error messages
+ * @param {Token} token - Token to describe
+ * @returns {string} Readable token name
+ */
+function tokenName(token: Token): string {
+  if (typeof token === 'function') {
+    return token.name || 'anonymous class';
+  }
+  if (typeof token === 'symbol') {
+    return token.description || token.toString();
+  }
+  return token instanceof InjectionToken ? token.description : token;
+}
+
+function getInjectList(target: object): Token[] {
+  const inject = (target as { inject?: unknown }).inject;
+  return Array.isArray(inject) ? inject : [];
+}
+
+/**
+ * Dependency injection container
+ *
+ * The server owns the root container; `createScope()` derives the container
+ * of a connection, which sees every provider of its parent.
+ *
+ * @class Container
+ */
+export class Container {
+  private readonly providers: Map<Token, Provider> = new Map();
+  private readonly instances: Map<Token, unknown> = new Map();
+
+  constructor(private readonly parent?: Container) {}
+
+  /**
+   * Registers a provider
+   * @param {Token} token - Token the provider is registered under
+   * @param {Provider} provider - Value, class or factory
+   * @throws {IOServerError} When the provider is invalid or already registered
+   */
+  provide<T>(token: Token<T>, provider: Provider<T>): void {
+    const kinds = ['useValue', 'useClass', 'useFactory'].filter(
+      kind => provider && kind in provider
+    );
+    if (kinds.length !== 1) {
+      throw new IOServerError(`Invalid provider for ${tokenName(token)}`, 500);
+    }
+    if (this.providers.has(token)) {
+      throw new IOServerError(
+        `Provider for ${tokenName(token)} already registered`,
+        409
+      );
+    }
+    this.providers.set(token, provider);
+  }
+
+  /**
+   * Removes the provider of a token and the instance it created
+   * @param {Token} token - Token the provider is registered under
+   * @returns {boolean} True when a provider was removed
+   */
+  remove(token: Token): boolean {
+    this.instances.delete(token);
+    return this.providers.delete(token);
+  }
+
+  /**
+   * Checks whether a token can be resolved from this container
+   * @param {Token} token - Token to look up
+   * @returns {boolean} True when a provider is registered
+   */
+  has(token: Token): boolean {
+    return this.lookup(token) !== undefined;
+  }
+
+  /**
+   * Resolves the value of a token
+   * @param {Token} token - Token to resolve
+   * @returns Value provided for the token
+   * @throws {IOServerError} When no provider exists, on circular
+   * dependencies, or when a connection provider is resolved outside of a
+   * connection
+   */
+  resolve<T>(token: Token<T>): T {
+    return this.resolveToken(token, []);
+  }
+
+  /**
+   * Instantiates a class with leading arguments followed by its static
+   * `inject` dependencies
+   * @param {Function} Class - Class to instantiate
+   * @param {unknown[]} args - Arguments passed before the dependencies
+   * @returns Instance of the class
+   */
+  instantiate<T>(Class: Constructor<T>, args: unknown[] = []): T {
+    const dependencies = getInjectList(Class).map(token =>
+      this.resolveToken(token, [Class])
+    );
+    return new Class(...([...args, ...dependencies] as never[]));
+  }
+
+  /**
+   * Ensures every static `inject` dependency of a class has a provider,
+   * without instantiating anything
+   * @param {Function} Class - Class to check
+   * @param {Token[]} provided - Tokens provided later, e.g. by the scope of a
+   * connection
+   * @throws {IOServerError} When a dependency has no provider
+   */
+  assertInjectable(Class: Constructor, provided: Token[] = []): void {
+    getInjectList(Class).forEach(token => {
+      if (!provided.includes(token) && !this.has(token)) {
+        throw this.missingProvider(token, [Class]);
+      }
+    });
+  }
+
+  /**
+   * Creates the container of a connection, caching its own connection
+   * instances and sharing the singletons of this container
+   * @returns {Container} Child container
+   */
+  createScope(): Container {
+    return new Container(this);
+  }
+
+  private lookup<T>(
+    token: Token<T>
+  ): { provider: Provider<T>; owner: Container } | undefined {
+    // Providers are registered with the type of their token
+    const provider = this.providers.get(token) as Provider<T> | undefined;
+    if (provider) {
+      return { provider, owner: this };
+    }
+    return this.parent?.lookup(token);
+  }
+
+  private missingProvider(token: Token, stack: Token[]): IOServerError {
+    const path = stack.map(tokenName).join(' -> ');
+    return new IOServerError(
+      `No provider for ${tokenName(token)}${path ? ` (required by ${path})` : ''}`,
+      500
+    );
+  }
+
+  private resolveToken<T>(token: Token<T>, stack: Token[]): T {
+    const found = this.lookup(token);
+    if (!found) {
+      throw this.missingProvider(token, stack);
+    }
+
+    const { provider, owner } = found;
+    if ('useValue' in provider) {
+      return provider.useValue;
+    }
+
+    // Singletons live in the container owning their provider, connection
+    // instances in the connection container
+    if (provider.scope !== 'connection') {
+      return owner.getInstance(token, provider, stack);
+    }
+    if (!this.parent) {
+      throw new IOServerError(
+        `${tokenName(token)} is connection-scoped and cannot be injected outside of a connection${stack.length > 0 ? ` (required by ${stack.map(tokenName).join(' -> ')})` : ''}`,
+        500
+      );
+    }
+    return this.getInstance(token, provider, stack);
+  }
+
+  private getInstance<T>(
+    token: Token<T>,
+    provider: Exclude<Provider<T>, { useValue: T }>,
+    stack: Token[]
+  ): T {
+    if (this.instances.has(token)) {
+      return this.instances.get(token) as T;
+    }
+    if (stack.includes(token)) {
+      throw new IOServerError(
+        `Circular dependency ${[...stack, token].map(tokenName).join(' -> ')}`,
+        500
+      );
+    }
+
+    const path = [...stack, token];
+    const resolveAll = (tokens: Token[]) =>
+      tokens.map(dependency => this.resolveToken(dependency, path)) as never[];
+    const instance =
+      'useClass' in provider
+        ? new provider.useClass(
+            ...resolveAll(provider.inject || getInjectList(provider.useClass))
+          )
+        : provider.useFactory(...resolveAll(provider.inject || []));
+    this.instances.set(token, instance);
+    return instance;
+  }
+}
+
+/** Lifecycle hooks of a manager */
+interface ManagerHooks {
+  start?(): Promise<void> | void;
+  stop?(): Promise<void> | void;
+}
+
+/**
+ * Managers of a server: provides them under their name and class, and
+ * starts them after the managers they depend on
+ * @class ManagerRegistry
+ */
+export class ManagerRegistry {
+  private readonly managers: Map<string, ManagerHooks> = new Map();
+  private readonly dependencies: Map<string, string[]> = new Map();
+  private readonly tokens: Map<Token, string> = new Map();
+  private readonly started: string[] = [];
+
+  constructor(
+    private readonly container: Container,
+    private readonly log: (
+      level: number,
+      text: string,
+      manager?: string
+    ) => void
+  ) {}
+
+  /**
+   * Provides a manager under its name, and under its class unless already
+   * provided. Managers it injects are started first.
+   * @param {string} name - Manager name
+   * @param {object} instance - Manager instance
+   * @param {Function} Class - Manager class
+   * @throws {IOServerError} When the name is already provided
+   */
+  add(name: string, instance: ManagerHooks, Class: Constructor): void {
+    this.container.provide(name, { useValue: instance });
+    this.tokens.set(name, name);
+    if (!this.container.has(Class)) {
+      this.container.provide(Class, { useValue: instance });
+      this.tokens.set(Class, name);
+    }
+    this.managers.set(name, instance);
+    this.dependencies.set(
+      name,
+      getInjectList(Class)
+        .map(token => this.tokens.get(token))
+        .filter((dependency): dependency is string => !!dependency)
+    );
+  }
+
+  /**
+   * Declares managers to start before a manager
+   * @param {string} name - Manager name
+   * @param {string[]} dependencies - Names of the managers it depends on
+   */
+  addDependencies(name: string, dependencies: string[]): void {
+    this.dependencies.set(name, [
+      ...new Set([...dependencies, ...(this.dependencies.get(name) || [])]),
+    ]);
+  }
+
+  /**
+   * Removes a manager from the container, then calls its stop() hook when
+   * it was started
+   * @param {string} name - Manager name
+   * @returns {Promise<void>} Promise that resolves once the manager stopped
+   * @throws {IOServerError} Right away when other managers depend on it,
+   * then when its stop() hook fails
+   */
+  remove(name: string): Promise<void> {
+    const dependents = Array.from(this.dependencies.entries())
+      .filter(([, dependencies]) => dependencies.includes(name))
+      .map(([dependent]) => dependent);
+    if (dependents.length > 0) {
+      throw new IOServerError(
+        `Manager ${name} is required by ${dependents.join(', ')}`,
+        409
+      );
+    }
+
+    const manager = this.managers.get(name);
+    this.managers.delete(name);
+    this.dependencies.delete(name);
+    this.tokens.forEach((managerName, token) => {
+      if (managerName === name) {
+        this.tokens.delete(token);
+        this.container.remove(token);
+      }
+    });
+
+    const started = this.started.indexOf(name);
+    if (started === -1) {
+      return Promise.resolve();
+    }
+    this.started.splice(started, 1);
+    if (typeof manager?.stop !== 'function') {
+      return Promise.resolve();
+    }
+    return this.stopManager(name, manager).catch(error => {
+      throw new IOServerError(`Error stopping ${name} manager: ${error}`, 500);
+    });
+  }
+
+  /**
+   * Awaits the start() hook of every manager, dependencies first. When one
+   * fails, managers already started are stopped.
+   * @returns {Promise<void>} Promise that resolves once every manager started
+   * @throws {IOServerError} On unknown or circular dependencies, or when a
+   * manager fails to start
+   */
+  async start(): Promise<void> {
+    for (const name of this.resolveOrder()) {
+      const manager = this.managers.get(name);
+      try {
+        if (typeof manager?.start === 'function') {
+          this.log(6, `[*] Starting manager ${name}`, name);
+          await manager.start();
+        }
+        this.started.push(name);
+      } catch (error) {
+        this.log(3, `[!] Error starting ${name} manager: ${error}`, name);
+        await this.stop().catch(stopError => {
+          this.log(3, `[!] ${stopError}`);
+        });
+        throw new IOServerError(
+          `Unable to start ${name} manager: ${error}`,
+          500
+        );
+      }
+    }
+    this.log(6, '[*] All managers started');
+  }
+
+  /**
+   * Calls the stop() hook of every started manager, in reverse start order
+   * @returns {Promise<void>} Promise that resolves once every manager stopped
+   * @throws {IOServerError} When a manager fails to stop
+   */
+  async stop(): Promise<void> {
+    const errors: string[] = [];
+
+    while (this.started.length > 0) {
+      const name = this.started.pop() as string;
+      const manager = this.managers.get(name);
+      if (typeof manager?.stop !== 'function') {
+        continue;
+      }
+
+      try {
+        await this.stopManager(name, manager);
+      } catch (error) {
+        this.log(3, `[!] Error stopping ${name} manager: ${error}`, name);
+        errors.push(`${name}: ${error}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new IOServerError(
+        `Error stopping managers: ${errors.join(', ')}`,
+        500
+      );
+    }
+    this.log(6, '[*] All managers stopped');
+  }
+
+  private async stopManager(
+    name: string,
+    manager: ManagerHooks
+  ): Promise<void> {
+    this.log(6, `[*] Stopping manager ${name}`, name);
+    await manager.stop?.();
+  }
+
+  /**
+   * Orders managers so that each one comes after its dependencies
+   * @private
+   * @throws {IOServerError} On unknown or circular dependencies
+   */
+  private resolveOrder(): string[] {
+    const order: string[] = [];
+    const visiting = new Set<string>();
+
+    const visit = (name: string, path: string[]) => {
+      if (order.includes(name)) {
+        return;
+      }
+      if (visiting.has(name)) {
+        throw new IOServerError(
+          `Circular manager dependency: ${[...path, name].join(' -> ')}`,
+          500
+        );
+      }
+      if (!this.managers.has(name)) {
+        throw new IOServerError(
+          `Manager ${path[path.length - 1]} depends on unknown manager ${name}`,
+          500
+        );
+      }
+
+      visiting.add(name);
+      (this.dependencies.get(name) || []).forEach(dependency =>
+        visit(dependency, [...path, name])
+      );
+      visiting.delete(name);
+      order.push(name);
+    };
+
+    this.managers.forEach((_manager, name) => visit(name, []));
+    return order;
+  }
+}
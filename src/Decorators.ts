@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Decorators for IOServer components
+ *
+ * Decorators are an optional alternative to the static declarations read by
+ * IOServer at registration time; they only fill those static lists.
+ * They rely on TypeScript `experimentalDecorators`.
+ *
+ * @author Ben Mz <0x42en@users.noreply.github.com>
+ * @version 2.1.1
+ * @since 2.2.0
+ */
+
+import type { HTTPMethods } from 'fastify';
+import type { ControllerRoute } from './IOServer';
+import type { WatcherSchedule } from './Scheduler';
+
+/**
+ * Returns the static list stored under `key` on a class, copying the list
+ * inherited from a parent class so that subclasses never mutate it
+ * @param {object} target - Class constructor
+ * @param {string} key - Static property name
+ * @returns {T[]} The class own list
+ */
+function ownStaticList<T>(target: object, key: string): T[] {
+  const statics = target as Record<string, T[]>;
+  if (!Object.prototype.hasOwnProperty.call(statics, key)) {
+    statics[key] = [...(statics[key] || [])];
+  }
+  return statics[key];
+}
+
+/**
+ * Exposes a service method as a Socket.IO event
+ *
+ * Equivalent to listing the method in the static `events` array of the
+ * service. Once a service declares events, only declared methods are bound.
+ *
+ * @returns {MethodDecorator} Method decorator
+ *
+ * @example
+ * ```typescript
+ * class ChatService extends BaseService {
+ *   @SocketEvent()
+ *   async login(socket: any, data: any, callback?: Function) {}
+ *
+ *   // Not callable by clients
+ *   async cleanup() {}
+ * }
+ * ```
+ */
+export function SocketEvent(): MethodDecorator {
+  return (target: object, propertyKey: string | symbol) => {
+    if (typeof target === 'function' || typeof propertyKey !== 'string') {
+      throw new TypeError('@SocketEvent() only applies to instance methods');
+    }
+
+    const events = ownStaticList<string>(target.constructor, 'events');
+    if (!events.includes(propertyKey)) {
+      events.push(propertyKey);
+    }
+  };
+}
+
+/** Route options accepted by route decorators */
+export type RouteDecoratorOptions = Omit<
+  ControllerRoute,
+  'method' | 'url' | 'handler'
+>;
+
+/**
+ * Declares a controller method as the handler of a route
+ *
+ * Equivalent to an entry of the static `routes` list of the controller.
+ *
+ * @param {HTTPMethods | HTTPMethods[]} method - HTTP method(s)
+ * @param {string} url - Route URL, relative to the controller prefix
+ * @param {RouteDecoratorOptions} options - Other route options (schema, auth...)
+ * @returns {MethodDecorator} Method decorator
+ *
+ * @example
+ * ```typescript
+ * class UserController extends BaseController {
+ *   @Get('/users/:id')
+ *   async getUser(request: FastifyRequest, reply: FastifyReply) {}
+ *
+ *   @Post('/users', { schema: { body: userSchema } })
+ *   async createUser(request: FastifyRequest, reply: FastifyReply) {}
+ * }
+ * ```
+ */
+export function Route(
+  method: HTTPMethods | HTTPMethods[],
+  url: string,
+  options: RouteDecoratorOptions = {}
+): MethodDecorator {
+  return (target: object, propertyKey: string | symbol) => {
+    if (typeof target === 'function' || typeof propertyKey !== 'string') {
+      throw new TypeError('Route decorators only apply to instance methods');
+    }
+
+    ownStaticList<ControllerRoute>(target.constructor, 'routes').push({
+      ...options,
+      method,
+      url,
+      handler: propertyKey,
+    });
+  };
+}
+
+/** Declares a GET route, see {@link Route} */
+export function Get(url: string, options?: RouteDecoratorOptions) {
+  return Route('GET', url, options);
+}
+
+/** Declares a POST route, see {@link Route} */
+export function Post(url: string, options?: RouteDecoratorOptions) {
+  return Route('POST', url, options);
+}
+
+/** Declares a PUT route, see {@link Route} */
+export function Put(url: string, options?: RouteDecoratorOptions) {
+  return Route('PUT', url, options);
+}
+
+/** Declares a PATCH route, see {@link Route} */
+export function Patch(url: string, options?: RouteDecoratorOptions) {
+  return Route('PATCH', url, options);
+}
+
+/** Declares a DELETE route, see {@link Route} */
+export function Delete(url: string, options?: RouteDecoratorOptions) {
+  return Route('DELETE', url, options);
+}
+
+/**
+ * Runs a watcher method as a scheduled job
+ *
+ * Equivalent to an entry of the static `schedules` list of the watcher.
+ *
+ * @param {Omit<WatcherSchedule, 'method'>} options - Cron expression or
+ * interval of the job, and its other options
+ * @returns {MethodDecorator} Method decorator
+ *
+ * @example
+ * ```typescript
+ * class CleanupWatcher extends BaseWatcher {
+ *   @Schedule({ cron: '0 3 * * *' })
+ *   async purgeSessions() {}
+ *
+ *   @Schedule({ interval: 60000, jitter: 5000, runOnStart: true })
+ *   async refreshCache() {}
+ * }
+ * ```
+ */
+export function Schedule(
+  options: Omit<WatcherSchedule, 'method'>
+): MethodDecorator {
+  return (target: object, propertyKey: string | symbol) => {
+    if (typeof target === 'function' || typeof propertyKey !== 'string') {
+      throw new TypeError('@Schedule() only applies to instance methods');
+    }
+
+    ownStaticList<WatcherSchedule>(target.constructor, 'schedules').push({
+      ...options,
+      method: propertyKey,
+    });
+  };
+}
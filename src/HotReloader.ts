@@ -0,0 +1,374 @@
+/**
+ * @fileoverview HotReloader - Development reloading of IOServer components
+ *
+ * Watches route files and component sources, batching the changes of a few
+ * milliseconds. Changed sources are dropped from the require cache together
+ * with the modules importing them, so that component classes can be loaded
+ * again and swapped in the running server.
+ *
+ * @author Ben Mz <0x42en@users.noreply.github.com>
+ * @version 2.1.1
+ * @since 2.2.0
+ */
+
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import * as path from 'path';
+
+/**
+ * Hot reload settings, for development only
+ * @interface HotReloadOptions
+ */
+export interface HotReloadOptions {
+  /**
+   * Component source files or directories to watch - defaults to none, only
+   * the routes directory is watched
+   */
+  paths?: string[];
+  /** Milliseconds changes are batched for - defaults to 100 */
+  debounce?: number;
+  /**
+   * Called once the server has stopped for a change that cannot be applied
+   * in place - defaults to exiting the process, for the process manager
+   * (nodemon, tsx watch, …) to start it again
+   */
+  onRestart?: (reason: string) => Promise<void> | void;
+}
+
+/** Class of a component */
+type ComponentClass = abstract new (...args: never[]) => unknown;
+
+const nodeRequire = createRequire(__filename);
+
+/** Classes whose module failed to load, retried on the next change */
+const pending = new Map<ComponentClass, { file: string; key?: string }>();
+
+/**
+ * Watches files, reporting changed files in batches
+ * @class HotReloader
+ */
+export class HotReloader {
+  private readonly watchers: Map<string, fs.FSWatcher> = new Map();
+  private readonly changed: Set<string> = new Set();
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly paths: string[],
+    private readonly debounce: number,
+    private readonly onChange: (files: string[]) => void
+  ) {}
+
+  /**
+   * Starts watching, ignoring paths that do not exist
+   */
+  start(): void {
+    this.unique(this.paths.map(target => path.resolve(target))).forEach(
+      target => {
+        if (!fs.existsSync(target)) {
+          return;
+        }
+        if (fs.statSync(target).isDirectory()) {
+          this.watchDirectory(target);
+        } else {
+          this.watch(target, () => target);
+        }
+      }
+    );
+  }
+
+  /**
+   * Stops watching and drops pending changes
+   */
+  close(): void {
+    global.clearTimeout(this.timer);
+    this.changed.clear();
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+  }
+
+  /**
+   * Watches a directory and its subdirectories with one watcher each, as
+   * recursive watching is not available on Linux before Node 20.
+   * Subdirectories created later are watched once they appear.
+   * @private
+   */
+  private watchDirectory(directory: string): void {
+    if (this.watchers.has(directory)) {
+      return;
+    }
+    this.watch(directory, filename => {
+      if (!filename) {
+        return directory;
+      }
+      const file = path.join(directory, filename);
+      if (this.isDirectory(file)) {
+        this.watchDirectory(file);
+      } else {
+        // A removed subdirectory is watched again if it is created again
+        this.watchers.get(file)?.close();
+        this.watchers.delete(file);
+      }
+      return file;
+    });
+    fs.readdirSync(directory, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .forEach(entry => this.watchDirectory(path.join(directory, entry.name)));
+  }
+
+  /**
+   * Watches a file or a directory, recording the changed path the resolver
+   * returns for each event
+   * @private
+   */
+  private watch(
+    target: string,
+    resolve: (filename: string | undefined) => string
+  ): void {
+    const watcher = fs.watch(target, (_event, filename) => {
+      this.changed.add(resolve(filename ? filename.toString() : undefined));
+      global.clearTimeout(this.timer);
+      this.timer = global.setTimeout(() => this.flush(), this.debounce);
+    });
+    // Removing a watched directory may fail its watcher
+    watcher.on('error', () => {
+      watcher.close();
+      if (this.watchers.get(target) === watcher) {
+        this.watchers.delete(target);
+      }
+    });
+    this.watchers.set(target, watcher);
+  }
+
+  private isDirectory(file: string): boolean {
+    try {
+      return fs.statSync(file).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  private flush(): void {
+    const files = Array.from(this.changed);
+    this.changed.clear();
+    this.onChange(files);
+  }
+
+  private unique<T>(array: T[]): T[] {
+    return [...new Set(array)];
+  }
+}
+
+/**
+ * Finds the loaded module exporting a class
+ * @private
+ */
+function findExport(
+  Class: ComponentClass
+): { file: string; key: string | undefined } | undefined {
+  for (const [file, module] of Object.entries(nodeRequire.cache)) {
+    // The entry module bootstraps the server, it is never loaded again
+    if (file === nodeRequire.main?.filename) {
+      continue;
+    }
+    const exports = module?.exports;
+    if (exports === Class) {
+      return { file, key: undefined };
+    }
+    if (exports && typeof exports === 'object') {
+      const key = Object.keys(exports).find(name => exports[name] === Class);
+      if (key !== undefined) {
+        return { file, key };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Maps every loaded module to the modules importing it
+ * @private
+ */
+function getParents(): Map<string, string[]> {
+  const parents = new Map<string, string[]>();
+  Object.entries(nodeRequire.cache).forEach(([file, module]) => {
+    (module?.children || []).forEach(child => {
+      parents.set(child.id, [...(parents.get(child.id) || []), file]);
+    });
+  });
+  return parents;
+}
+
+/**
+ * Lists a loaded module and the modules depending on it
+ * @private
+ */
+function findDependents(
+  file: string,
+  parents: Map<string, string[]>
+): Set<string> {
+  const dependents = new Set<string>();
+  const visit = (current: string) => {
+    if (dependents.has(current) || !nodeRequire.cache[current]) {
+      return;
+    }
+    dependents.add(current);
+    (parents.get(current) || []).forEach(visit);
+  };
+  visit(file);
+  return dependents;
+}
+
+/**
+ * Loads again the classes affected by changed source files
+ *
+ * Changed files and every module importing them are dropped from the
+ * require cache, then the modules exporting the given classes are required
+ * again. Files that are not loaded are ignored. Classes whose module fails
+ * to load are loaded again on the next call.
+ *
+ * @param {string[]} files - Changed source files
+ * @param {Function[]} classes - Classes currently in use
+ * @returns New class of each affected class (undefined when its module no
+ * longer exports it), and the changed files affecting none of the classes
+ */
+export function reloadClasses<C extends ComponentClass>(
+  files: string[],
+  classes: C[]
+): {
+  reloaded: Map<C, C | undefined>;
+  unhandled: string[];
+} {
+  const parents = getParents();
+  const owners = new Map<C, { file: string; key?: string }>();
+  classes.forEach(Class => {
+    const owner = findExport(Class);
+    if (owner) {
+      owners.set(Class, owner);
+    }
+  });
+
+  const stale = new Set<string>();
+  const affected = new Map<C, { file: string; key?: string }>();
+  classes.forEach(Class => {
+    const owner = pending.get(Class);
+    if (owner) {
+      affected.set(Class, owner);
+    }
+  });
+  pending.clear();
+  const unhandled: string[] = [];
+  files
+    .map(file => path.resolve(file))
+    .filter(file => nodeRequire.cache[file])
+    .forEach(file => {
+      const dependents = findDependents(file, parents);
+      let handled = false;
+      owners.forEach((owner, Class) => {
+        if (dependents.has(owner.file)) {
+          affected.set(Class, owner);
+          handled = true;
+        }
+      });
+      if (!handled) {
+        unhandled.push(file);
+      }
+      dependents.forEach(dependent => stale.add(dependent));
+    });
+  stale.forEach(file => delete nodeRequire.cache[file]);
+
+  const reloaded = new Map<C, C | undefined>();
+  try {
+    affected.forEach(({ file, key }, Class) => {
+      const exports = nodeRequire(file);
+      const NewClass = key === undefined ? exports : exports?.[key];
+      reloaded.set(
+        Class,
+        typeof NewClass === 'function' ? NewClass : undefined
+      );
+    });
+  } catch (error) {
+    affected.forEach((owner, Class) => pending.set(Class, owner));
+    throw error;
+  }
+  return { reloaded, unhandled };
+}
+
+/**
+ * Component of the running server, as seen by the reloader
+ * @interface ReloadableComponent
+ */
+export interface ReloadableComponent<C> {
+  /** Component type: service, controller, manager, watcher or middleware */
+  type: string;
+  /** Registered name of the component */
+  name: string;
+  /** Class in use */
+  Class: C;
+}
+
+/**
+ * Changes to apply to the running server
+ * @interface ReloadPlan
+ */
+export interface ReloadPlan<C> {
+  /** Why the server has to restart, when the changes cannot be applied */
+  restart?: string;
+  /** Whether a file of the routes directory changed */
+  routesChanged: boolean;
+  /** Services and controllers whose class changed, with the new class */
+  changed: (ReloadableComponent<C> & { NewClass: C })[];
+}
+
+/**
+ * Sorts out a batch of changed files: route files reload the controllers,
+ * service and controller sources swap their classes, any other change
+ * requires a restart
+ *
+ * @param {string[]} files - Changed files
+ * @param {string} routesPath - Routes directory
+ * @param {ReloadableComponent[]} components - Components of the server
+ * @returns {ReloadPlan} Changes to apply, or the reason to restart
+ * @throws When a changed source fails to load, until it is fixed
+ */
+export function planReload<C extends ComponentClass>(
+  files: string[],
+  routesPath: string,
+  components: ReloadableComponent<C>[]
+): ReloadPlan<C> {
+  const routesDir = path.resolve(routesPath);
+  const isRouteFile = (file: string) =>
+    file === routesDir || file.startsWith(routesDir + path.sep);
+  const routesChanged = files.some(isRouteFile);
+
+  const { reloaded, unhandled } = reloadClasses(
+    files.filter(file => !isRouteFile(file)),
+    components.map(({ Class }) => Class)
+  );
+  if (unhandled.length > 0) {
+    return {
+      restart: `${path.relative(process.cwd(), unhandled[0])} changed`,
+      routesChanged,
+      changed: [],
+    };
+  }
+
+  const changed: ReloadPlan<C>['changed'] = [];
+  for (const component of components) {
+    if (!reloaded.has(component.Class)) {
+      continue;
+    }
+    const NewClass = reloaded.get(component.Class);
+    if (
+      (component.type !== 'service' && component.type !== 'controller') ||
+      !NewClass
+    ) {
+      return {
+        restart: `${component.name} ${component.type} changed`,
+        routesChanged,
+        changed: [],
+      };
+    }
+    changed.push({ ...component, NewClass });
+  }
+  return { routesChanged, changed };
+}
@@ -9,25 +9,149 @@
  */
 
 import * as fs from 'fs';
+import type { IncomingHttpHeaders } from 'http';
+import { createRequire } from 'module';
 import * as path from 'path';
 import { setTimeout } from 'timers/promises';
 import fastify, {
+  FastifyBaseLogger,
   FastifyInstance,
   FastifyRequest,
   FastifyReply,
+  FastifySchema,
+  FastifySchemaCompiler,
+  HTTPMethods,
   RouteOptions,
+  RouteShorthandOptions,
 } from 'fastify';
-import { Server as SocketIOServer } from 'socket.io';
+import {
+  DefaultEventsMap,
+  Server as SocketIOServer,
+  ServerOptions,
+  Socket,
+} from 'socket.io';
+import AjvCompiler from '@fastify/ajv-compiler';
 import cors from '@fastify/cors';
 import sensible from '@fastify/sensible';
 import fastifyStatic from '@fastify/static';
 import { IOServerError } from './IOServerError';
+import { GracefulShutdown } from './Shutdown';
+import {
+  BaseEventMiddleware,
+  BaseMiddleware,
+  HttpMiddleware,
+  SocketMiddleware,
+} from './BaseClasses';
+import { generateClient } from './ClientGenerator';
+import {
+  AnyMiddleware,
+  createHttpMiddleware,
+  createMiddleware,
+  createSocketMiddleware,
+  sortMiddlewares,
+} from './MiddlewareAdapter';
+import { RouteDefinition, loadRoutes } from './RouteLoader';
+import {
+  OpenApiOptions,
+  generateOpenApi,
+  renderSwaggerUi,
+} from './OpenApiGenerator';
+import { AsyncApiOptions, generateAsyncApi } from './AsyncApiGenerator';
+import {
+  Container,
+  ManagerRegistry,
+  Provider,
+  SOCKET,
+  Scope,
+  Token,
+} from './Container';
+import {
+  HotReloadOptions,
+  HotReloader,
+  ReloadableComponent,
+  planReload,
+} from './HotReloader';
+import { Scheduler, WatcherJobStatus, WatcherSchedule } from './Scheduler';
+import { AuthOptions, AuthRequirement, AuthUser, Authenticator } from './Auth';
+import {
+  RateLimitOptions,
+  RateLimitRule,
+  RateLimiter,
+  checkRateLimitRule,
+} from './RateLimiter';
+
+/** Rate limit rule together with the counter scope it applies to */
+
+/** Fastify validator compiler, compiling service payload schemas */
+type PayloadCompiler = FastifySchemaCompiler<Record<string, unknown>>;
+
+/** Compiled validation function returned by a payload compiler */
+type PayloadValidator = ReturnType<PayloadCompiler>;
+
+/**
+ * Factory of @fastify/ajv-compiler, typed after the Fastify compiler it
+ * builds: its declarations describe the Ajv compile function instead
+ */
+type PayloadCompilerFactory = (
+  externalSchemas: Record<string, unknown>,
+  options: { customOptions: object; plugins: [] }
+) => PayloadCompiler;
+
+/**
+ * Registered controller: its options, the shape of its routes, the method
+ * names each route handler option currently calls and whether it is enabled
+ */
+type ControllerRegistration<TManagers extends object> = {
+  options: ControllerOptions<TManagers>;
+  signature: string;
+  bindings: Record<string, string>[];
+  middlewares: (
+    BaseMiddleware<AppHandleCore> | HttpMiddleware<AppHandleCore>
+  )[];
+  enabled: boolean;
+};
+
+/** Hook added to a controller route */
+type RouteHook = (request: FastifyRequest, reply: FastifyReply) => unknown;
+
+/** Socket.IO namespace middleware */
+type NamespaceMiddleware = (
+  socket: Socket,
+  next: (error?: Error) => void
+) => void | Promise<void>;
+
+/**
+ * Connection handling IOServer installed on the namespace of a mounted
+ * service
+ */
+type NamespaceMount = {
+  middlewares: NamespaceMiddleware[];
+  listener: (socket: Socket) => void;
+};
 
 // Extend Fastify instance to include Socket.IO
 declare module 'fastify' {
   interface FastifyInstance {
     io: SocketIOServer;
   }
+  interface FastifyRequest {
+    /** User authenticated by the configured auth strategies */
+    user?: AuthUser;
+    /** Values set by middlewares, see `MiddlewareContext.metadata` */
+    metadata?: Record<string, any>;
+    /** Log function of the controller, bound to the request id */
+    appLog?: LogFunction;
+  }
+  interface FastifySchema {
+    /** OpenAPI operation fields, see `generateOpenApi()` */
+    summary?: string;
+    description?: string;
+    tags?: string[];
+    operationId?: string;
+    deprecated?: boolean;
+    /** Leaves the route out of the OpenAPI document */
+    hide?: boolean;
+  }
 }
 
 /**
@@ -49,6 +173,11 @@ export interface IOServerOptions {
   cors?: any;
   /** Path to routes directory - defaults to './routes' */
   routes?: string;
+  /**
+   * Environment selecting route file overlays (`<name>.<env>.json`) - no
+   * overlay is applied by default
+   */
+  env?: string;
   /**
    * Absolute path to the directory containing static files to serve (e.g. a
    * built SPA). When provided and the directory exists, IOServer registers
@@ -64,56 +193,429 @@ export interface IOServerOptions {
    * Set to false to keep the standard 404 JSON response instead.
    */
   spaFallback?: boolean;
+  /**
+   * When true, services must declare the methods they expose (static
+   * `events` list or `@SocketEvent()` decorator) and registering a service
+   * without declaration fails. Defaults to false, where undeclared services
+   * expose every public method.
+   */
+  strictEvents?: boolean;
+  /** Graceful shutdown behaviour of stop() */
+  shutdown?: ShutdownOptions;
+  /**
+   * Pino-compatible logger instance shared by Fastify and IOServer. When
+   * provided, every log is emitted as a structured record through it (the
+   * logger level applies instead of `verbose`). Defaults to plain console
+   * output filtered by `verbose`.
+   */
+  logger?: FastifyBaseLogger;
+  /**
+   * Socket.IO adapter shared by every namespace (e.g. the built-in
+   * `createClusterAdapter()` or a Redis adapter). Rooms, broadcasts and
+   * `sendTo` then reach clients connected to other instances. Defaults to
+   * the in-memory adapter of a single process.
+   */
+  adapter?: ServerOptions['adapter'];
+  /**
+   * Authentication strategies enforced on controller routes and service
+   * namespaces. Authenticated users are exposed as `request.user` and
+   * `socket.data.user`. Defaults to no authentication.
+   */
+  auth?: AuthOptions;
+  /**
+   * Rate limiting store and global rule. Services, methods, controllers and
+   * routes declare their own rules with a `rateLimit` option or field.
+   */
+  rateLimit?: RateLimitOptions;
+  /**
+   * Publishes an OpenAPI document of the controller routes, and optionally a
+   * Swagger UI
+   */
+  openapi?: OpenApiOptions;
+  /** Publishes an AsyncAPI document of the services */
+  asyncapi?: AsyncApiOptions;
+  /**
+   * Development mode applying changes of route files and service or
+   * controller sources without closing the listening socket. Other changes
+   * restart the server. Ignored when env is 'production'.
+   */
+  hotReload?: boolean | HotReloadOptions;
+  /**
+   * Middlewares applying to every controller and service, before their own
+   * middlewares: BaseMiddleware guards routes and connections,
+   * HttpMiddleware routes only, SocketMiddleware connections only and
+   * BaseEventMiddleware every service call. They are instantiated when the
+   * first controller or service is registered.
+   */
+  middlewares?: MiddlewareEntry<AnyMiddleware>[];
+}
+
+/**
+ * Graceful shutdown configuration
+ * @interface ShutdownOptions
+ */
+export interface ShutdownOptions {
+  /** Maximum time (ms) to wait for in-flight service calls - defaults to 10000 */
+  timeout?: number;
+  /** Event emitted to every namespace when shutdown begins - defaults to 'server_shutdown' */
+  event?: string;
+  /**
+   * Stop the server and exit the process on these signals. `true` handles
+   * SIGINT and SIGTERM - defaults to false (no signal handling)
+   */
+  signals?: boolean | NodeJS.Signals[];
 }
 
 /**
  * Configuration options for registering a Service
  * @interface ServiceOptions
  */
-export interface ServiceOptions {
+export interface ServiceOptions<TManagers extends object = DynamicManagers> {
   /** Service namespace (optional, defaults to '/') */
   name?: string;
-  /** Service class constructor that extends BaseService */
-  service: new (appHandle: AppHandle) => any;
-  /** Array of middleware classes to apply to this service */
-  middlewares?: (new () => any)[];
+  /**
+   * Service class constructor that extends BaseService, followed by the
+   * dependencies listed in its static `inject`
+   */
+  service: new (
+    appHandle: ComponentHandle<TManagers>,
+    ...dependencies: never[]
+  ) => object;
+  /**
+   * 'connection' creates a service instance per socket, resolving its
+   * connection-scoped dependencies in the scope of that socket - defaults to
+   * 'singleton'
+   */
+  scope?: Scope;
+  /**
+   * Creates the session of each socket, stored in `socket.data.session`
+   * before the service is instantiated and its `onConnection` hook runs
+   */
+  session?: (socket: Socket) => unknown;
+  /**
+   * Middlewares guarding the connections of this service, extending
+   * BaseMiddleware or SocketMiddleware. They run after the global ones.
+   */
+  middlewares?: MiddlewareEntry<
+    BaseMiddleware<AppHandleCore> | SocketMiddleware<AppHandleCore>
+  >[];
+  /**
+   * Event middlewares running around every method call of this service,
+   * after the global ones, see BaseEventMiddleware
+   */
+  eventMiddlewares?: MiddlewareEntry<BaseEventMiddleware<AppHandleCore>>[];
+  /** Per-method event middlewares, running after the service ones */
+  methodMiddlewares?: Record<
+    string,
+    MiddlewareEntry<BaseEventMiddleware<AppHandleCore>>[]
+  >;
+  /** JSON Schemas validating incoming payloads, keyed by method name */
+  schemas?: Record<string, ServiceMethodSchema>;
+  /** Override the server-wide strictEvents setting for this service */
+  strictEvents?: boolean;
+  /**
+   * Authentication requirement or access rule of this service - defaults to
+   * auth.required
+   */
+  auth?: AuthRequirement;
+  /** Per-method requirement or access rule, overriding the service one */
+  methodAuth?: Record<string, AuthRequirement>;
+  /**
+   * Rate limit shared by every method of this service, or false to opt out
+   * of the global one
+   */
+  rateLimit?: RateLimitRule | false;
+  /** Per-method rate limits, or false to opt a method out of every limit */
+  methodRateLimit?: Record<string, RateLimitRule | false>;
+  /**
+   * JSON Schemas of the events sent to clients of this service with
+   * `sendTo()`, keyed by event name (documentation only)
+   */
+  emits?: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Socket of a service keeping a typed session, see `ServiceOptions.session`
+ *
+ * @example
+ * ```typescript
+ * async join(socket: SessionSocket<{ rooms: Set<string> }>, data: any) {
+ *   socket.data.session.rooms.add(data.room);
+ * }
+ * ```
+ */
+export type SessionSocket<TSession = unknown> = Socket<
+  DefaultEventsMap,
+  DefaultEventsMap,
+  DefaultEventsMap,
+  { user?: AuthUser; session: TSession; metadata?: Record<string, any> }
+>;
+
+/**
+ * Call of a service method, shared by the event middlewares around it
+ * @interface EventContext
+ */
+export interface EventContext {
+  /** Service name */
+  service: string;
+  /** Called method */
+  method: string;
+  /** Socket sending the event */
+  socket: SessionSocket;
+  /** Payload passed to the method, middlewares may replace it */
+  data: any;
+  /** Acknowledgement callback, middlewares may wrap it */
+  ack?: (response: any) => void;
+  /** Error of the call, set before the after hooks run */
+  error?: unknown;
+}
+
+/**
+ * HTTP request or socket connection, as seen by transport-agnostic
+ * middlewares
+ * @interface MiddlewareContext
+ */
+export interface MiddlewareContext {
+  /** Transport of the request or connection */
+  transport: 'http' | 'socket';
+  /** Controller or service the middleware guards */
+  component: string;
+  /** User authenticated by the configured auth strategies */
+  user?: AuthUser;
+  /** HTTP request or Socket.IO handshake headers */
+  headers: IncomingHttpHeaders;
+  /** Query string parameters */
+  query: Record<string, unknown>;
+  /** Client IP address */
+  ip?: string;
+  /**
+   * Values shared with the next middlewares and the handlers, exposed as
+   * `request.metadata` or `socket.data.metadata`
+   */
+  metadata: Record<string, any>;
+  /** Fastify request (HTTP only) */
+  request?: FastifyRequest;
+  /** Connecting socket (socket only) */
+  socket?: Socket;
+}
+
+/**
+ * Middleware registration: a class instantiated with the application handle
+ * followed by the dependencies listed in its static `inject`, a factory
+ * called with the application handle, or an instance. Each entry is
+ * instantiated once and its instance reused by every route, namespace or
+ * call it applies to.
+ */
+export type MiddlewareEntry<T extends object> =
+  | (new (appHandle: never, ...dependencies: never[]) => T)
+  | ((appHandle: AppHandle<any>) => T)
+  | T;
+
+/** Fastify lifecycle stages HTTP middlewares may run at */
+export type MiddlewareStage =
+  | 'onRequest'
+  | 'preParsing'
+  | 'preValidation'
+  | 'preHandler'
+  | 'preSerialization'
+  | 'onSend'
+  | 'onResponse';
+
+/** Names of the methods of a controller class */
+export type ControllerMethod<C> = {
+  [K in keyof C]: C[K] extends (...args: never[]) => unknown ? K : never;
+}[keyof C] &
+  string;
+
+/**
+ * Route definition, read from a JSON route file or declared on the
+ * controller (static `routes` list or route decorators). Handler and hook
+ * names refer to controller methods; other Fastify route options are passed
+ * through.
+ * @interface ControllerRoute
+ */
+export interface ControllerRoute<C = any> extends PassThroughRouteOptions {
+  /** HTTP method(s) */
+  method: HTTPMethods | HTTPMethods[];
+  /** Route URL, relative to the controller prefix */
+  url: string;
+  /** Controller method handling the request */
+  handler: ControllerMethod<C>;
+  /** Fastify validation and serialization schema */
+  schema?: FastifySchema;
+  /** Authentication requirement or access rule of this route */
+  auth?: AuthRequirement;
+  /** Rate limit of this route, or false to opt out of every limit */
+  rateLimit?: RateLimitRule | false;
+  /**
+   * Hooks of the route: a controller method or a list of them, running
+   * after the middlewares of the same stage
+   */
+  onRequest?: ControllerMethod<C> | ControllerMethod<C>[];
+  preParsing?: ControllerMethod<C> | ControllerMethod<C>[];
+  preValidation?: ControllerMethod<C> | ControllerMethod<C>[];
+  preHandler?: ControllerMethod<C> | ControllerMethod<C>[];
+  preSerialization?: ControllerMethod<C> | ControllerMethod<C>[];
+  onSend?: ControllerMethod<C> | ControllerMethod<C>[];
+  onResponse?: ControllerMethod<C> | ControllerMethod<C>[];
+  errorHandler?: ControllerMethod<C>;
+}
+
+/** Fastify route options that controller routes pass through as is */
+type PassThroughRouteOptions = Omit<
+  RouteShorthandOptions,
+  'schema' | 'errorHandler' | MiddlewareStage
+>;
+
+/**
+ * JSON Schema declarations for a single service method
+ * @interface ServiceMethodSchema
+ */
+export interface ServiceMethodSchema {
+  /** JSON Schema the event payload must match before the method is called */
+  data?: Record<string, unknown>;
+  /** JSON Schema describing the acknowledgement (documentation only) */
+  ack?: Record<string, unknown>;
+}
+
+/**
+ * Contract of a registered service, as exposed to clients
+ * @interface ServiceContract
+ */
+export interface ServiceContract {
+  /** Service name as registered */
+  name: string;
+  /** Socket.IO namespace serving the service */
+  namespace: string;
+  /** Methods callable as events on the namespace */
+  methods: ServiceMethodContract[];
+  /** Events sent by the server on the namespace */
+  emits: ServiceEventContract[];
+}
+
+/**
+ * Contract of an event sent by the server
+ * @interface ServiceEventContract
+ */
+export interface ServiceEventContract {
+  /** Event name */
+  name: string;
+  /** JSON Schema of the event payload, when declared */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Contract of a single service method
+ * @interface ServiceMethodContract
+ */
+export interface ServiceMethodContract {
+  /** Event name (the method name) */
+  name: string;
+  /** JSON Schema of the event payload, when declared */
+  data?: Record<string, unknown>;
+  /** JSON Schema of the acknowledgement, when declared */
+  ack?: Record<string, unknown>;
+}
+
+/**
+ * Contract of a registered controller route
+ * @interface RouteContract
+ */
+export interface RouteContract {
+  /** Controller name as registered */
+  controller: string;
+  /** Handler method name, when declared by name */
+  handler?: string;
+  /** HTTP methods of the route */
+  methods: string[];
+  /** Full URL, including the controller prefix */
+  url: string;
+  /** Fastify route schema, when declared */
+  schema?: Record<string, unknown>;
+  /** Authentication requirement or access rule of the route */
+  auth: AuthRequirement;
+  /** Whether a rate limit applies to the route */
+  rateLimited: boolean;
 }
 
 /**
  * Configuration options for registering a Controller
  * @interface ControllerOptions
  */
-export interface ControllerOptions {
+export interface ControllerOptions<TManagers extends object = DynamicManagers> {
   /** Controller name that matches the route file name */
   name: string;
-  /** Controller class constructor that extends BaseController */
-  controller: new (appHandle: AppHandle) => any;
-  /** Array of middleware classes to apply to this controller */
-  middlewares?: (new () => any)[];
+  /**
+   * Controller class constructor that extends BaseController, followed by
+   * the dependencies listed in its static `inject`
+   */
+  controller: (new (
+    appHandle: ComponentHandle<TManagers>,
+    ...dependencies: never[]
+  ) => object) & { routes?: ControllerRoute[] };
+  /**
+   * Middlewares guarding the routes of this controller, extending
+   * BaseMiddleware or HttpMiddleware. They run after the global ones.
+   */
+  middlewares?: MiddlewareEntry<
+    BaseMiddleware<AppHandleCore> | HttpMiddleware<AppHandleCore>
+  >[];
   /** URL prefix for all routes in this controller */
   prefix?: string;
+  /**
+   * Authentication requirement or access rule of the routes of this
+   * controller - defaults to auth.required. Routes override it with an
+   * `auth` field.
+   */
+  auth?: AuthRequirement;
+  /**
+   * Rate limit shared by the routes of this controller, or false to opt out
+   * of the global one. Routes override it with a `rateLimit` field.
+   */
+  rateLimit?: RateLimitRule | false;
 }
 
 /**
  * Configuration options for registering a Manager
  * @interface ManagerOptions
  */
-export interface ManagerOptions {
+export interface ManagerOptions<
+  TManagers extends object = DynamicManagers,
+  TName extends string = string,
+  TManager extends object = object,
+> {
   /** Manager name (used as property name in appHandle) */
-  name: string;
-  /** Manager class constructor that extends BaseManager */
-  manager: new (appHandle: AppHandle) => any;
+  name: TName;
+  /**
+   * Manager class constructor that extends BaseManager, given the managers
+   * registered before it and the dependencies listed in its static `inject`
+   */
+  manager: new (
+    appHandle: ComponentHandle<TManagers>,
+    ...dependencies: never[]
+  ) => TManager;
+  /**
+   * Names of managers that must be started before this one - managers
+   * injected in the constructor are added automatically
+   */
+  dependencies?: string[];
 }
 
 /**
  * Configuration options for registering a Watcher
  * @interface WatcherOptions
  */
-export interface WatcherOptions {
+export interface WatcherOptions<TManagers extends object = DynamicManagers> {
   /** Watcher name for identification */
   name: string;
-  /** Watcher class constructor that extends BaseWatcher */
-  watcher: new (appHandle: AppHandle) => any;
+  /**
+   * Watcher class constructor that extends BaseWatcher, followed by the
+   * dependencies listed in its static `inject`
+   */
+  watcher: (new (
+    appHandle: ComponentHandle<TManagers>,
+    ...dependencies: never[]
+  ) => object) & { schedules?: WatcherSchedule[] };
 }
 
 /**
@@ -126,7 +628,7 @@ export interface SendToOptions {
   /** Event name to emit */
   event: string;
   /** Data payload to send */
-  data: any;
+  data: unknown;
   /** Target specific room (optional) */
   room?: string;
   /** Target specific socket ID (optional) */
@@ -134,20 +636,110 @@ export interface SendToOptions {
 }
 
 /**
- * Application handle providing shared functionality across all components
- * @interface AppHandle
+ * Contextual fields attached to structured log records
+ * @interface LogContext
+ */
+export interface LogContext {
+  /** Type of the component emitting the record (service, controller, ...) */
+  componentType?: string;
+  /** Registered name of the component */
+  componentName?: string;
+  /** Socket.IO namespace */
+  namespace?: string;
+  /** Socket.IO socket identifier */
+  socketId?: string;
+  /** Fastify request identifier */
+  reqId?: string;
+  /** Any additional field */
+  [key: string]: unknown;
+}
+
+/**
+ * Level-based logging function with child-logger support
+ * @interface LogFunction
+ */
+export interface LogFunction {
+  /**
+   * Logs a message
+   * @param {number} level - Syslog level (0 EMERGENCY to 7 DEBUG)
+   * @param {string} text - Message
+   * @param {LogContext} context - Fields added to the record
+   */
+  (level: number, text: string, context?: LogContext): void;
+  /**
+   * Creates a log function adding the given fields to every record. Always
+   * provided by IOServer, optional so that plain functions can stand in
+   * for it, e.g. in tests
+   * @param {LogContext} context - Fields bound to the child
+   * @returns {LogFunction} Child log function
+   */
+  child?(context: LogContext): LogFunction;
+}
+
+/**
+ * Functionality shared by every application handle
+ * @interface AppHandleCore
  */
-export interface AppHandle {
+export interface AppHandleCore {
   /** Function to send real-time messages to clients */
   send: (options: SendToOptions) => boolean;
-  /** Logging function with level-based filtering */
-  log: (level: number, text: string) => void;
+  /** Logging function with level-based filtering and child contexts */
+  log: LogFunction;
   /** Current logging verbosity level */
   verbose: LogLevel;
-  /** Dynamic properties for registered managers */
-  [key: string]: any;
 }
 
+/** Untyped managers, by name */
+export type DynamicManagers = { [name: string]: any };
+
+/**
+ * Application handle providing shared functionality across all components,
+ * along with the registered managers by name
+ *
+ * Without type argument managers are untyped. Components typed with the
+ * managers of a server (see `AppHandleOf`) fail to compile when they access
+ * a manager the server does not register.
+ */
+export type AppHandle<TManagers extends object = DynamicManagers> =
+  AppHandleCore & TManagers;
+
+/**
+ * Handle given to the components of a server: servers with untyped
+ * managers accept components typed with any managers, as they cannot check
+ * them
+ */
+export type ComponentHandle<TManagers extends object> =
+  string extends keyof TManagers ? AppHandle<any> : AppHandle<TManagers>;
+
+/**
+ * Managers of a server once a manager is added, the first manager added
+ * to a server with untyped managers starting the typed ones
+ */
+export type WithManager<
+  TManagers extends object,
+  TName extends string,
+  TManager,
+> = (string extends keyof TManagers ? unknown : TManagers) & {
+  [name in TName]: TManager;
+};
+
+/** Component class, instantiated with the application handle */
+type ComponentClass = new (
+  appHandle: never,
+  ...dependencies: never[]
+) => object;
+
+/**
+ * Handle type of a server built with chained `addManager()` calls
+ * @example
+ * ```typescript
+ * const server = new IOServer().addManager({ name: 'stats', manager: StatsManager });
+ * class StatsWatcher extends BaseWatcher<AppHandleOf<typeof server>> {}
+ * ```
+ */
+export type AppHandleOf<TServer> =
+  TServer extends IOServer<infer TManagers> ? AppHandle<TManagers> : never;
+
 /**
  * Log levels for controlling verbosity of output
  */
@@ -185,7 +777,7 @@ export type TransportMode = 'websocket' | 'polling';
  * await server.start();
  * ```
  */
-export class IOServer {
+export class IOServer<TManagers extends object = DynamicManagers> {
   private static readonly VERSION = '2.1.1';
   private static readonly DEFAULT_PORT = 8080;
   private static readonly DEFAULT_HOST = 'localhost';
@@ -199,28 +791,156 @@ export class IOServer {
     'INFORMATION',
     'DEBUG',
   ];
+  private static readonly LOGGER_METHODS: (keyof FastifyBaseLogger)[] = [
+    'fatal', // EMERGENCY
+    'fatal', // ALERT
+    'fatal', // CRITICAL
+    'error', // ERROR
+    'warn', // WARNING
+    'info', // NOTIFICATION
+    'debug', // INFORMATION
+    'trace', // DEBUG
+  ];
   private static readonly TRANSPORTS: TransportMode[] = [
     'websocket',
     'polling',
   ];
   private static readonly RESERVED_NAMES = ['send', 'log', 'verbose'];
+  private static readonly RESERVED_EVENTS = [
+    'connect',
+    'connect_error',
+    'disconnect',
+    'disconnecting',
+    'newListener',
+    'removeListener',
+  ];
+  private static readonly RESERVED_METHODS = [
+    ...IOServer.RESERVED_EVENTS,
+    'error',
+  ];
+  private static readonly SERVICE_HOOKS = [
+    'onConnection',
+    'onDisconnect',
+    'onError',
+  ];
+  private static readonly DEFAULT_SHUTDOWN_TIMEOUT = 10000;
+  private static readonly DEFAULT_SHUTDOWN_EVENT = 'server_shutdown';
+  private static readonly SHUTDOWN_FLUSH_DELAY = 50;
+  private static readonly SWAGGER_UI_ASSETS: Record<string, string> = {
+    'swagger-ui.css': 'text/css',
+    'swagger-ui-bundle.js': 'application/javascript',
+    'swagger-ui-standalone-preset.js': 'application/javascript',
+    'favicon-32x32.png': 'image/png',
+  };
+  private static readonly ROUTE_HANDLER_OPTIONS: (keyof ControllerRoute)[] = [
+    'onRequest',
+    'preParsing',
+    'preValidation',
+    'preHandler',
+    'preSerialization',
+    'onSend',
+    'onResponse',
+    'handler',
+    'errorHandler',
+  ];
+  private static readonly MIDDLEWARE_STAGES: MiddlewareStage[] = [
+    'onRequest',
+    'preParsing',
+    'preValidation',
+    'preHandler',
+    'preSerialization',
+    'onSend',
+    'onResponse',
+  ];
 
   private readonly host: string;
   private readonly port: number;
   private readonly verbose: LogLevel;
+  private readonly logger: FastifyBaseLogger | undefined;
+  private readonly adapter: ServerOptions['adapter'] | undefined;
+  private readonly authenticator: Authenticator;
+  private readonly rateLimiter: RateLimiter;
   private readonly routesPath: string;
+  private readonly env: string | undefined;
   private readonly rootDir: string | undefined;
   private readonly spaFallback: boolean;
+  private readonly openApiOptions: OpenApiOptions;
+  private readonly asyncApiOptions: AsyncApiOptions;
+  private readonly strictEvents: boolean;
+  private readonly middlewareEntries: MiddlewareEntry<AnyMiddleware>[];
+  private globalMiddlewares?: AnyMiddleware[];
+  private readonly shutdownTimeout: number;
+  private readonly shutdownEvent: string;
+  private readonly shutdownSignals: NodeJS.Signals[];
+  private readonly gracefulShutdown: GracefulShutdown;
   private readonly webapp: FastifyInstance;
   private socketio!: SocketIOServer;
   private readonly appHandle: AppHandle;
+  private readonly container: Container = new Container();
+  private readonly managers: ManagerRegistry = new ManagerRegistry(
+    this.container,
+    (level, text, name) =>
+      this.log(
+        level,
+        text,
+        name ? { componentType: 'manager', componentName: name } : {}
+      )
+  );
+  private readonly scheduler: Scheduler = new Scheduler((level, text, name) =>
+    this.log(level, text, { componentType: 'watcher', componentName: name })
+  );
 
   private readonly serviceLists: Map<string, any> = new Map();
   private readonly managerLists: Map<string, any> = new Map();
   private readonly methodLists: Map<string, string[]> = new Map();
   private readonly watcherLists: Map<string, any> = new Map();
   private readonly controllerLists: Map<string, any> = new Map();
-  private readonly middlewareLists: Map<string, any[]> = new Map();
+  private readonly middlewareLists: Map<
+    string,
+    (BaseMiddleware<AppHandleCore> | SocketMiddleware<AppHandleCore>)[]
+  > = new Map();
+  private readonly namespaceMounts: Map<string, NamespaceMount> = new Map();
+  private readonly guardedNamespaces: Set<string> = new Set();
+  private readonly schemaLists: Map<
+    string,
+    Record<string, ServiceMethodSchema>
+  > = new Map();
+  private readonly emitLists: Map<
+    string,
+    Record<string, Record<string, unknown>>
+  > = new Map();
+  private readonly validatorLists: Map<string, Map<string, PayloadValidator>> =
+    new Map();
+  private readonly routeContracts: RouteContract[] = [];
+  private readonly connectionServices: Map<string, ComponentClass> = new Map();
+  private readonly connectionInstances: WeakMap<Socket, object> = new WeakMap();
+  private readonly connectionsReady: WeakMap<object, Promise<boolean>> =
+    new WeakMap();
+  private readonly serviceOptions: Map<string, ServiceOptions<TManagers>> =
+    new Map();
+  private readonly eventMiddlewareLists: Map<
+    string,
+    {
+      handle: AppHandle;
+      service: BaseEventMiddleware<AppHandleCore>[];
+      methods: Record<string, BaseEventMiddleware<AppHandleCore>[]>;
+    }
+  > = new Map();
+  private readonly controllerRegistrations: Map<
+    string,
+    ControllerRegistration<TManagers>
+  > = new Map();
+  private readonly socketListeners: WeakMap<
+    Socket,
+    Map<string, ReturnType<IOServer['handleCallback']>>
+  > = new WeakMap();
+  private readonly sessionLists: Map<string, (socket: Socket) => unknown> =
+    new Map();
+  /** In-flight service calls and hooks, with the service they belong to */
+  private readonly hotReloadOptions: HotReloadOptions | undefined;
+  private hotReloader?: HotReloader;
+  private shuttingDown: boolean = false;
+  private stopping?: Promise<void>;
 
   /**
    * Creates a new IOServer instance
@@ -230,12 +950,20 @@ export class IOServer {
     this.host = options.host || IOServer.DEFAULT_HOST;
     this.port = this.validatePort(options.port || IOServer.DEFAULT_PORT);
     this.verbose = this.validateLogLevel(options.verbose || 'ERROR');
+    this.logger = options.logger;
+    this.adapter = options.adapter;
+    this.authenticator = new Authenticator(
+      options.auth,
+      (level, text, context) => this.log(level, text, context)
+    );
+    this.rateLimiter = new RateLimiter(options.rateLimit);
 
     const defaultRoutes = path.join(process.cwd(), 'routes');
     this.routesPath =
       options.routes && fs.existsSync(options.routes)
         ? options.routes
         : defaultRoutes;
+    this.env = options.env;
 
     // Static files directory — silently disabled when the path does not exist
     if (options.rootDir) {
@@ -253,6 +981,32 @@ export class IOServer {
     }
     // spaFallback defaults to true whenever rootDir is active
     this.spaFallback = options.spaFallback !== false;
+    this.strictEvents = Boolean(options.strictEvents);
+    this.middlewareEntries = options.middlewares || [];
+
+    if (
+      options.hotReload &&
+      (this.env ?? process.env.NODE_ENV) === 'production'
+    ) {
+      this.log(4, '[!] Hot reload is disabled in production');
+    } else if (options.hotReload) {
+      this.hotReloadOptions =
+        options.hotReload === true ? {} : options.hotReload;
+    }
+
+    const shutdown = options.shutdown || {};
+    this.shutdownTimeout =
+      shutdown.timeout ?? IOServer.DEFAULT_SHUTDOWN_TIMEOUT;
+    this.shutdownEvent = shutdown.event || IOServer.DEFAULT_SHUTDOWN_EVENT;
+    if (shutdown.signals === true) {
+      this.shutdownSignals = ['SIGINT', 'SIGTERM'];
+    } else {
+      this.shutdownSignals = shutdown.signals || [];
+    }
+    this.gracefulShutdown = new GracefulShutdown(
+      this.shutdownTimeout,
+      (level, text) => this.log(level, text)
+    );
 
     const transportModes = this.processTransportModes(options.mode);
     const corsOptions = this.processCorsOptions(options.cors);
@@ -260,11 +1014,23 @@ export class IOServer {
 
     this.webapp = this.initializeFastify();
     this.setupPlugins(corsOptions, this.rootDir, this.spaFallback);
+    this.openApiOptions = options.openapi || {};
+    if (options.openapi) {
+      this.setupOpenApi(options.openapi);
+    }
+    this.asyncApiOptions = options.asyncapi || {};
+    if (options.asyncapi) {
+      const documentUrl = options.asyncapi.url || '/asyncapi.json';
+      this.webapp.get(documentUrl, (_request, reply) => {
+        reply.send(this.generateAsyncApi());
+      });
+      this.log(6, `[*] Serving AsyncAPI document at: ${documentUrl}`);
+    }
     this.setupSocketIO(transportModes, cookieEnabled, corsOptions);
 
     this.appHandle = {
       send: this.sendTo.bind(this),
-      log: this.log.bind(this),
+      log: this.createLogFunction({}),
       verbose: this.verbose,
     };
   }
@@ -322,7 +1088,10 @@ export class IOServer {
   private initializeFastify(): FastifyInstance {
     try {
       return fastify({
-        logger: this.verbose === 'DEBUG',
+        // Share the IOServer logger with Fastify when one is provided
+        ...(this.logger
+          ? { loggerInstance: this.logger }
+          : { logger: this.verbose === 'DEBUG' }),
         ignoreTrailingSlash: true,
         maxParamLength: 200,
         caseSensitive: true,
@@ -385,9 +1154,15 @@ export class IOServer {
               error: error.name,
               message: error.message,
             });
-          } else if (error.status) {
-            reply.status(error.status).send({
-              statusCode: error.status,
+          } else if (
+            (error.status || error.statusCode) >= 400 &&
+            (error.status || error.statusCode) < 600
+          ) {
+            // Fastify errors (e.g. schema validation, body too large) and
+            // http-errors style errors carry their status code
+            const statusCode = error.status || error.statusCode;
+            reply.status(statusCode).send({
+              statusCode,
               error: error.name || 'Error',
               message: error.message,
             });
@@ -405,6 +1180,62 @@ export class IOServer {
     }
   }
 
+  /**
+   * Serves the OpenAPI document and the Swagger UI. The document is generated
+   * on each request, so it lists controllers registered after construction.
+   * @private
+   */
+  private setupOpenApi(options: OpenApiOptions): void {
+    const documentUrl = options.url || '/openapi.json';
+    this.webapp.get(documentUrl, (_request, reply) => {
+      reply.send(this.generateOpenApi());
+    });
+    this.log(6, `[*] Serving OpenAPI document at: ${documentUrl}`);
+
+    if (!options.ui) {
+      return;
+    }
+    // Normalize to a leading slash and no trailing one: assets are served
+    // below the page, which therefore needs a path of its own
+    const uiUrl = `/${options.ui === true ? 'docs' : options.ui}`
+      .replace(/^\/+/, '/')
+      .replace(/\/+$/, '');
+    if (!uiUrl) {
+      throw new IOServerError(
+        'Swagger UI cannot be served at the root URL',
+        400
+      );
+    }
+    const assetsPath = path.dirname(
+      createRequire(__filename).resolve('swagger-ui-dist/package.json')
+    );
+    const page = renderSwaggerUi(
+      documentUrl,
+      uiUrl,
+      options.info?.title || 'IOServer API'
+    );
+
+    this.webapp.get(uiUrl, (_request, reply) => {
+      reply.type('text/html').send(page);
+    });
+    this.webapp.get<{ Params: { asset: string } }>(
+      `${uiUrl}/:asset`,
+      (request, reply) => {
+        const type = IOServer.SWAGGER_UI_ASSETS[request.params.asset];
+        if (!type) {
+          reply.callNotFound();
+          return;
+        }
+        reply
+          .type(type)
+          .send(
+            fs.createReadStream(path.join(assetsPath, request.params.asset))
+          );
+      }
+    );
+    this.log(6, `[*] Serving Swagger UI at: ${uiUrl}`);
+  }
+
   private setupSocketIO(
     transportModes: TransportMode[],
     cookieEnabled: boolean,
@@ -417,6 +1248,7 @@ export class IOServer {
           transports: transportModes as any[],
           cookie: cookieEnabled,
           cors: corsOptions,
+          ...(this.adapter ? { adapter: this.adapter } : {}),
         });
 
         // Add io property to webapp for compatibility
@@ -429,7 +1261,26 @@ export class IOServer {
     }
   }
 
-  public log(level: number, text: string): void {
+  /**
+   * Logs a message, as a structured record when a logger was provided or as
+   * plain console output filtered by the verbose level otherwise
+   * @param {number} level - Syslog level (0 EMERGENCY to 7 DEBUG)
+   * @param {string} text - Message
+   * @param {LogContext} context - Fields added to the structured record
+   */
+  public log(level: number, text: string, context: LogContext = {}): void {
+    if (this.logger) {
+      const method =
+        IOServer.LOGGER_METHODS[
+          Math.min(Math.max(level, 0), IOServer.LOGGER_METHODS.length - 1)
+        ];
+      (this.logger[method] as (obj: object, msg: string) => void)(
+        context,
+        text
+      );
+      return;
+    }
+
     const currentLevel = IOServer.LOG_LEVELS.indexOf(this.verbose);
 
     if (level <= currentLevel) {
@@ -441,6 +1292,28 @@ export class IOServer {
     }
   }
 
+  private createLogFunction(bindings: LogContext): LogFunction {
+    const log = ((level: number, text: string, context?: LogContext) =>
+      this.log(level, text, { ...bindings, ...context })) as LogFunction;
+    log.child = (context: LogContext) =>
+      this.createLogFunction({ ...bindings, ...context });
+    return log;
+  }
+
+  /**
+   * Creates the handle given to a component: it shares the application
+   * handle (managers included) but logs with the component context
+   * @private
+   */
+  private createComponentHandle(type: string, name: string): AppHandle {
+    const handle: AppHandle = Object.create(this.appHandle);
+    handle.log = this.createLogFunction({
+      componentType: type,
+      componentName: name,
+    });
+    return handle;
+  }
+
   private unique<T>(array: T[]): T[] {
     return [...new Set(array)];
   }
@@ -448,7 +1321,8 @@ export class IOServer {
   private registerInternalClass(
     type: string,
     name: string,
-    ClassConstructor: new (appHandle: AppHandle) => any
+    ClassConstructor: ComponentClass,
+    scope: Scope = 'singleton'
   ): void {
     if (!name) {
       throw new IOServerError('Name is mandatory', 400);
@@ -472,19 +1346,27 @@ export class IOServer {
     }
 
     try {
-      this.log(7, `[*] Register ${type} ${name}`);
-      const instance = new ClassConstructor(this.appHandle);
-      listMap.set(name, instance);
-      // Register managers immediatly
+      this.log(7, `[*] Register ${type} ${name}`, {
+        componentType: type,
+        componentName: name,
+      });
+      // Connection-scoped services are instantiated for each socket
+      if (scope === 'connection') {
+        this.container.assertInjectable(ClassConstructor, [SOCKET]);
+        this.connectionServices.set(name, ClassConstructor);
+        listMap.set(name, undefined);
+        return;
+      }
+
+      const instance = this.container.instantiate(ClassConstructor, [
+        this.createComponentHandle(type, name),
+      ]);
+      // Expose managers immediately, they are started by start()
       if (type === 'manager') {
+        this.managers.add(name, instance, ClassConstructor);
         this.appHandle[name] = instance;
-        // Auto-load async start method if it exists
-        if (typeof instance.start === 'function') {
-          instance.start().catch((error: any) => {
-            this.log(3, `[!] Error starting ${name} manager: ${error}`);
-          });
-        }
       }
+      listMap.set(name, instance);
     } catch (error) {
       throw new IOServerError(`Error instantiating ${type}: ${error}`, 500);
     }
@@ -514,9 +1396,7 @@ export class IOServer {
     }
   }
 
-  private dumpMethods(
-    ClassConstructor: new (appHandle: AppHandle) => any
-  ): string[] {
+  private dumpMethods(ClassConstructor: ComponentClass): string[] {
     const result: string[] = [];
     let prototype = ClassConstructor.prototype;
 
@@ -530,11 +1410,92 @@ export class IOServer {
   }
 
   /**
-   * Registers a watcher component for background tasks
+   * Resolves the methods of a service bound as Socket.IO events
+   *
+   * Services declaring events (static `events` list or `@SocketEvent()`)
+   * only expose those methods. Other services expose every public method,
+   * unless strict mode requires an explicit declaration.
+   *
+   * @private
+   * @param {string} name - The service name
+   * @param {Function} ServiceClass - The service class constructor
+   * @param {boolean} strict - Whether services must declare their events
+   * @returns {string[]} Sorted list of exposed method names
+   * @throws {IOServerError} When declared events are invalid or missing
+   */
+  private resolveServiceEvents(
+    name: string,
+    ServiceClass: ComponentClass,
+    strict: boolean
+  ): string[] {
+    const methods = this.dumpMethods(ServiceClass);
+    const declared = (ServiceClass as { events?: string[] }).events;
+    let events: string[];
+
+    if (declared && declared.length > 0) {
+      declared.forEach(event => {
+        if (IOServer.SERVICE_HOOKS.includes(event)) {
+          throw new IOServerError(
+            `Event ${event} of ${name} service is a lifecycle hook`,
+            400
+          );
+        }
+        if (
+          event === 'constructor' ||
+          !methods.includes(event) ||
+          typeof ServiceClass.prototype[event] !== 'function'
+        ) {
+          throw new IOServerError(
+            `Event ${event} of ${name} service is not a method`,
+            400
+          );
+        }
+      });
+      events = this.unique(declared).sort();
+    } else if (strict) {
+      throw new IOServerError(
+        `Service ${name} must declare its events in strict mode`,
+        400
+      );
+    } else {
+      // Skip private methods, constructor and lifecycle hooks
+      events = methods.filter(
+        method =>
+          !method.startsWith('_') &&
+          method !== 'constructor' &&
+          !IOServer.SERVICE_HOOKS.includes(method)
+      );
+    }
+
+    // Reserved events come from Socket.IO or IOServer, not from clients
+    const reserved = events.find(event =>
+      IOServer.RESERVED_METHODS.includes(event)
+    );
+    if (reserved) {
+      throw new IOServerError(
+        `Method ${reserved} of ${name} service uses a reserved event name`,
+        400
+      );
+    }
+    return events;
+  }
+
+  private getNamespaceName(serviceName: string): string {
+    return serviceName === '/' ? '/' : `/${serviceName}`;
+  }
+
+  private getServiceMethods(serviceName: string): string[] {
+    return this.methodLists.get(serviceName) || [];
+  }
+
+  /**
+   * Registers a watcher component for background tasks. Watchers added to
+   * a running server are started and their jobs scheduled right away.
    * @param {WatcherOptions} options - Watcher configuration options
+   * @returns {IOServer} This server, for chaining
    * @throws {IOServerError} When watcher instantiation fails
    */
-  public addWatcher(options: WatcherOptions): void {
+  public addWatcher(options: WatcherOptions<TManagers>): this {
     try {
       this.registerInternalClass('watcher', options.name, options.watcher);
     } catch (error) {
@@ -543,14 +1504,33 @@ export class IOServer {
         500
       );
     }
+
+    try {
+      this.scheduler.add(
+        options.name,
+        this.watcherLists.get(options.name),
+        options.watcher.schedules || []
+      );
+    } catch (error) {
+      this.watcherLists.delete(options.name);
+      throw error;
+    }
+    return this;
   }
 
   /**
    * Registers a manager component for shared functionality
+   *
+   * The returned server is typed with the added manager, so chaining calls
+   * accumulates the managers of the application handle.
+   *
    * @param {ManagerOptions} options - Manager configuration options
+   * @returns {IOServer} This server, typed with the added manager
    * @throws {IOServerError} When manager instantiation fails
    */
-  public addManager(options: ManagerOptions): void {
+  public addManager<TName extends string, TManager extends object>(
+    options: ManagerOptions<TManagers, TName, TManager>
+  ): IOServer<WithManager<TManagers, TName, TManager>> {
     try {
       this.registerInternalClass('manager', options.name, options.manager);
     } catch (error) {
@@ -559,18 +1539,27 @@ export class IOServer {
         500
       );
     }
+
+    this.managers.addDependencies(options.name, options.dependencies || []);
+    return this as IOServer<WithManager<TManagers, TName, TManager>>;
   }
 
   /**
    * Registers a service component for real-time WebSocket handling
    * @param {ServiceOptions} options - Service configuration options
+   * @returns {IOServer} This server, for chaining
    * @throws {IOServerError} When service instantiation fails
    */
-  public addService(options: ServiceOptions): void {
+  public addService(options: ServiceOptions<TManagers>): this {
     const name = options.name || '/';
 
     try {
-      this.registerInternalClass('service', name, options.service);
+      this.registerInternalClass(
+        'service',
+        name,
+        options.service,
+        options.scope
+      );
     } catch (error) {
       throw new IOServerError(
         `Error while instantiating ${name} service: ${error}`,
@@ -578,18 +1567,156 @@ export class IOServer {
       );
     }
 
-    this.methodLists.set(name, this.dumpMethods(options.service));
-    this.middlewareLists.set(name, options.middlewares || []);
+    let methods: string[];
+    let middlewares: (
+      BaseMiddleware<AppHandleCore> | SocketMiddleware<AppHandleCore>
+    )[];
+    let eventMiddlewares: BaseEventMiddleware<AppHandleCore>[];
+    let methodMiddlewares: Record<string, BaseEventMiddleware<AppHandleCore>[]>;
+    try {
+      methods = this.checkServiceOptions(name, options);
+      const globals = this.getGlobalMiddlewares();
+      middlewares = sortMiddlewares([
+        ...globals.filter(
+          middleware =>
+            middleware instanceof BaseMiddleware ||
+            middleware instanceof SocketMiddleware
+        ),
+        ...(options.middlewares || []).map(entry => {
+          const middleware = this.createMiddleware(entry);
+          if (middleware instanceof HttpMiddleware) {
+            throw new IOServerError(
+              `HTTP middleware ${middleware.constructor.name} cannot guard ${name} service`,
+              400
+            );
+          }
+          return middleware;
+        }),
+      ]);
+      eventMiddlewares = [
+        ...globals.filter(
+          middleware => middleware instanceof BaseEventMiddleware
+        ),
+        ...(options.eventMiddlewares || []).map(entry =>
+          this.createMiddleware(entry)
+        ),
+      ];
+      methodMiddlewares = Object.fromEntries(
+        Object.entries(options.methodMiddlewares || {}).map(
+          ([method, entries]) => [
+            method,
+            entries.map(entry => this.createMiddleware(entry)),
+          ]
+        )
+      );
+    } catch (error) {
+      this.serviceLists.delete(name);
+      this.connectionServices.delete(name);
+      throw error;
+    }
+
+    this.serviceOptions.set(name, options);
+    this.methodLists.set(name, methods);
+    this.middlewareLists.set(name, middlewares);
+    this.eventMiddlewareLists.set(name, {
+      handle: this.createComponentHandle('service', name),
+      service: eventMiddlewares,
+      methods: methodMiddlewares,
+    });
+    this.schemaLists.set(name, options.schemas || {});
+    this.emitLists.set(name, options.emits || {});
+    if (options.session) {
+      this.sessionLists.set(name, options.session);
+    }
+    this.authenticator.addService(name, options.auth, options.methodAuth);
+    this.rateLimiter.addService(
+      name,
+      options.rateLimit,
+      options.methodRateLimit
+    );
+    return this;
   }
 
   /**
-   * Registers a controller component for HTTP route handling
-   * @param {ControllerOptions} options - Controller configuration options
-   * @throws {IOServerError} When controller instantiation or route loading fails
+   * Validates the options of a service against its methods
+   * @private
+   * @returns {string[]} Methods exposed by the service
+   * @throws {IOServerError} When the options refer to unknown methods or
+   * declare invalid rules
    */
-  public addController(options: ControllerOptions): void {
-    const middlewares = options.middlewares || [];
-    let prefix = options.prefix;
+  private checkServiceOptions(
+    name: string,
+    options: ServiceOptions<TManagers>
+  ): string[] {
+    const schemas = options.schemas || {};
+    const methodAuth = options.methodAuth || {};
+    const methodRateLimit = options.methodRateLimit || {};
+    const methodMiddlewares = options.methodMiddlewares || {};
+    const emits = options.emits || {};
+    const methods = this.resolveServiceEvents(
+      name,
+      options.service,
+      options.strictEvents ?? this.strictEvents
+    );
+    Object.keys(schemas).forEach(method => {
+      if (!methods.includes(method)) {
+        throw new IOServerError(
+          `Schema declared for unknown method ${method} of ${name} service`,
+          400
+        );
+      }
+    });
+    Object.entries(methodAuth).forEach(([method, requirement]) => {
+      if (!methods.includes(method)) {
+        throw new IOServerError(
+          `Auth declared for unknown method ${method} of ${name} service`,
+          400
+        );
+      }
+      this.authenticator.checkRequirement(requirement, `${name}:${method}`);
+    });
+    this.authenticator.checkRequirement(options.auth, `${name} service`);
+    Object.entries(methodRateLimit).forEach(([method, rule]) => {
+      if (!methods.includes(method)) {
+        throw new IOServerError(
+          `Rate limit declared for unknown method ${method} of ${name} service`,
+          400
+        );
+      }
+      if (rule) {
+        checkRateLimitRule(rule, `${name}:${method}`);
+      }
+    });
+    if (options.rateLimit) {
+      checkRateLimitRule(options.rateLimit, `${name} service`);
+    }
+    Object.keys(methodMiddlewares).forEach(method => {
+      if (!methods.includes(method)) {
+        throw new IOServerError(
+          `Middlewares declared for unknown method ${method} of ${name} service`,
+          400
+        );
+      }
+    });
+    Object.keys(emits).forEach(event => {
+      if (IOServer.RESERVED_EVENTS.includes(event)) {
+        throw new IOServerError(
+          `Reserved event ${event} declared in emits of ${name} service`,
+          400
+        );
+      }
+    });
+    return methods;
+  }
+
+  /**
+   * Registers a controller component for HTTP route handling
+   * @param {ControllerOptions} options - Controller configuration options
+   * @returns {IOServer} This server, for chaining
+   * @throws {IOServerError} When controller instantiation or route loading fails
+   */
+  public addController(options: ControllerOptions<TManagers>): this {
+    let prefix = options.prefix;
 
     // Sanitize prefix
     if (prefix) {
@@ -614,47 +1741,234 @@ export class IOServer {
       );
     }
 
-    const routeFile = path.join(this.routesPath, `${options.name}.json`);
-    if (!fs.existsSync(routeFile)) {
-      throw new IOServerError(`Routes file does not exist: ${routeFile}`, 404);
-    }
-
+    let definitions: RouteDefinition[];
+    let middlewares: (
+      BaseMiddleware<AppHandleCore> | HttpMiddleware<AppHandleCore>
+    )[];
     try {
-      const routes = JSON.parse(fs.readFileSync(routeFile, 'utf8'));
-      this.registerControllerRoutes(routes, options.name, prefix, middlewares);
+      definitions = this.loadControllerRoutes(options.name, options.controller);
+      this.authenticator.checkRequirement(
+        options.auth,
+        `${options.name} controller`
+      );
+      if (options.rateLimit) {
+        checkRateLimitRule(options.rateLimit, `${options.name} controller`);
+      }
+      middlewares = sortMiddlewares([
+        ...this.getGlobalMiddlewares().filter(
+          middleware =>
+            middleware instanceof BaseMiddleware ||
+            middleware instanceof HttpMiddleware
+        ),
+        ...(options.middlewares || []).map(entry => {
+          const middleware = this.createMiddleware(entry);
+          if (middleware instanceof SocketMiddleware) {
+            throw new IOServerError(
+              `Socket middleware ${middleware.constructor.name} cannot guard ${options.name} controller`,
+              400
+            );
+          }
+          return middleware;
+        }),
+      ]);
+      middlewares.forEach(middleware => {
+        if (
+          middleware.stage &&
+          !IOServer.MIDDLEWARE_STAGES.includes(middleware.stage)
+        ) {
+          throw new IOServerError(
+            `Invalid stage ${middleware.stage} of middleware ${middleware.constructor.name}`,
+            400
+          );
+        }
+      });
+      this.checkControllerRoutes(definitions, options.name);
     } catch (error) {
+      this.controllerLists.delete(options.name);
+      throw error;
+    }
+
+    // Signature computed before registration rewrites the routes
+    const registration: ControllerRegistration<TManagers> = {
+      options,
+      signature: this.getRoutesSignature(definitions),
+      bindings: [],
+      middlewares,
+      enabled: true,
+    };
+    this.controllerRegistrations.set(options.name, registration);
+    registration.bindings = this.registerControllerRoutes(
+      definitions,
+      options.name,
+      prefix,
+      middlewares,
+      options.auth ?? this.authenticator.required,
+      options.rateLimit
+    );
+    return this;
+  }
+
+  /**
+   * Loads the routes of a controller, from the route files and/or the
+   * controller declarations
+   * @private
+   * @throws {IOServerError} When no route is found or a route file is invalid
+   */
+  private loadControllerRoutes(
+    controllerName: string,
+    ControllerClass: ComponentClass & { routes?: ControllerRoute[] }
+  ): RouteDefinition[] {
+    const declared = ControllerClass.routes || [];
+    const definitions = [
+      ...(loadRoutes(this.routesPath, controllerName, this.env, (level, text) =>
+        this.log(level, text, {
+          componentType: 'controller',
+          componentName: controllerName,
+        })
+      ) || []),
+      // Copy declarations: registration rewrites handlers and URLs
+      ...declared.map((route, index) => ({
+        route: { ...route },
+        source: `${ControllerClass.name}.routes[${index}]`,
+      })),
+    ];
+    if (definitions.length === 0) {
       throw new IOServerError(
-        `Error loading routes for ${options.name}: ${error}`,
-        500
+        `Routes file does not exist: ${path.join(this.routesPath, controllerName)}.{json,yaml,yml}`,
+        404
       );
     }
+    return definitions;
   }
 
-  private registerControllerRoutes(
-    routes: any[],
+  /**
+   * Lists the controller methods called by a route, keyed by handler option,
+   * or by option and index for lists of hooks
+   * @private
+   */
+  private getRouteMethods(route: ControllerRoute): Record<string, string> {
+    const methods: Record<string, string> = {};
+    IOServer.ROUTE_HANDLER_OPTIONS.forEach(option => {
+      const value = route[option];
+      if (typeof value === 'string') {
+        methods[option] = value;
+      } else if (Array.isArray(value)) {
+        value.forEach((hook, index) => {
+          if (typeof hook === 'string') {
+            methods[`${option}.${index}`] = hook;
+          }
+        });
+      }
+    });
+    return methods;
+  }
+
+  /**
+   * Describes the routes of a controller regardless of the methods they
+   * call, which can change without registering the routes again
+   * @private
+   */
+  private getRoutesSignature(definitions: RouteDefinition[]): string {
+    return JSON.stringify(
+      definitions.map(({ route }) => {
+        const shape: Record<string, unknown> = { ...route };
+        Object.keys(this.getRouteMethods(route)).forEach(key => {
+          const [option, index] = key.split('.');
+          if (index === undefined) {
+            shape[option] = '<method>';
+          } else {
+            const hooks = [...(shape[option] as unknown[])];
+            hooks[Number(index)] = '<method>';
+            shape[option] = hooks;
+          }
+        });
+        return shape;
+      })
+    );
+  }
+
+  /**
+   * Ensures every route refers to existing controller methods and declares
+   * enforceable rules, before any route is registered
+   * @private
+   * @throws {IOServerError} Pointing at the file and entry of the route
+   */
+  private checkControllerRoutes(
+    definitions: RouteDefinition[],
     controllerName: string,
-    prefix?: string,
-    middlewares: any[] = []
+    controller: any = this.controllerLists.get(controllerName)
   ): void {
-    const controller = this.controllerLists.get(controllerName);
-
-    routes.forEach(route => {
-      // Map controller methods to route handlers
-      const handlerOptions = [
-        'onRequest',
-        'preParsing',
-        'preValidation',
-        'preHandler',
-        'preSerialization',
-        'onSend',
-        'onResponse',
-        'handler',
-        'errorHandler',
-      ];
+    definitions.forEach(({ route, source }) => {
+      const target = `route ${route.method} ${route.url}`;
+      try {
+        if (!route.handler) {
+          throw new IOServerError(
+            `Missing handler for ${target} of ${controllerName} controller`,
+            500
+          );
+        }
 
-      handlerOptions.forEach(option => {
-        if (route[option] && controller[route[option]]) {
-          route[option] = controller[route[option]].bind(controller);
+        Object.values(this.getRouteMethods(route)).forEach(name => {
+          if (typeof controller[name] !== 'function') {
+            throw new IOServerError(
+              `Handler ${name} of ${target} is not a method of ${controllerName} controller`,
+              500
+            );
+          }
+        });
+
+        this.authenticator.checkRequirement(route.auth, target);
+        if (route.rateLimit) {
+          checkRateLimitRule(route.rateLimit, target);
+        }
+      } catch (error) {
+        throw new IOServerError(
+          `Invalid route ${source}: ${(error as Error).message}`,
+          (error as IOServerError).statusCode || 500
+        );
+      }
+    });
+  }
+
+  /**
+   * Registers the routes of a controller
+   * @private
+   * @returns {Record<string, string>[]} Method called by each handler option
+   * of each route
+   */
+  private registerControllerRoutes(
+    definitions: RouteDefinition[],
+    controllerName: string,
+    prefix?: string,
+    middlewares: (
+      BaseMiddleware<AppHandleCore> | HttpMiddleware<AppHandleCore>
+    )[] = [],
+    auth: AuthRequirement = this.authenticator.required,
+    rateLimit?: RateLimitRule | false
+  ): Record<string, string>[] {
+    const handle = this.createComponentHandle('controller', controllerName);
+    return definitions.map(({ route: declared, source }) => {
+      const handlerName =
+        typeof declared.handler === 'string' ? declared.handler : undefined;
+
+      // Map controller methods to route handlers, resolved on each call so
+      // that a reloaded controller serves the registered routes
+      const bindings = this.getRouteMethods(declared);
+      // The declaration is rewritten into Fastify route options below
+      const route: Record<string, any> = declared;
+      const bind =
+        (key: string) =>
+        (...args: unknown[]) => {
+          const controller = this.controllerLists.get(controllerName);
+          return controller[bindings[key]](...args);
+        };
+      IOServer.ROUTE_HANDLER_OPTIONS.forEach(option => {
+        if (typeof route[option] === 'string') {
+          route[option] = bind(option);
+        } else if (Array.isArray(route[option])) {
+          route[option] = route[option].map((hook: unknown, index: number) =>
+            typeof hook === 'string' ? bind(`${option}.${index}`) : hook
+          );
         }
       });
 
@@ -674,39 +1988,556 @@ export class IOServer {
         }
       }
 
-      // Setup middleware
-      if (!route.preValidation) {
-        route.preValidation = [];
+      // Disabled controllers answer before anything else runs
+      const requirement: AuthRequirement = route.auth ?? auth;
+      delete route.auth;
+      const onRequest: RouteHook[] = [
+        this.createControllerStatusHook(controllerName),
+      ];
+      // Authenticate before any other hook, so middlewares see request.user
+      if (this.authenticator.enabled) {
+        onRequest.push(this.authenticator.createHook(requirement !== false));
+      }
+
+      // Count the call once the user is known, before any other hook
+      const limits = this.rateLimiter.getRouteLimits(
+        `route ${route.method} ${route.url}`,
+        route.rateLimit,
+        controllerName,
+        rateLimit
+      );
+      delete route.rateLimit;
+      if (limits.length > 0) {
+        onRequest.push(this.rateLimiter.createHook(limits));
+      }
+
+      // Check access rules before the middlewares of their stage
+      const preValidation: RouteHook[] = [];
+      if (typeof requirement === 'object') {
+        preValidation.push(
+          this.authenticator.createAccessHook(requirement, controllerName)
+        );
       }
 
-      middlewares.forEach(MiddlewareClass => {
-        const middleware = new MiddlewareClass();
-        if (middleware.handle) {
-          route.preValidation.push(middleware.handle(this.appHandle));
+      // Middlewares run after the built-in hooks of their stage, and before
+      // the hooks declared by the route
+      const builtins: Record<string, RouteHook[]> = {
+        onRequest,
+        preValidation,
+      };
+      IOServer.MIDDLEWARE_STAGES.forEach(stage => {
+        const hooks = [
+          ...(builtins[stage] || []),
+          ...middlewares
+            .filter(
+              middleware => (middleware.stage || 'preValidation') === stage
+            )
+            .map(middleware =>
+              createHttpMiddleware(middleware, controllerName, handle)
+            ),
+          ...(route[stage] ? [].concat(route[stage]) : []),
+        ];
+        if (hooks.length > 0) {
+          route[stage] = hooks;
         }
       });
 
       try {
         this.log(
           7,
-          `[*] Register controller route ${route.method} ${route.url}`
+          `[*] Register controller route ${route.method} ${route.url}`,
+          { componentType: 'controller', componentName: controllerName }
         );
         this.webapp.route(route as RouteOptions);
+        this.routeContracts.push({
+          controller: controllerName,
+          handler: handlerName,
+          methods: [].concat(route.method),
+          url: route.url,
+          schema: route.schema,
+          auth: requirement,
+          rateLimited: limits.length > 0,
+        });
       } catch (error) {
-        this.log(3, `[!] Unable to register route: ${error}`);
+        this.log(3, `[!] Unable to register route ${source}: ${error}`, {
+          componentType: 'controller',
+          componentName: controllerName,
+        });
       }
+      return bindings;
     });
   }
 
+  /**
+   * Compiles service payload schemas with the validator compiler used by
+   * Fastify, so HTTP and WebSocket validation behave identically
+   * @private
+   */
+  private compileServiceSchemas(): void {
+    const buildCompiler = AjvCompiler() as PayloadCompilerFactory;
+    const compiler: PayloadCompiler =
+      this.webapp.validatorCompiler ||
+      buildCompiler(this.webapp.getSchemas(), {
+        customOptions: {},
+        plugins: [],
+      });
+
+    this.schemaLists.forEach((schemas, serviceName) => {
+      const validators = new Map<string, PayloadValidator>();
+
+      Object.entries(schemas).forEach(([method, schema]) => {
+        if (!schema.data) {
+          return;
+        }
+
+        try {
+          validators.set(
+            method,
+            compiler({
+              schema: schema.data,
+              method: 'SOCKET',
+              url: `${serviceName}:${method}`,
+              httpPart: 'body',
+            })
+          );
+        } catch (error) {
+          throw new IOServerError(
+            `Invalid schema for ${serviceName}:${method}: ${error}`,
+            500
+          );
+        }
+      });
+
+      this.validatorLists.set(serviceName, validators);
+    });
+  }
+
+  /**
+   * Validates an event payload against a compiled schema
+   * @private
+   * @param {PayloadValidator} validate - Compiled validation function
+   * @param {unknown} data - Payload received from the client
+   * @throws {IOServerError} When the payload does not match the schema (400)
+   */
+  private validatePayload(validate: PayloadValidator, data: unknown): void {
+    const result = validate(data);
+    const error =
+      result === false
+        ? validate.errors || []
+        : typeof result === 'object' && 'error' in result
+          ? result.error
+          : undefined;
+    if (!error) {
+      return;
+    }
+    if (error instanceof Error) {
+      throw new IOServerError(error.message, 400);
+    }
+
+    const message = error
+      .map(e => `data${e.instancePath || ''} ${e.message}`)
+      .join(', ');
+    throw new IOServerError(message || 'data is invalid', 400);
+  }
+
+  /**
+   * Extracts the contract of every registered service
+   * @returns {ServiceContract[]} Namespaces, methods and their schemas
+   */
+  public getServiceContracts(): ServiceContract[] {
+    return Array.from(this.serviceLists.keys()).map(serviceName => {
+      const schemas = this.schemaLists.get(serviceName) || {};
+      return {
+        name: serviceName,
+        namespace: this.getNamespaceName(serviceName),
+        methods: this.getServiceMethods(serviceName).map(method => ({
+          name: method,
+          ...schemas[method],
+        })),
+        emits: Object.entries(this.emitLists.get(serviceName) || {}).map(
+          ([event, data]) => ({ name: event, data })
+        ),
+      };
+    });
+  }
+
+  /**
+   * Generates a typed TypeScript client SDK wrapping socket.io-client
+   *
+   * Payload and acknowledgement types are derived from the `data` and `ack`
+   * schemas declared at registration; methods without schema use `any`.
+   *
+   * @returns {string} TypeScript source of the client SDK
+   */
+  public generateClient(): string {
+    return generateClient(this.getServiceContracts());
+  }
+
+  /**
+   * Lists the registered controller routes
+   * @returns {RouteContract[]} Methods, URLs, schemas and access rules
+   */
+  public getRouteContracts(): RouteContract[] {
+    return this.routeContracts.map(contract => ({ ...contract }));
+  }
+
+  /**
+   * Generates an OpenAPI 3.1 document of the registered controller routes
+   *
+   * Fastify shared schemas become document components, and strategies
+   * describing a `securityScheme` become security schemes.
+   *
+   * @returns {Record<string, unknown>} OpenAPI document
+   */
+  public generateOpenApi(): Record<string, unknown> {
+    return generateOpenApi(this.routeContracts, {
+      info: {
+        title: 'IOServer API',
+        version: IOServer.VERSION,
+        ...this.openApiOptions.info,
+      },
+      servers: this.openApiOptions.servers,
+      securitySchemes: this.authenticator.getSecuritySchemes(),
+      schemas: this.webapp.getSchemas(),
+    });
+  }
+
+  /**
+   * Generates an AsyncAPI 3.0 document of the registered services
+   *
+   * Namespaces become channels, service methods the events the server
+   * receives and `emits` declarations the events it sends, along with the
+   * shutdown event.
+   *
+   * @returns {Record<string, unknown>} AsyncAPI document
+   */
+  public generateAsyncApi(): Record<string, unknown> {
+    return generateAsyncApi(this.getServiceContracts(), {
+      info: {
+        title: 'IOServer API',
+        version: IOServer.VERSION,
+        ...this.asyncApiOptions.info,
+      },
+      servers: this.asyncApiOptions.servers || {
+        default: { host: `${this.host}:${this.port}`, protocol: 'ws' },
+      },
+      shutdownEvent: this.shutdownEvent,
+      securitySchemes: this.authenticator.getSecuritySchemes(),
+      schemas: this.webapp.getSchemas(),
+    });
+  }
+
+  /**
+   * Registers a provider injectable into components by token
+   *
+   * Components list the tokens they depend on in a static `inject` array and
+   * receive the resolved values after their application handle. Managers are
+   * provided under their name and class once registered.
+   *
+   * @param {Token} token - Name, symbol, InjectionToken or class
+   * @param {Provider} provider - `useValue`, `useClass` or `useFactory`
+   * @returns {IOServer} This server, for chaining
+   * @throws {IOServerError} When the token is already provided
+   */
+  public provide<T>(token: Token<T>, provider: Provider<T>): this {
+    this.container.provide(token, provider);
+    return this;
+  }
+
+  /**
+   * Resolves a singleton provider
+   * @param {Token} token - Token to resolve
+   * @returns Value provided for the token
+   * @throws {IOServerError} When the token cannot be resolved
+   */
+  public resolve<T>(token: Token<T>): T {
+    return this.container.resolve(token);
+  }
+
   /**
    * Retrieves a registered service by name
    * @param {string} name - The service name
-   * @returns {any} The service instance or undefined if not found
+   * @returns {any} The service instance or undefined if not found (or
+   * connection-scoped)
    */
   public getService(name: string): any {
     return this.serviceLists.get(name);
   }
 
+  /**
+   * Replaces the class of a registered service while the server runs. The
+   * methods are bound again on connected sockets; connection-scoped services
+   * get a new instance per socket. Lifecycle hooks do not run again, so
+   * connection state is best kept in the session.
+   * @param {string} name - The service name
+   * @param {Function} ServiceClass - New service class
+   * @throws {IOServerError} When the service is unknown, or the new class
+   * does not match the service options
+   */
+  public reloadService(
+    name: string,
+    ServiceClass: ServiceOptions<TManagers>['service']
+  ): void {
+    const options = this.serviceOptions.get(name);
+    if (!options) {
+      throw new IOServerError(`Service ${name} is not registered`, 404);
+    }
+
+    const updated = { ...options, service: ServiceClass };
+    const methods = this.checkServiceOptions(name, updated);
+    if (updated.scope === 'connection') {
+      this.container.assertInjectable(ServiceClass, [SOCKET]);
+      this.connectionServices.set(name, ServiceClass);
+    } else {
+      this.serviceLists.set(
+        name,
+        this.container.instantiate(ServiceClass, [
+          this.createComponentHandle('service', name),
+        ])
+      );
+    }
+    this.serviceOptions.set(name, updated);
+    this.methodLists.set(name, methods);
+
+    if (this.socketio) {
+      this.socketio.of(this.getNamespaceName(name)).sockets.forEach(socket => {
+        const context = this.getSocketLogContext(name, socket);
+        try {
+          if (updated.scope === 'connection') {
+            this.createConnectionInstance(name, socket);
+          }
+        } catch (error) {
+          this.log(
+            3,
+            `[!] Unable to set up ${name} service connection: ${error}`,
+            context
+          );
+          socket.disconnect(true);
+          return;
+        }
+        this.bindServiceMethods(name, socket, context);
+      });
+    }
+    this.log(5, `[*] Service ${name} reloaded`, {
+      componentType: 'service',
+      componentName: name,
+    });
+  }
+
+  /**
+   * Replaces the instance of a registered controller while the server runs,
+   * loading its routes again. Routes keep their URL, schema and options;
+   * only the controller methods they call may change.
+   * @param {string} name - The controller name
+   * @param {Function} ControllerClass - New controller class - defaults to
+   * the current one, keeping its instance
+   * @throws {IOServerError} When the controller is unknown, a route is
+   * invalid, or the routes changed and require a restart
+   */
+  public reloadController(
+    name: string,
+    ControllerClass?: ControllerOptions<TManagers>['controller']
+  ): void {
+    const registration = this.getControllerRegistration(name);
+    const controller = ControllerClass
+      ? this.container.instantiate(ControllerClass, [
+          this.createComponentHandle('controller', name),
+        ])
+      : this.controllerLists.get(name);
+    const definitions = this.loadControllerRoutes(
+      name,
+      ControllerClass || registration.options.controller
+    );
+    this.checkControllerRoutes(definitions, name, controller);
+    if (this.getRoutesSignature(definitions) !== registration.signature) {
+      throw new IOServerError(
+        `Routes of ${name} controller changed, restart required`,
+        409
+      );
+    }
+
+    definitions.forEach(({ route }, index) => {
+      Object.assign(registration.bindings[index], this.getRouteMethods(route));
+    });
+    this.controllerLists.set(name, controller);
+    if (ControllerClass) {
+      registration.options = {
+        ...registration.options,
+        controller: ControllerClass,
+      };
+    }
+    this.log(5, `[*] Controller ${name} reloaded`, {
+      componentType: 'controller',
+      componentName: name,
+    });
+  }
+
+  /**
+   * Removes a service. Its namespace stops accepting connections, connected
+   * sockets are disconnected and their onDisconnect hooks awaited, up to the
+   * shutdown timeout.
+   * @param {string} name - The service name
+   * @returns {Promise<void>} Promise that resolves when the service is removed
+   * @throws {IOServerError} When the service is not registered
+   */
+  public async removeService(name: string): Promise<void> {
+    if (!this.serviceLists.has(name)) {
+      throw new IOServerError(`Service ${name} is not registered`, 404);
+    }
+
+    if (this.socketio) {
+      // Clients then get an invalid namespace error. The namespace is kept
+      // and its adapter closed on shutdown.
+      this.unmountService(name);
+      this.socketio.of(this.getNamespaceName(name)).disconnectSockets(true);
+      await this.gracefulShutdown.drain(name);
+    }
+
+    [
+      this.serviceLists,
+      this.serviceOptions,
+      this.connectionServices,
+      this.methodLists,
+      this.middlewareLists,
+      this.eventMiddlewareLists,
+      this.schemaLists,
+      this.emitLists,
+      this.validatorLists,
+      this.sessionLists,
+    ].forEach(list => list.delete(name));
+    this.authenticator.removeService(name);
+    this.rateLimiter.removeService(name);
+    this.log(5, `[*] Service ${name} removed`, {
+      componentType: 'service',
+      componentName: name,
+    });
+  }
+
+  /**
+   * Removes a controller. Fastify cannot unregister routes, so its routes
+   * stay disabled and answer 503.
+   * @param {string} name - The controller name
+   * @throws {IOServerError} When the controller is not registered
+   */
+  public removeController(name: string): void {
+    this.getControllerRegistration(name).enabled = false;
+    this.controllerLists.delete(name);
+    this.controllerRegistrations.delete(name);
+    this.routeContracts.splice(
+      0,
+      this.routeContracts.length,
+      ...this.routeContracts.filter(({ controller }) => controller !== name)
+    );
+    this.log(5, `[*] Controller ${name} removed`, {
+      componentType: 'controller',
+      componentName: name,
+    });
+  }
+
+  /**
+   * Makes the routes of a controller answer 503 until enabled again
+   * @param {string} name - The controller name
+   * @throws {IOServerError} When the controller is not registered
+   */
+  public disableController(name: string): void {
+    this.getControllerRegistration(name).enabled = false;
+  }
+
+  /**
+   * Serves the routes of a disabled controller again
+   * @param {string} name - The controller name
+   * @throws {IOServerError} When the controller is not registered
+   */
+  public enableController(name: string): void {
+    this.getControllerRegistration(name).enabled = true;
+  }
+
+  private getControllerRegistration(
+    name: string
+  ): ControllerRegistration<TManagers> {
+    const registration = this.controllerRegistrations.get(name);
+    if (!registration) {
+      throw new IOServerError(`Controller ${name} is not registered`, 404);
+    }
+    return registration;
+  }
+
+  /**
+   * Removes a manager, calling its stop() hook when it was started, and
+   * deletes it from the application handle. Components that received it
+   * keep their reference.
+   * @param {string} name - The manager name
+   * @returns {Promise<void>} Promise that resolves when the manager is removed
+   * @throws {IOServerError} When the manager is not registered, other
+   * managers depend on it, or its stop() hook fails
+   */
+  public async removeManager(name: string): Promise<void> {
+    const manager = this.managerLists.get(name);
+    if (!manager) {
+      throw new IOServerError(`Manager ${name} is not registered`, 404);
+    }
+    const stopped = this.managers.remove(name);
+    this.managerLists.delete(name);
+    delete this.appHandle[name];
+    await stopped;
+    this.log(5, `[*] Manager ${name} removed`, {
+      componentType: 'manager',
+      componentName: name,
+    });
+  }
+
+  /**
+   * Lists the scheduled jobs of every watcher, or of one watcher, with the
+   * outcome of their last run
+   * @param {string} name - The watcher name
+   * @returns {WatcherJobStatus[]} State of the jobs
+   * @throws {IOServerError} When the watcher is not registered
+   */
+  public getWatcherJobs(name?: string): WatcherJobStatus[] {
+    if (name !== undefined && !this.watcherLists.has(name)) {
+      throw new IOServerError(`Watcher ${name} is not registered`, 404);
+    }
+    return this.scheduler.getJobs(name);
+  }
+
+  /**
+   * Runs a scheduled job of a watcher now, e.g. while debugging it. The
+   * schedule of the job is unchanged.
+   * @param {string} name - The watcher name
+   * @param {string} job - The job name
+   * @returns {Promise<WatcherJobStatus>} State of the job once the run
+   * completed, a failure being recorded in `lastError`
+   * @throws {IOServerError} When the job is not registered or already running
+   */
+  public triggerWatcherJob(
+    name: string,
+    job: string
+  ): Promise<WatcherJobStatus> {
+    return this.scheduler.trigger(name, job);
+  }
+
+  /**
+   * Removes a watcher, calling its stop() hook when it was started, once
+   * the runs in progress of its scheduled jobs completed
+   * @param {string} name - The watcher name
+   * @returns {Promise<void>} Promise that resolves when the watcher is removed
+   * @throws {IOServerError} When the watcher is not registered or its stop()
+   * hook fails
+   */
+  public async removeWatcher(name: string): Promise<void> {
+    const watcher = this.watcherLists.get(name);
+    if (!watcher) {
+      throw new IOServerError(`Watcher ${name} is not registered`, 404);
+    }
+
+    this.watcherLists.delete(name);
+    await this.scheduler.remove(name, this.shutdownTimeout);
+    this.log(5, `[*] Watcher ${name} removed`, {
+      componentType: 'watcher',
+      componentName: name,
+    });
+  }
+
   /**
    * Starts the IOServer instance
    * Initializes Socket.IO, starts watchers, and begins listening for connections
@@ -739,55 +2570,27 @@ export class IOServer {
 
     this.log(6, '[*] Socket.IO server ready');
 
-    // Setup Socket.IO namespaces and services
-    this.serviceLists.forEach((service, serviceName) => {
-      const namespace =
-        serviceName === '/'
-          ? this.socketio.of('/')
-          : this.socketio.of(`/${serviceName}`);
-
-      // Register middleware for namespace
-      const middlewares = this.middlewareLists.get(serviceName) || [];
-      middlewares.forEach(MiddlewareClass => {
-        const middleware = new MiddlewareClass();
-        if (middleware.handle) {
-          namespace.use(middleware.handle(this.appHandle));
-        }
-      });
+    // Compile service payload schemas before accepting connections
+    this.compileServiceSchemas();
 
-      // Setup connection handler
-      namespace.on('connection', this.handleConnection(serviceName));
-      this.log(6, `[*] Service ${serviceName} registered...`);
-    });
+    // Start managers before any component may use them
+    await this.managers.start();
 
-    // Start watchers
-    try {
-      const watcherPromises = Array.from(this.watcherLists.values()).map(
-        async watcher => {
-          try {
-            this.log(6, `[*] Start watcher ${watcher.constructor.name}`);
-            if (watcher.watch) {
-              await watcher.watch();
-            }
-          } catch (error) {
-            throw new IOServerError(
-              `Unable to start ${watcher.constructor.name} watcher: ${error}`,
-              500
-            );
-          }
-        }
-      );
+    // Setup Socket.IO namespaces and services
+    this.serviceLists.forEach((_service, serviceName) => {
+      this.mountService(serviceName);
+    });
 
-      // Don't wait for watchers to complete
-      Promise.all(watcherPromises).catch(error => {
-        this.log(3, `[!] Error starting watchers: ${error}`);
-      });
-    } catch (error) {
-      throw new IOServerError(`Error starting watchers: ${error}`, 500);
-    }
+    // Start watchers without waiting for them, then arm the timers of
+    // scheduled jobs, running the runOnStart ones
+    this.scheduler.start();
 
-    // Start web server
+    // Start web server, watching sources first so that a failing watch
+    // does not leave the server listening
     try {
+      if (this.hotReloadOptions) {
+        this.startHotReload(this.hotReloadOptions);
+      }
       this.log(
         5,
         `[*] Starting server on http://${this.host}:${this.port} ...`
@@ -796,8 +2599,240 @@ export class IOServer {
       this.log(5, `[*] Server listening on http://${this.host}:${this.port}`);
     } catch (error) {
       this.log(3, `[!] Unable to start server: ${error}`);
+      await this.abortStart();
       throw new IOServerError(`Unable to start server: ${error}`, 500);
     }
+
+    this.gracefulShutdown.listen(this.shutdownSignals, () => this.stop());
+  }
+
+  /**
+   * Installs the connection handling of a service on its namespace
+   * @private
+   */
+  private mountService(serviceName: string): void {
+    const name = this.getNamespaceName(serviceName);
+    const namespace = this.socketio.of(name);
+    const middlewares: NamespaceMiddleware[] = [];
+    const handle = this.createComponentHandle('service', serviceName);
+
+    // Authenticate the handshake before service middlewares
+    if (this.authenticator.enabled) {
+      middlewares.push(
+        this.authenticator.createSocketMiddleware(
+          serviceName,
+          this.getServiceMethods(serviceName),
+          (socket, error, next) =>
+            this.refuseConnection(serviceName, socket, error, next)
+        )
+      );
+    }
+    (this.middlewareLists.get(serviceName) || []).forEach(middleware => {
+      middlewares.push(
+        createSocketMiddleware(
+          middleware,
+          serviceName,
+          handle,
+          (socket, error, next) =>
+            this.refuseConnection(serviceName, socket, error, next)
+        )
+      );
+    });
+
+    const mount = { middlewares, listener: this.handleConnection(serviceName) };
+    this.guardNamespace(name);
+    this.namespaceMounts.set(name, mount);
+    namespace.on('connection', mount.listener);
+    this.log(6, `[*] Service ${serviceName} registered...`, {
+      componentType: 'service',
+      componentName: serviceName,
+      namespace: name,
+    });
+  }
+
+  /**
+   * Detaches the connection handling of a service from its namespace, which
+   * then refuses connections
+   * @private
+   */
+  private unmountService(serviceName: string): void {
+    const name = this.getNamespaceName(serviceName);
+    const mount = this.namespaceMounts.get(name);
+    if (mount) {
+      this.socketio.of(name).off('connection', mount.listener);
+      this.namespaceMounts.delete(name);
+    }
+  }
+
+  /**
+   * Installs once the namespace middleware running the middlewares of the
+   * current mount. Socket.IO cannot remove namespace middlewares nor
+   * namespaces, so a namespace without mount refuses connections.
+   * @private
+   */
+  private guardNamespace(name: string): void {
+    if (this.guardedNamespaces.has(name)) {
+      return;
+    }
+    this.guardedNamespaces.add(name);
+    this.socketio.of(name).use((socket, next) => {
+      const mount = this.namespaceMounts.get(name);
+      if (!mount) {
+        next(new Error('Invalid namespace'));
+        return;
+      }
+      const run = (index: number, error?: Error): void => {
+        const middleware = mount.middlewares[index];
+        if (error || !middleware) {
+          next(error);
+          return;
+        }
+        middleware(socket, err => run(index + 1, err));
+      };
+      run(0);
+    });
+  }
+
+  /**
+   * Undoes a partial start: stops hot reload, the scheduled jobs, the
+   * started watchers and the started managers, so that nothing keeps the
+   * process alive
+   * @private
+   */
+  private async abortStart(): Promise<void> {
+    this.hotReloader?.close();
+    this.hotReloader = undefined;
+    await this.scheduler.stop(this.shutdownTimeout);
+    // Failures are logged by the scheduler
+    await this.scheduler.stopWatchers().catch(() => undefined);
+    await this.managers.stop().catch(error => {
+      this.log(3, `[!] ${error}`);
+    });
+  }
+
+  /**
+   * Watches the routes directory and component sources, applying changes
+   * one batch at a time
+   * @private
+   */
+  private startHotReload(options: HotReloadOptions): void {
+    let applying = Promise.resolve();
+    this.hotReloader = new HotReloader(
+      [this.routesPath, ...(options.paths || [])],
+      options.debounce ?? 100,
+      files => {
+        applying = applying
+          .then(() => this.applyChanges(files))
+          .catch(error => {
+            this.log(3, `[!] Unable to apply changes: ${error}`);
+          });
+      }
+    );
+    this.hotReloader.start();
+    this.log(5, `[*] Hot reload enabled, watching ${this.routesPath}`);
+  }
+
+  /**
+   * Applies changed files to the running server: route files reload the
+   * controllers, service and controller sources swap their classes. Other
+   * changes restart the server.
+   * @private
+   */
+  private async applyChanges(files: string[]): Promise<void> {
+    if (this.shuttingDown) {
+      return;
+    }
+
+    // Sources that fail to load keep the running code until fixed
+    const plan = planReload(
+      files,
+      this.routesPath,
+      this.getReloadableComponents()
+    );
+    if (plan.restart) {
+      return this.restart(plan.restart);
+    }
+
+    // Reloaded classes take the place of the registered ones
+    type ServiceClass = ServiceOptions<TManagers>['service'];
+    type ControllerClass = ControllerOptions<TManagers>['controller'];
+    try {
+      plan.changed.forEach(({ type, name, NewClass }) => {
+        if (type === 'service') {
+          this.reloadService(name, NewClass as ServiceClass);
+        }
+      });
+      this.controllerRegistrations.forEach((_registration, name) => {
+        const component = plan.changed.find(
+          ({ type, name: controllerName }) =>
+            type === 'controller' && controllerName === name
+        );
+        if (component || plan.routesChanged) {
+          this.reloadController(
+            name,
+            component && (component.NewClass as ControllerClass)
+          );
+        }
+      });
+    } catch (error) {
+      // Invalid files are reported until fixed, other changes need a restart
+      if ((error as IOServerError).statusCode !== 409) {
+        throw error;
+      }
+      return this.restart((error as Error).message);
+    }
+  }
+
+  /**
+   * Lists the components whose source may change, middlewares once per class
+   * @private
+   */
+  private getReloadableComponents(): ReloadableComponent<ComponentClass>[] {
+    const components: ReloadableComponent<ComponentClass>[] = [];
+    const middlewares: AnyMiddleware[] = [];
+    this.serviceOptions.forEach((options, name) => {
+      components.push({ type: 'service', name, Class: options.service });
+    });
+    this.eventMiddlewareLists.forEach(lists => {
+      middlewares.push(
+        ...lists.service,
+        ...Object.values(lists.methods).flat()
+      );
+    });
+    this.controllerRegistrations.forEach((registration, name) => {
+      components.push({
+        type: 'controller',
+        name,
+        Class: registration.options.controller,
+      });
+      middlewares.push(...registration.middlewares);
+    });
+    this.managerLists.forEach((manager, name) => {
+      components.push({ type: 'manager', name, Class: manager.constructor });
+    });
+    this.watcherLists.forEach((watcher, name) => {
+      components.push({ type: 'watcher', name, Class: watcher.constructor });
+    });
+    this.middlewareLists.forEach(list => middlewares.push(...list));
+    this.unique(
+      middlewares.map(middleware => middleware.constructor as ComponentClass)
+    ).forEach(Class => {
+      components.push({ type: 'middleware', name: Class.name, Class });
+    });
+    return components;
+  }
+
+  /**
+   * Stops the server for a change that cannot be applied in place, then
+   * hands over to the restart callback
+   * @private
+   */
+  private async restart(reason: string): Promise<void> {
+    this.log(4, `[!] Restarting the server: ${reason}`);
+    await this.stop();
+    const onRestart =
+      this.hotReloadOptions?.onRestart || (() => process.exit(0));
+    await onRestart(reason);
   }
 
   /**
@@ -825,37 +2860,79 @@ export class IOServer {
   }
 
   /**
-   * Stops the IOServer instance
+   * Stops the IOServer instance gracefully
+   *
+   * New connections and service calls are refused, the shutdown event is
+   * emitted to every namespace and in-flight service calls are awaited (up
+   * to the shutdown timeout). Watchers are then stopped, sockets and the
+   * HTTP server closed, and finally managers are stopped.
+   *
    * @returns {Promise<void>} Promise that resolves when server is stopped
    * @throws {IOServerError} When server shutdown fails
    */
-  public async stop(): Promise<void> {
+  public stop(): Promise<void> {
+    if (!this.stopping) {
+      this.stopping = this.shutdown().catch(error => {
+        // Let a failed shutdown be retried
+        this.stopping = undefined;
+        throw error;
+      });
+    }
+    return this.stopping;
+  }
+
+  private async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+    this.gracefulShutdown.unlisten();
+    this.hotReloader?.close();
+    // No scheduled job starts once the shutdown begins
+    const jobsStopped = this.scheduler.stop(this.shutdownTimeout);
+
     try {
-      // Stop watchers
-      const watcherPromises = Array.from(this.watcherLists.values()).map(
-        async watcher => {
-          try {
-            this.log(6, `[*] Stopping watcher ${watcher.constructor.name}`);
-            if (watcher.stop) {
-              await watcher.stop();
-            }
-          } catch (error) {
-            this.log(
-              3,
-              `[!] Error stopping ${watcher.constructor.name} watcher: ${error}`
-            );
-            throw new IOServerError(
-              `Error stopping ${watcher.constructor.name} watcher: ${error}`,
-              500
-            );
-          }
-        }
-      );
-      await Promise.all(watcherPromises);
+      // Notify clients and let in-flight calls complete
+      let notified = false;
+      if (this.socketio) {
+        this.serviceLists.forEach((_service, serviceName) => {
+          const namespace = this.socketio.of(
+            this.getNamespaceName(serviceName)
+          );
+          notified = notified || namespace.sockets.size > 0;
+          namespace.emit(this.shutdownEvent, {
+            timeout: this.shutdownTimeout,
+          });
+        });
+      }
+      if (notified) {
+        // Give the event time to be flushed before sockets are closed
+        await new Promise(resolve =>
+          global.setTimeout(resolve, IOServer.SHUTDOWN_FLUSH_DELAY)
+        );
+      }
+      await this.gracefulShutdown.drain();
+      if (!(await jobsStopped)) {
+        this.log(4, '[!] Shutdown timeout reached with scheduled jobs running');
+      }
+
+      await this.scheduler.stopWatchers();
       this.log(6, '[*] All watchers stopped');
-      // Stop Socket.IO server
+
+      // Close remaining sockets, then Socket.IO and HTTP servers
+      if (this.socketio) {
+        const namespaces = new Set(['/', ...this.guardedNamespaces]);
+        for (const name of namespaces) {
+          const namespace = this.socketio.of(name);
+          namespace.disconnectSockets(true);
+          // Let the adapter leave the cluster and clear its timers. This is
+          // the only place closing them: io.close() is never called
+          await namespace.adapter.close();
+        }
+        // Let onDisconnect hooks complete before managers stop
+        await this.gracefulShutdown.drain();
+      }
       await this.webapp.close();
       this.log(6, '[*] Server stopped');
+
+      await this.managers.stop();
     } catch (error) {
       throw new IOServerError(`Unable to stop server: ${error}`, 500);
     }
@@ -888,6 +2965,10 @@ export class IOServer {
       const socket = ns.sockets.get(options.sid);
       if (socket) {
         socket.emit(options.event, options.data);
+      } else {
+        // Every socket joins a room named after its id: let the adapter
+        // reach sockets connected to another instance
+        ns.to(options.sid).emit(options.event, options.data);
       }
     } else {
       const target = options.room ? ns.in(options.room) : ns;
@@ -904,66 +2985,426 @@ export class IOServer {
    * @returns {Function} Connection handler function
    */
   private handleConnection(serviceName: string) {
-    return (socket: any) => {
-      this.log(5, `[*] Received connection for service ${serviceName}`);
+    return (socket: Socket) => {
+      if (this.shuttingDown) {
+        socket.disconnect(true);
+        return;
+      }
 
-      const methods = this.methodLists.get(serviceName) || [];
-      this.serviceLists.get(serviceName);
+      const context = this.getSocketLogContext(serviceName, socket);
+      this.log(
+        5,
+        `[*] Received connection for service ${serviceName}`,
+        context
+      );
 
-      methods.forEach(method => {
-        // Skip private methods and constructor
-        if (method.startsWith('_') || method === 'constructor') {
-          return;
+      const createSession = this.sessionLists.get(serviceName);
+      try {
+        if (createSession) {
+          socket.data.session = createSession(socket);
+        }
+        if (this.connectionServices.has(serviceName)) {
+          this.createConnectionInstance(serviceName, socket);
         }
+      } catch (error) {
+        this.log(
+          3,
+          `[!] Unable to set up ${serviceName} service connection: ${error}`,
+          context
+        );
+        socket.disconnect(true);
+        return;
+      }
 
-        this.log(6, `[*] Method ${method} of ${serviceName} listening...`);
-        socket.on(method, this.handleCallback(serviceName, method, socket));
+      // Calls wait for onConnection, a failing hook closes the connection
+      const ready = this.gracefulShutdown.track(
+        this.runServiceHook(
+          this.getServiceInstance(serviceName, socket),
+          'onConnection',
+          [socket],
+          context
+        ).then(connected => {
+          if (!connected) {
+            socket.disconnect(true);
+          }
+          return connected;
+        }),
+        serviceName
+      );
+      this.connectionsReady.set(socket, ready);
+      socket.on('disconnect', (reason: string) => {
+        // The instance may have been reloaded since the connection
+        const service = this.getServiceInstance(serviceName, socket);
+        this.gracefulShutdown.track(
+          ready.then(
+            connected =>
+              connected &&
+              this.runServiceHook(
+                service,
+                'onDisconnect',
+                [socket, reason],
+                context
+              )
+          ),
+          serviceName
+        );
+        this.connectionInstances.delete(socket);
+      });
+
+      this.bindServiceMethods(serviceName, socket, context);
+    };
+  }
+
+  /**
+   * Instantiates a connection-scoped service for a socket, in the container
+   * scope of the connection
+   * @private
+   */
+  private createConnectionInstance(serviceName: string, socket: Socket): void {
+    const ServiceClass = this.connectionServices.get(serviceName)!;
+    const scope = this.container.createScope();
+    scope.provide(SOCKET, { useValue: socket });
+    this.connectionInstances.set(
+      socket,
+      scope.instantiate(ServiceClass, [
+        this.createComponentHandle('service', serviceName),
+      ])
+    );
+  }
+
+  /**
+   * Binds the methods of a service on a socket, replacing the listeners
+   * bound before
+   * @private
+   */
+  private bindServiceMethods(
+    serviceName: string,
+    socket: Socket,
+    context: LogContext
+  ): void {
+    const listeners = this.socketListeners.get(socket) || new Map();
+    listeners.forEach((listener, method) => socket.off(method, listener));
+    listeners.clear();
+
+    this.getServiceMethods(serviceName).forEach(method => {
+      this.log(
+        6,
+        `[*] Method ${method} of ${serviceName} listening...`,
+        context
+      );
+      const listener = this.handleCallback(serviceName, method, socket);
+      socket.on(method, listener);
+      listeners.set(method, listener);
+    });
+    this.socketListeners.set(socket, listeners);
+  }
+
+  /**
+   * Returns the instance serving a socket: its own for connection-scoped
+   * services, the shared one otherwise
+   * @private
+   */
+  private getServiceInstance(serviceName: string, socket: Socket): any {
+    return this.connectionServices.has(serviceName)
+      ? this.connectionInstances.get(socket)
+      : this.serviceLists.get(serviceName);
+  }
+
+  /**
+   * Awaits a lifecycle hook of a service, when implemented
+   * @private
+   * @returns {Promise<boolean>} False when the hook failed
+   */
+  private async runServiceHook(
+    service: object | undefined,
+    hook: string,
+    args: unknown[],
+    context: LogContext
+  ): Promise<boolean> {
+    const method = (service as Record<string, unknown> | undefined)?.[hook];
+    if (typeof method !== 'function') {
+      return true;
+    }
+    try {
+      await method.apply(service, args);
+      return true;
+    } catch (error) {
+      this.log(3, `[!] Error in ${hook} hook: ${error}`, context);
+      return false;
+    }
+  }
+
+  /**
+   * Creates the onRequest hook answering 503 while a controller is disabled,
+   * and once it is removed. It also binds the request id to `request.appLog`
+   * @private
+   */
+  private createControllerStatusHook(controllerName: string) {
+    const registration = this.controllerRegistrations.get(controllerName);
+    return async (request: FastifyRequest, _reply: FastifyReply) => {
+      if (
+        !registration?.enabled ||
+        this.controllerRegistrations.get(controllerName) !== registration
+      ) {
+        throw new IOServerError(
+          `Controller ${controllerName} is unavailable`,
+          503
+        );
+      }
+      request.appLog = this.createLogFunction({
+        componentType: 'controller',
+        componentName: controllerName,
+        reqId: request.id,
       });
     };
   }
 
+  /**
+   * Refuses a socket connection, the client receiving the standard error
+   * payload as connect_error data
+   * @private
+   */
+  private refuseConnection(
+    serviceName: string,
+    socket: Socket,
+    error: IOServerError,
+    next: (err?: Error) => void
+  ): void {
+    this.log(
+      5,
+      `[!] Connection refused: ${error.message}`,
+      this.getSocketLogContext(serviceName, socket)
+    );
+
+    const refusal: Error & { data?: Record<string, unknown> } = new Error(
+      error.message
+    );
+    refusal.data = {
+      status: 'error',
+      type: error.name,
+      message: error.message,
+      statusCode: error.statusCode,
+    };
+    next(refusal);
+  }
+
+  /**
+   * Instantiates a middleware entry with the handle of the middleware
+   * @private
+   * @throws {IOServerError} When the entry does not provide a middleware
+   */
+  private createMiddleware<T extends AnyMiddleware>(
+    entry: MiddlewareEntry<T>
+  ): T {
+    return createMiddleware(
+      entry,
+      name => this.createComponentHandle('middleware', name),
+      this.container
+    );
+  }
+
+  /**
+   * Instantiates the global middlewares on first use, once the managers
+   * they may inject are registered
+   * @private
+   */
+  private getGlobalMiddlewares(): AnyMiddleware[] {
+    if (!this.globalMiddlewares) {
+      this.globalMiddlewares = this.middlewareEntries.map(entry =>
+        this.createMiddleware(entry)
+      );
+    }
+    return this.globalMiddlewares;
+  }
+
+  private getSocketLogContext(serviceName: string, socket: Socket): LogContext {
+    return {
+      componentType: 'service',
+      componentName: serviceName,
+      namespace: this.getNamespaceName(serviceName),
+      socketId: socket.id,
+    };
+  }
+
   /**
    * Creates a callback handler for WebSocket method calls
    * @private
    * @param {string} serviceName - The name of the service
    * @param {string} methodName - The name of the method
-   * @param {any} socket - The Socket.IO socket instance
+   * @param {Socket} socket - The Socket.IO socket instance
    * @returns {Function} Callback handler function
    */
-  private handleCallback(serviceName: string, methodName: string, socket: any) {
-    return async (data: any, callback?: (response: any) => void) => {
-      this.log(6, `[*] Call method ${methodName} of service ${serviceName}`);
+  private handleCallback(
+    serviceName: string,
+    methodName: string,
+    socket: Socket
+  ) {
+    return (data: unknown, callback?: (response: unknown) => void) => {
+      return this.gracefulShutdown.track(
+        this.executeCallback(serviceName, methodName, socket, data, callback),
+        serviceName
+      );
+    };
+  }
 
-      try {
-        const service = this.serviceLists.get(serviceName);
-        if (service && service[methodName]) {
-          await service[methodName](socket, data, callback);
+  /**
+   * Validates and dispatches a WebSocket method call, reporting failures
+   * with the standard error payload
+   * @private
+   * @param {string} serviceName - The name of the service
+   * @param {string} methodName - The name of the method
+   * @param {any} socket - The Socket.IO socket instance
+   * @param {any} data - Payload sent by the client
+   * @param {Function} callback - Acknowledgement callback, if any
+   * @returns {Promise<void>} Promise that resolves when the call completes
+   */
+  private async executeCallback(
+    serviceName: string,
+    methodName: string,
+    socket: Socket,
+    data: unknown,
+    callback?: (response: unknown) => void
+  ): Promise<void> {
+    const context = {
+      ...this.getSocketLogContext(serviceName, socket),
+      method: methodName,
+    };
+    this.log(
+      6,
+      `[*] Call method ${methodName} of service ${serviceName}`,
+      context
+    );
+
+    const service = this.getServiceInstance(serviceName, socket);
+    const call: EventContext = {
+      service: serviceName,
+      method: methodName,
+      socket,
+      data,
+      ack: callback,
+    };
+    try {
+      const ready = this.connectionsReady.get(socket);
+      if (ready && !(await ready)) {
+        return;
+      }
+      if (this.shuttingDown) {
+        throw new IOServerError('Server is shutting down', 503);
+      }
+
+      if (service && service[methodName]) {
+        await this.rateLimiter.enforce(serviceName, methodName, socket);
+        const requirement = this.authenticator.getMethodAuth(
+          serviceName,
+          methodName
+        );
+        if (requirement !== false && !socket.data.user) {
+          throw new IOServerError('Authentication required', 401);
         }
-      } catch (error) {
-        let ioError = error;
-        if (typeof error === 'string') {
-          ioError = new IOServerError(error, 500);
+        if (typeof requirement === 'object') {
+          await this.authenticator.authorize(requirement, socket.data.user, {
+            transport: 'socket',
+            component: serviceName,
+            socket,
+            method: methodName,
+            data,
+          });
         }
+        await this.invokeServiceMethod(service, call, context);
+      }
+    } catch (error) {
+      let ioError = error;
+      if (typeof error === 'string') {
+        ioError = new IOServerError(error, 500);
+      }
 
-        const payload = {
-          status: 'error',
-          type: (ioError as any)?.constructor?.name || 'Error',
-          message: (ioError as any)?.message || null,
-          statusCode: (ioError as any)?.statusCode || 500,
-        };
+      const payload = {
+        status: 'error',
+        type: (ioError as any)?.constructor?.name || 'Error',
+        message: (ioError as any)?.message || null,
+        statusCode: (ioError as any)?.statusCode || 500,
+      };
 
-        this.log(
-          5,
-          `Error on ${serviceName}:${methodName} execution: ${error}`
-        );
+      this.log(
+        5,
+        `Error on ${serviceName}:${methodName} execution: ${error}`,
+        context
+      );
+      await this.runServiceHook(
+        service,
+        'onError',
+        [socket, ioError, methodName],
+        context
+      );
 
-        if (callback) {
-          callback(payload);
-        } else {
-          socket.emit('error', payload);
+      if (call.ack) {
+        call.ack(payload);
+      } else {
+        socket.emit('error', payload);
+      }
+
+      if (
+        payload.statusCode === 429 &&
+        this.rateLimiter.isAbusive(serviceName, methodName, socket)
+      ) {
+        this.log(4, '[!] Disconnecting socket exceeding rate limits', context);
+        socket.disconnect(true);
+      }
+    }
+  }
+
+  /**
+   * Calls a service method within its event middlewares: before hooks in
+   * order, validation of the payload they may have normalized, the method,
+   * then whatever the outcome, in reverse order, the after hooks of the
+   * middlewares whose before hook completed
+   * @private
+   */
+  private async invokeServiceMethod(
+    service: any,
+    call: EventContext,
+    context: LogContext
+  ): Promise<void> {
+    const lists = this.eventMiddlewareLists.get(call.service);
+    const middlewares = [
+      ...(lists?.service || []),
+      ...(lists?.methods[call.method] || []),
+    ];
+
+    const handle = lists?.handle ?? this.appHandle;
+    const entered: typeof middlewares = [];
+
+    try {
+      for (const middleware of middlewares) {
+        if (middleware.before) {
+          await middleware.before(call, handle);
         }
+        entered.push(middleware);
       }
-    };
+      const validate = this.validatorLists.get(call.service)?.get(call.method);
+      if (validate) {
+        this.validatePayload(validate, call.data);
+      }
+      await service[call.method](call.socket, call.data, call.ack);
+    } catch (error) {
+      call.error = error;
+      throw error;
+    } finally {
+      // The call is settled: failing after hooks are only reported
+      for (const middleware of entered.reverse()) {
+        try {
+          if (middleware.after) {
+            await middleware.after(call, handle);
+          }
+        } catch (error) {
+          this.log(
+            3,
+            `[!] Error in after hook of ${middleware.constructor.name}: ${error}`,
+            context
+          );
+        }
+      }
+    }
   }
 }
 
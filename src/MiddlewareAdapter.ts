@@ -0,0 +1,262 @@
+/**
+ * @fileoverview MiddlewareAdapter - Middlewares as Fastify and Socket.IO hooks
+ *
+ * Instantiates the middleware entries of the server and of its components,
+ * rejects middlewares written to the former handle(appHandle) contract, and
+ * adapts middlewares to the hooks of controller routes and to the namespace
+ * middlewares of services.
+ *
+ * @author Ben Mz <0x42en@users.noreply.github.com>
+ * @version 2.1.1
+ * @since 2.2.0
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { Socket } from 'socket.io';
+import {
+  BaseEventMiddleware,
+  BaseMiddleware,
+  HttpMiddleware,
+  MiddlewareBase,
+  SocketMiddleware,
+} from './BaseClasses';
+import type { Constructor, Container } from './Container';
+import type {
+  AppHandle,
+  AppHandleCore,
+  MiddlewareContext,
+  MiddlewareEntry,
+} from './IOServer';
+import { IOServerError } from './IOServerError';
+
+/** Middleware of any kind */
+export type AnyMiddleware =
+  | BaseMiddleware<AppHandleCore>
+  | HttpMiddleware<AppHandleCore>
+  | SocketMiddleware<AppHandleCore>
+  | BaseEventMiddleware<AppHandleCore>;
+
+/**
+ * Whether a value is an instance of one of the middleware classes
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True for middleware instances
+ */
+export function isMiddleware(value: unknown): value is AnyMiddleware {
+  return value instanceof MiddlewareBase;
+}
+
+/**
+ * Orders middlewares by ascending priority, keeping the registration order
+ * of equal priorities
+ * @param {Array} middlewares - Middlewares to order
+ * @returns {Array} Ordered copy of the middlewares
+ */
+export function sortMiddlewares<T extends { priority?: number }>(
+  middlewares: T[]
+): T[] {
+  return [...middlewares].sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+}
+
+/**
+ * Rejects a BaseMiddleware written to the former contract, whose
+ * handle(appHandle) returned the Fastify or Socket.IO hook. Handles of a
+ * single parameter are called once with a context throwing on any access:
+ * a former handle returns its hook without reading it, a current one
+ * throws or reads nothing.
+ * @private
+ * @throws {IOServerError} When the handle returns a hook
+ */
+function checkMiddlewareContract(
+  middleware: AnyMiddleware,
+  name: string,
+  appHandle: AppHandle
+): void {
+  if (
+    !(middleware instanceof BaseMiddleware) ||
+    middleware.handle.length !== 1
+  ) {
+    return;
+  }
+  const probe = new Proxy({} as MiddlewareContext, {
+    get: () => {
+      throw new Error('Middleware contract probe');
+    },
+  });
+  let result: unknown;
+  try {
+    result = middleware.handle(probe, appHandle);
+  } catch {
+    return;
+  }
+  if (result instanceof Promise) {
+    result.catch(() => undefined);
+  }
+  if (typeof result === 'function') {
+    throw new IOServerError(
+      `Middleware ${name} implements the former handle(appHandle) contract, returning a hook: see "Migrating middlewares" in CHANGELOG.md`,
+      400
+    );
+  }
+}
+
+/**
+ * Fails closed when the handle of a BaseMiddleware returns a hook, as
+ * middlewares written to the former handle(appHandle) contract did: the
+ * hook would never run and the request would go through unguarded
+ * @private
+ * @throws {IOServerError} When the handle returned a function
+ */
+function checkMiddlewareResult(
+  result: unknown,
+  middleware: BaseMiddleware<AppHandleCore>
+): void {
+  if (typeof result === 'function') {
+    throw new IOServerError(
+      `Middleware ${middleware.constructor.name} returned a hook: handle(context, appHandle) must guard the request itself`,
+      500
+    );
+  }
+}
+
+/**
+ * Instantiates a middleware entry: classes with the handle of the
+ * middleware followed by their injected dependencies, factories with the
+ * handle of the middleware. Instances are used as is.
+ * @param {MiddlewareEntry} entry - Class, factory or instance
+ * @param {Function} createHandle - Creates the handle of a middleware by name
+ * @param {Container} container - Container resolving injected dependencies
+ * @returns Middleware instance
+ * @throws {IOServerError} When the entry does not provide a middleware
+ */
+export function createMiddleware<T extends AnyMiddleware>(
+  entry: MiddlewareEntry<T>,
+  createHandle: (name: string) => AppHandle,
+  container: Container
+): T {
+  if (typeof entry !== 'function') {
+    if (!isMiddleware(entry)) {
+      throw new IOServerError(
+        'Middlewares must extend a middleware class',
+        400
+      );
+    }
+    checkMiddlewareContract(
+      entry,
+      entry.constructor.name,
+      createHandle(entry.constructor.name)
+    );
+    return entry;
+  }
+
+  const name = entry.name || 'anonymous';
+  const handle = createHandle(name);
+  let middleware: unknown;
+  try {
+    middleware = isMiddleware(entry.prototype)
+      ? container.instantiate(entry as Constructor, [handle])
+      : (entry as (appHandle: AppHandle) => T)(handle);
+  } catch (error) {
+    throw new IOServerError(
+      `Error instantiating middleware ${name}: ${error}`,
+      500
+    );
+  }
+  if (!isMiddleware(middleware)) {
+    throw new IOServerError(
+      `Middleware factory ${name} must return a middleware instance`,
+      400
+    );
+  }
+  checkMiddlewareContract(middleware, name, handle);
+  return middleware as T;
+}
+
+/**
+ * Adapts a middleware to a hook of a controller route, at the stage the
+ * middleware declares, passing it the handle of the controller
+ * @param {BaseMiddleware | HttpMiddleware} middleware - Middleware to adapt
+ * @param {string} controllerName - Guarded controller
+ * @param {AppHandle} handle - Handle of the guarded controller
+ * @returns {Function} Fastify hook
+ */
+export function createHttpMiddleware(
+  middleware: BaseMiddleware<AppHandleCore> | HttpMiddleware<AppHandleCore>,
+  controllerName: string,
+  handle: AppHandle
+) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (middleware instanceof HttpMiddleware) {
+      await middleware.handle(request, reply, handle);
+      return;
+    }
+    request.metadata = request.metadata || {};
+    const result: unknown = await middleware.handle(
+      {
+        transport: 'http',
+        component: controllerName,
+        user: request.user,
+        headers: request.headers,
+        query: (request.query as Record<string, unknown>) || {},
+        ip: request.ip,
+        metadata: request.metadata,
+        request,
+      },
+      handle
+    );
+    checkMiddlewareResult(result, middleware);
+  };
+}
+
+/**
+ * Adapts a middleware to a namespace middleware of a service, passing it
+ * the handle of the service
+ * @param {BaseMiddleware | SocketMiddleware} middleware - Middleware to adapt
+ * @param {string} serviceName - Guarded service
+ * @param {AppHandle} handle - Handle of the guarded service
+ * @param {Function} refuse - Refuses the connection with an error
+ * @returns {Function} Socket.IO namespace middleware
+ */
+export function createSocketMiddleware(
+  middleware: BaseMiddleware<AppHandleCore> | SocketMiddleware<AppHandleCore>,
+  serviceName: string,
+  handle: AppHandle,
+  refuse: (
+    socket: Socket,
+    error: IOServerError,
+    next: (err?: Error) => void
+  ) => void
+) {
+  return async (socket: Socket, next: (err?: Error) => void) => {
+    try {
+      if (middleware instanceof SocketMiddleware) {
+        await middleware.handle(socket, handle);
+      } else {
+        const handshake = socket.handshake;
+        socket.data.metadata = socket.data.metadata || {};
+        const result: unknown = await middleware.handle(
+          {
+            transport: 'socket',
+            component: serviceName,
+            user: socket.data.user,
+            headers: handshake.headers,
+            query: handshake.query || {},
+            ip: handshake.address,
+            metadata: socket.data.metadata,
+            socket,
+          },
+          handle
+        );
+        checkMiddlewareResult(result, middleware);
+      }
+      next();
+    } catch (error) {
+      refuse(
+        socket,
+        error instanceof IOServerError
+          ? error
+          : new IOServerError((error as Error)?.message || `${error}`, 500),
+        next
+      );
+    }
+  };
+}
@@ -0,0 +1,375 @@
+/**
+ * @fileoverview OpenApiGenerator - OpenAPI document generation for IOServer controllers
+ *
+ * Converts the contract of registered controller routes into an OpenAPI 3.1
+ * document. Fastify route schemas are JSON Schemas, so they are published as
+ * is: `params`, `querystring` and `headers` become parameters, `body` the
+ * request body and `response` the responses.
+ *
+ * @author Ben Mz <0x42en@users.noreply.github.com>
+ * @version 2.1.1
+ * @since 2.2.0
+ */
+
+import type { RouteContract } from './IOServer';
+
+const OPENAPI_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+];
+
+const PARAMETER_LOCATIONS: Record<string, string> = {
+  params: 'path',
+  querystring: 'query',
+  query: 'query',
+  headers: 'header',
+};
+
+/**
+ * Publication settings of the OpenAPI document
+ * @interface OpenApiOptions
+ */
+export interface OpenApiOptions {
+  /** URL serving the JSON document - defaults to '/openapi.json' */
+  url?: string;
+  /**
+   * URL serving a Swagger UI of the document, `true` for '/docs' - disabled
+   * by default
+   */
+  ui?: boolean | string;
+  /** OpenAPI info object - title and version default to IOServer's */
+  info?: {
+    title?: string;
+    version?: string;
+    description?: string;
+    [field: string]: unknown;
+  };
+  /** OpenAPI server objects, e.g. `[{ url: 'https://api.example.com' }]` */
+  servers?: Array<{ url: string; description?: string }>;
+}
+
+/**
+ * Server-level content of the generated document
+ * @interface OpenApiDocumentOptions
+ */
+export interface OpenApiDocumentOptions {
+  info: { title: string; version: string; [field: string]: unknown };
+  servers?: Array<{ url: string; description?: string }>;
+  /** Security schemes by strategy name */
+  securitySchemes?: Record<string, Record<string, unknown>>;
+  /** Shared schemas added to Fastify, by `$id` */
+  schemas?: Record<string, unknown>;
+}
+
+/**
+ * Converts a Fastify URL (`/users/:id`, `/files/*`) into an OpenAPI path
+ * @param {string} url - Fastify route URL
+ * @returns {string} OpenAPI path template
+ */
+export function toOpenApiPath(url: string): string {
+  return url
+    .replace(/:(\w+)(\([^)]*\))?/g, '{$1}')
+    .replace(/\*$/, '{wildcard}');
+}
+
+/**
+ * Tells whether a schema value is a JSON object
+ * @private
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function componentName(id: string): string {
+  return id.replace(/#$/, '').replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+/**
+ * Rewrites `$ref`s to Fastify shared schemas (`user#`, `user#/properties/id`)
+ * into references to the document components
+ * @private
+ */
+function rewriteRefs(value: unknown, names: Map<string, string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => rewriteRefs(item, names));
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, item]) => {
+    if (key === '$ref' && typeof item === 'string') {
+      const [id, pointer = ''] = item.split('#');
+      const name = names.get(id);
+      result.$ref =
+        name !== undefined ? `#/components/schemas/${name}${pointer}` : item;
+    } else {
+      result[key] = rewriteRefs(item, names);
+    }
+  });
+  return result;
+}
+
+/**
+ * Turns Fastify shared schemas into document components (OpenAPI and
+ * AsyncAPI share the `#/components/schemas` layout)
+ * @param {Record<string, unknown>} shared - Shared schemas by `$id`
+ * @returns Component schemas, and a function rewriting `$ref`s to them
+ */
+export function createSchemaComponents(shared: Record<string, unknown> = {}): {
+  schemas: Record<string, unknown>;
+  rewrite: (document: Record<string, unknown>) => Record<string, unknown>;
+} {
+  const names = new Map<string, string>();
+  const schemas: Record<string, unknown> = {};
+  Object.entries(shared).forEach(([id, schema]) => {
+    const name = componentName(id);
+    names.set(id.replace(/#$/, ''), name);
+    const component = isObject(schema) ? { ...schema } : {};
+    delete component.$id;
+    schemas[name] = component;
+  });
+
+  return {
+    schemas,
+    // Rewriting references keeps the shape of the document
+    rewrite: document =>
+      rewriteRefs(document, names) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Wraps a schema into a media type map, unless it already is one
+ * @private
+ */
+function toContent(schema: Record<string, unknown>): Record<string, unknown> {
+  const { content } = schema;
+  if (
+    isObject(content) &&
+    Object.values(content).every(media => isObject(media) && media.schema)
+  ) {
+    return content;
+  }
+  return { 'application/json': { schema } };
+}
+
+function buildParameters(
+  schema: Record<string, unknown>,
+  path: string
+): Record<string, unknown>[] {
+  const parameters: Record<string, unknown>[] = [];
+
+  Object.entries(PARAMETER_LOCATIONS).forEach(([field, location]) => {
+    const part = schema[field];
+    if (!isObject(part) || !isObject(part.properties)) {
+      return;
+    }
+    const required = Array.isArray(part.required) ? part.required : [];
+    Object.entries(part.properties).forEach(([name, property]) => {
+      parameters.push({
+        name,
+        in: location,
+        required: location === 'path' || required.includes(name),
+        ...(isObject(property) && property.description
+          ? { description: property.description }
+          : {}),
+        schema: property,
+      });
+    });
+  });
+
+  // Path parameters must be declared, even without a params schema
+  (path.match(/\{\w+\}/g) || []).forEach(template => {
+    const name = template.slice(1, -1);
+    if (!parameters.some(p => p.in === 'path' && p.name === name)) {
+      parameters.push({
+        name,
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+      });
+    }
+  });
+
+  return parameters;
+}
+
+function buildResponses(
+  route: RouteContract,
+  schema: Record<string, unknown>,
+  secured: boolean
+): Record<string, unknown> {
+  const responses: Record<string, unknown> = {};
+
+  const declared = isObject(schema.response) ? schema.response : {};
+  Object.entries(declared).forEach(([status, response]) => {
+    const fields = isObject(response) ? response : {};
+    responses[/^\dxx$/i.test(status) ? status.toUpperCase() : status] = {
+      description: fields.description || 'Default Response',
+      content: toContent(fields),
+    };
+  });
+  if (Object.keys(responses).length === 0) {
+    responses['200'] = { description: 'Default Response' };
+  }
+
+  if (schema.body || schema.params || schema.querystring || schema.query) {
+    responses['400'] ??= { description: 'Invalid request' };
+  }
+  if (secured && route.auth !== false) {
+    responses['401'] ??= { description: 'Authentication required' };
+  }
+  if (secured && typeof route.auth === 'object') {
+    responses['403'] ??= { description: 'Access denied' };
+  }
+  if (route.rateLimited) {
+    responses['429'] ??= { description: 'Too many requests' };
+  }
+
+  return responses;
+}
+
+function buildOperation(
+  route: RouteContract,
+  path: string,
+  security: Record<string, string[]>[]
+): Record<string, unknown> {
+  const schema = route.schema || {};
+  const operation: Record<string, unknown> = {
+    tags: schema.tags || [route.controller],
+  };
+
+  ['summary', 'description', 'operationId', 'deprecated'].forEach(field => {
+    if (schema[field] !== undefined) {
+      operation[field] = schema[field];
+    }
+  });
+
+  const parameters = buildParameters(schema, path);
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  if (isObject(schema.body)) {
+    operation.requestBody = {
+      required: true,
+      content: toContent(schema.body),
+    };
+  }
+
+  const secured = security.length > 0;
+  operation.responses = buildResponses(route, schema, secured);
+
+  if (secured) {
+    // Public routes still read credentials when sent
+    operation.security =
+      route.auth === false ? [...security, {}] : [...security];
+  }
+
+  return operation;
+}
+
+/**
+ * Generates an OpenAPI 3.1 document describing controller routes
+ *
+ * Routes whose schema sets `hide: true` are left out. Schemas may carry
+ * `summary`, `description`, `tags`, `operationId` and `deprecated` fields,
+ * copied to the operation.
+ *
+ * @param {RouteContract[]} routes - Registered controller routes
+ * @param {OpenApiDocumentOptions} options - Info, servers and components
+ * @returns {Record<string, unknown>} OpenAPI document
+ */
+export function generateOpenApi(
+  routes: RouteContract[],
+  options: OpenApiDocumentOptions
+): Record<string, unknown> {
+  const { schemas, rewrite } = createSchemaComponents(options.schemas);
+
+  const securitySchemes = options.securitySchemes || {};
+  const security = Object.keys(securitySchemes).map(name => ({ [name]: [] }));
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  routes.forEach(route => {
+    if (route.schema?.hide) {
+      return;
+    }
+    const path = toOpenApiPath(route.url);
+    route.methods
+      .map(method => method.toLowerCase())
+      .filter(method => OPENAPI_METHODS.includes(method))
+      .forEach(method => {
+        paths[path] ??= {};
+        paths[path][method] = buildOperation(route, path, security);
+      });
+  });
+
+  const document: Record<string, unknown> = {
+    openapi: '3.1.0',
+    info: options.info,
+  };
+  if (options.servers && options.servers.length > 0) {
+    document.servers = options.servers;
+  }
+  document.paths = paths;
+
+  const components: Record<string, unknown> = {};
+  if (Object.keys(schemas).length > 0) {
+    components.schemas = schemas;
+  }
+  if (security.length > 0) {
+    components.securitySchemes = securitySchemes;
+  }
+  if (Object.keys(components).length > 0) {
+    document.components = components;
+  }
+
+  return rewrite(document);
+}
+
+/**
+ * Renders the Swagger UI page of a document
+ * @param {string} documentUrl - URL of the OpenAPI document
+ * @param {string} assetsUrl - URL prefix of the Swagger UI assets
+ * @param {string} title - Page title
+ * @returns {string} HTML page
+ */
+export function renderSwaggerUi(
+  documentUrl: string,
+  assetsUrl: string,
+  title: string
+): string {
+  const escape = (text: string) =>
+    text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${escape(title)}</title>
+    <link rel="stylesheet" href="${escape(assetsUrl)}/swagger-ui.css" />
+    <link rel="icon" type="image/png" href="${escape(assetsUrl)}/favicon-32x32.png" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="${escape(assetsUrl)}/swagger-ui-bundle.js"></script>
+    <script src="${escape(assetsUrl)}/swagger-ui-standalone-preset.js"></script>
+    <script>
+      window.ui = SwaggerUIBundle({
+        url: ${JSON.stringify(documentUrl).replace(/</g, '\\u003c')},
+        dom_id: '#swagger-ui',
+        presets: [SwaggerUIBundle.presets.apis, SwaggerUIStandalonePreset],
+        layout: 'StandaloneLayout',
+      });
+    </script>
+  </body>
+</html>
+`;
+}
@@ -0,0 +1,471 @@
+/**
+ * @fileoverview RateLimiter - Rate limiting shared by HTTP routes and services
+ *
+ * Rules count calls in a pluggable store, keyed by socket id, user id, IP
+ * address or a custom key. Controller routes and service methods share the
+ * same store, so a rule scope may span both transports.
+ *
+ * @author Ben Mz <0x42en@users.noreply.github.com>
+ * @version 2.1.1
+ * @since 2.2.0
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { Socket } from 'socket.io';
+import { IOServerError } from './IOServerError';
+import type { AuthUser } from './Auth';
+
+/** Counting algorithm of a rate limit rule */
+export type RateLimitAlgorithm = 'token-bucket' | 'sliding-window';
+
+/**
+ * Identity calls are counted against: the socket (IP address over HTTP), the
+ * authenticated user (IP address when anonymous), the IP address, or a custom
+ * key
+ */
+export type RateLimitKey =
+  'socket' | 'user' | 'ip' | ((context: RateLimitContext) => string);
+
+/**
+ * Rate limit applied to a route, a service or a service method
+ * @interface RateLimitRule
+ */
+export interface RateLimitRule {
+  /** Calls allowed per window */
+  limit: number;
+  /** Window duration in milliseconds */
+  window: number;
+  /**
+   * 'token-bucket' allows bursts of `limit` calls refilled continuously,
+   * 'sliding-window' smooths the count over the last window - defaults to
+   * 'token-bucket'
+   */
+  algorithm?: RateLimitAlgorithm;
+  /** Identity calls are counted against - defaults to 'socket' */
+  key?: RateLimitKey;
+  /**
+   * Counter name shared by every rule with the same scope, e.g. to share a
+   * budget between a route and a service method - defaults to the rule target
+   */
+  scope?: string;
+  /** Disconnect sockets after this many consecutive rejected calls */
+  disconnectAfter?: number;
+}
+
+/**
+ * Server-wide rate limiting configuration
+ * @interface RateLimitOptions
+ */
+export interface RateLimitOptions {
+  /** Store keeping counters - defaults to an in-memory store */
+  store?: RateLimitStore;
+  /** Rule applied to every service call and controller route */
+  global?: RateLimitRule;
+}
+
+/**
+ * Caller identity handed to key functions
+ * @interface RateLimitContext
+ */
+export interface RateLimitContext {
+  transport: 'http' | 'socket';
+  /** Client IP address */
+  ip: string;
+  /** Socket id (socket only) */
+  socketId?: string;
+  /** Authenticated user, when any */
+  user?: AuthUser;
+}
+
+/**
+ * Outcome of a counted call
+ * @interface RateLimitResult
+ */
+export interface RateLimitResult {
+  /** Whether the call is within the limit */
+  allowed: boolean;
+  /** Calls left in the current window */
+  remaining: number;
+  /** Milliseconds until a call is allowed again (0 when allowed) */
+  retryAfter: number;
+}
+
+/**
+ * Storage of rate limit counters. Implement it on top of a shared database
+ * (e.g. Redis) to enforce limits across instances.
+ * @interface RateLimitStore
+ */
+export interface RateLimitStore {
+  /** Counts one call for the key under the given rule */
+  hit(
+    key: string,
+    rule: RateLimitRule
+  ): Promise<RateLimitResult> | RateLimitResult;
+  /** Forgets the counters of a key */
+  reset(key: string): Promise<void> | void;
+}
+
+/** Rule together with the target it is counted for */
+export type ScopedRateLimit = { scope: string; rule: RateLimitRule };
+
+interface CounterEntry {
+  /** Token bucket: tokens left; sliding window: calls of current window */
+  value: number;
+  /** Sliding window: calls of the previous window */
+  previous: number;
+  /** Token bucket: last refill; sliding window: current window start */
+  timestamp: number;
+  window: number;
+}
+
+/**
+ * In-memory counters of a single process
+ * @class MemoryRateLimitStore
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private static readonly PRUNE_INTERVAL = 60000;
+
+  private readonly counters: Map<string, CounterEntry> = new Map();
+  private lastPrune: number = Date.now();
+
+  hit(key: string, rule: RateLimitRule): RateLimitResult {
+    const now = Date.now();
+    this.prune(now);
+
+    return rule.algorithm === 'sliding-window'
+      ? this.slidingWindow(key, rule, now)
+      : this.tokenBucket(key, rule, now);
+  }
+
+  reset(key: string): void {
+    this.counters.delete(key);
+  }
+
+  private tokenBucket(
+    key: string,
+    rule: RateLimitRule,
+    now: number
+  ): RateLimitResult {
+    const rate = rule.limit / rule.window;
+    const entry = this.counters.get(key) || {
+      value: rule.limit,
+      previous: 0,
+      timestamp: now,
+      window: rule.window,
+    };
+    entry.value = Math.min(
+      rule.limit,
+      entry.value + (now - entry.timestamp) * rate
+    );
+    entry.timestamp = now;
+    this.counters.set(key, entry);
+
+    if (entry.value < 1) {
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfter: Math.ceil((1 - entry.value) / rate),
+      };
+    }
+    entry.value -= 1;
+    return { allowed: true, remaining: Math.floor(entry.value), retryAfter: 0 };
+  }
+
+  private slidingWindow(
+    key: string,
+    rule: RateLimitRule,
+    now: number
+  ): RateLimitResult {
+    let entry = this.counters.get(key);
+    if (!entry) {
+      entry = { value: 0, previous: 0, timestamp: now, window: rule.window };
+      this.counters.set(key, entry);
+    }
+
+    const elapsedWindows = Math.floor((now - entry.timestamp) / rule.window);
+    if (elapsedWindows > 0) {
+      entry.previous = elapsedWindows === 1 ? entry.value : 0;
+      entry.value = 0;
+      entry.timestamp += elapsedWindows * rule.window;
+    }
+
+    // Weight the previous window by its share of the sliding window
+    const elapsed = now - entry.timestamp;
+    const weight = (rule.window - elapsed) / rule.window;
+    const count = entry.previous * weight + entry.value;
+
+    if (count + 1 > rule.limit) {
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfter: Math.max(1, rule.window - elapsed),
+      };
+    }
+    entry.value += 1;
+    return {
+      allowed: true,
+      remaining: Math.max(0, Math.floor(rule.limit - count - 1)),
+      retryAfter: 0,
+    };
+  }
+
+  private prune(now: number): void {
+    if (now - this.lastPrune < MemoryRateLimitStore.PRUNE_INTERVAL) {
+      return;
+    }
+    this.lastPrune = now;
+    this.counters.forEach((entry, key) => {
+      if (now - entry.timestamp > entry.window * 2) {
+        this.counters.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Rejects rules that could never allow a call
+ * @param {RateLimitRule} rule - Rule to check
+ * @param {string} target - Route or service method, for error messages
+ * @throws {IOServerError} When the rule is invalid
+ */
+export function checkRateLimitRule(rule: RateLimitRule, target: string): void {
+  if (
+    !(rule.limit > 0) ||
+    !(rule.window > 0) ||
+    (rule.algorithm !== undefined &&
+      rule.algorithm !== 'token-bucket' &&
+      rule.algorithm !== 'sliding-window')
+  ) {
+    throw new IOServerError(`Invalid rate limit on ${target}`, 500);
+  }
+}
+
+/**
+ * Builds the identity part of a counter key
+ * @param {RateLimitRule} rule - Rule being applied
+ * @param {RateLimitContext} context - Caller identity
+ * @returns {string} Identity key
+ */
+export function getRateLimitKey(
+  rule: RateLimitRule,
+  context: RateLimitContext
+): string {
+  const key = rule.key || 'socket';
+  if (typeof key === 'function') {
+    return `custom:${key(context)}`;
+  }
+
+  // HTTP and Socket.IO may report IPv4 clients as IPv4-mapped IPv6 addresses
+  const ip = `ip:${context.ip.replace(/^::ffff:/, '')}`;
+  switch (key) {
+    case 'user': {
+      const id = context.user?.id ?? context.user?.sub;
+      return id !== undefined ? `user:${id}` : ip;
+    }
+    case 'socket':
+      return context.socketId ? `socket:${context.socketId}` : ip;
+    default:
+      return ip;
+  }
+}
+
+/**
+ * Rate limits of a server: counts the calls of controller routes and service
+ * methods against their rules, and tracks the sockets rejected in a row
+ * @class RateLimiter
+ */
+export class RateLimiter {
+  private readonly store: RateLimitStore;
+  private readonly global: RateLimitRule | undefined;
+  private readonly services: Map<
+    string,
+    {
+      rateLimit?: RateLimitRule | false;
+      methods: Record<string, RateLimitRule | false>;
+    }
+  > = new Map();
+  private readonly rejections: WeakMap<Socket, number> = new WeakMap();
+
+  /**
+   * @param {RateLimitOptions} options - Server-wide configuration
+   * @throws {IOServerError} When the global rule is invalid
+   */
+  constructor(options: RateLimitOptions = {}) {
+    this.store = options.store || new MemoryRateLimitStore();
+    this.global = options.global;
+    if (this.global) {
+      checkRateLimitRule(this.global, 'global scope');
+    }
+  }
+
+  /**
+   * Sets the rules of a service and of its methods
+   * @param {string} name - Service name
+   * @param {RateLimitRule | false} rateLimit - Rule of the whole service
+   * @param {Record<string, RateLimitRule | false>} methods - Method rules
+   */
+  addService(
+    name: string,
+    rateLimit: RateLimitRule | false | undefined,
+    methods: Record<string, RateLimitRule | false> = {}
+  ): void {
+    this.services.set(name, { rateLimit, methods });
+  }
+
+  /**
+   * Forgets the rules of a service
+   * @param {string} name - Service name
+   */
+  removeService(name: string): void {
+    this.services.delete(name);
+  }
+
+  /**
+   * Lists the rate limits applying to a controller route: the global rule
+   * and the route (or controller) rule, unless one of them is false
+   * @param {string} target - Route description, e.g. `route GET /users`
+   * @param {RateLimitRule | false} routeRule - Rule of the route
+   * @param {string} controllerName - Controller serving the route
+   * @param {RateLimitRule | false} controllerRule - Rule of the controller
+   * @returns {ScopedRateLimit[]} Limits to count the route calls against
+   */
+  getRouteLimits(
+    target: string,
+    routeRule: RateLimitRule | false | undefined,
+    controllerName: string,
+    controllerRule?: RateLimitRule | false
+  ): ScopedRateLimit[] {
+    const own = routeRule ?? controllerRule;
+    if (own === false) {
+      return [];
+    }
+
+    const limits: ScopedRateLimit[] = [];
+    if (this.global) {
+      limits.push({ scope: 'global', rule: this.global });
+    }
+    if (own) {
+      limits.push({
+        scope:
+          routeRule !== undefined ? target : `controller ${controllerName}`,
+        rule: own,
+      });
+    }
+    return limits;
+  }
+
+  /**
+   * Creates the onRequest hook counting controller route calls
+   * @param {ScopedRateLimit[]} limits - Limits of the route
+   * @returns {Function} Fastify hook answering 429 with Retry-After
+   */
+  createHook(limits: ScopedRateLimit[]) {
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+      const exceeded = await this.consume(limits, {
+        transport: 'http',
+        ip: request.ip,
+        user: request.user,
+      });
+      if (exceeded) {
+        reply.header('Retry-After', Math.ceil(exceeded.retryAfter / 1000));
+        throw new IOServerError('Too many requests', 429);
+      }
+    };
+  }
+
+  /**
+   * Counts a service call, keeping track of consecutive rejections
+   * @param {string} serviceName - Called service
+   * @param {string} methodName - Called method
+   * @param {Socket} socket - Calling socket
+   * @throws {IOServerError} 429 when a limit is exceeded
+   */
+  async enforce(
+    serviceName: string,
+    methodName: string,
+    socket: Socket
+  ): Promise<void> {
+    const limits = this.getMethodLimits(serviceName, methodName);
+    if (limits.length === 0) {
+      return;
+    }
+
+    const exceeded = await this.consume(limits, {
+      transport: 'socket',
+      ip: socket.handshake.address,
+      socketId: socket.id,
+      user: socket.data.user,
+    });
+    if (!exceeded) {
+      this.rejections.delete(socket);
+      return;
+    }
+
+    this.rejections.set(socket, (this.rejections.get(socket) || 0) + 1);
+    throw new IOServerError('Too many requests', 429);
+  }
+
+  /**
+   * Whether a socket exceeded the rejection threshold of one of its limits
+   * @param {string} serviceName - Called service
+   * @param {string} methodName - Called method
+   * @param {Socket} socket - Calling socket
+   * @returns {boolean} True when the socket should be disconnected
+   */
+  isAbusive(serviceName: string, methodName: string, socket: Socket): boolean {
+    const rejections = this.rejections.get(socket) || 0;
+    return this.getMethodLimits(serviceName, methodName).some(
+      ({ rule }) =>
+        rule.disconnectAfter !== undefined && rejections >= rule.disconnectAfter
+    );
+  }
+
+  /**
+   * Lists the rate limits applying to a service method: the global, service
+   * and method rules, unless the service or method opts out with false
+   */
+  private getMethodLimits(
+    serviceName: string,
+    methodName: string
+  ): ScopedRateLimit[] {
+    const config = this.services.get(serviceName);
+    const service = config?.rateLimit;
+    const method = config?.methods[methodName];
+    if (method === false) {
+      return [];
+    }
+
+    const limits: ScopedRateLimit[] = [];
+    if (this.global && service !== false) {
+      limits.push({ scope: 'global', rule: this.global });
+    }
+    if (service) {
+      limits.push({ scope: `service ${serviceName}`, rule: service });
+    }
+    if (method) {
+      limits.push({
+        scope: `service ${serviceName}:${methodName}`,
+        rule: method,
+      });
+    }
+    return limits;
+  }
+
+  /**
+   * Counts a call against each rate limit
+   * @returns The first exceeded limit, undefined when the call is allowed
+   */
+  private async consume(
+    limits: ScopedRateLimit[],
+    context: RateLimitContext
+  ): Promise<(RateLimitResult & { rule: RateLimitRule }) | undefined> {
+    for (const { scope, rule } of limits) {
+      const key = `${rule.scope || scope}|${getRateLimitKey(rule, context)}`;
+      const result = await this.store.hit(key, rule);
+      if (!result.allowed) {
+        return { ...result, rule };
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * @fileoverview RouteLoader - Route file loading for IOServer controllers
+ *
+ * Reads the routes of a controller from JSON or YAML files: a single
+ * `<name>.json|yaml|yml` file and/or a `<name>/` directory of fragments,
+ * environment overlays (`<name>.<env>.json`) and `$ref` includes of shared
+ * snippets. Every route keeps track of the file and entry it comes from, so
+ * errors point at the exact declaration.
+ *
+ * @author Ben Mz <0x42en@users.noreply.github.com>
+ * @version 2.1.1
+ * @since 2.2.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { ControllerRoute } from './IOServer';
+import { IOServerError } from './IOServerError';
+
+const EXTENSIONS = ['.json', '.yaml', '.yml'];
+const FILE_REF = /\.(json|ya?ml)$/i;
+
+/**
+ * Route declaration together with its origin
+ * @interface RouteDefinition
+ */
+export interface RouteDefinition {
+  /** Route options as declared, checked by the server on registration */
+  route: ControllerRoute;
+  /** Origin of the declaration, e.g. `routes/api.yaml[2]` */
+  source: string;
+}
+
+function displayPath(file: string): string {
+  return path.relative(process.cwd(), file) || file;
+}
+
+function isRouteFile(file: string): boolean {
+  return EXTENSIONS.includes(path.extname(file).toLowerCase());
+}
+
+/**
+ * Parses a JSON or YAML document, reporting the failing line
+ * @private
+ */
+function parseDocument(file: string, cache: Map<string, unknown>): unknown {
+  if (cache.has(file)) {
+    return cache.get(file);
+  }
+
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new IOServerError(
+      `Unable to read ${displayPath(file)}: ${(error as Error).message}`,
+      500
+    );
+  }
+
+  let document: unknown;
+  try {
+    if (path.extname(file).toLowerCase() === '.json') {
+      document = JSON.parse(content);
+    } else {
+      document = parseYaml(content);
+    }
+  } catch (error) {
+    let message = (error as Error).message;
+    const position = message.match(/at position (\d+)/);
+    if (position) {
+      const before = content.slice(0, Number(position[1])).split('\n');
+      message += ` (line ${before.length}, column ${before[before.length - 1].length + 1})`;
+    }
+    throw new IOServerError(
+      `Invalid syntax in ${displayPath(file)}: ${message}`,
+      500
+    );
+  }
+
+  cache.set(file, document);
+  return document;
+}
+
+/**
+ * Resolves a JSON pointer (`/definitions/user`) inside a document
+ * @private
+ */
+function resolvePointer(
+  document: unknown,
+  pointer: string,
+  ref: string
+): unknown {
+  if (!pointer || pointer === '/') {
+    return document;
+  }
+
+  return pointer
+    .replace(/^\//, '')
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((value: unknown, segment) => {
+      if (value === null || typeof value !== 'object' || !(segment in value)) {
+        throw new IOServerError(`Unable to resolve $ref ${ref}`, 500);
+      }
+      return (value as Record<string, unknown>)[segment];
+    }, document);
+}
+
+/**
+ * Replaces `{ "$ref": "./file.json#/pointer" }` objects with the referenced
+ * content. References without a JSON/YAML file (e.g. `#/definitions/x` or
+ * Fastify shared schemas) are left untouched.
+ * @private
+ */
+function resolveRefs(
+  value: unknown,
+  file: string,
+  stack: string[],
+  cache: Map<string, unknown>
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => resolveRefs(item, file, stack, cache));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const { $ref, ...siblings } = value as Record<string, unknown>;
+  const resolvedSiblings: Record<string, unknown> = {};
+  Object.entries(siblings).forEach(([key, item]) => {
+    resolvedSiblings[key] = resolveRefs(item, file, stack, cache);
+  });
+
+  if (typeof $ref !== 'string' || !FILE_REF.test($ref.split('#')[0])) {
+    return $ref === undefined
+      ? resolvedSiblings
+      : { $ref, ...resolvedSiblings };
+  }
+
+  const [refPath, pointer = ''] = $ref.split('#');
+  const target = path.resolve(path.dirname(file), refPath);
+  if (stack.includes(target)) {
+    throw new IOServerError(
+      `Circular $ref ${[...stack, target].map(displayPath).join(' -> ')}`,
+      500
+    );
+  }
+
+  const document = parseDocument(target, cache);
+  const resolved = resolveRefs(
+    resolvePointer(document, pointer, $ref),
+    target,
+    [...stack, target],
+    cache
+  );
+
+  // Keys next to $ref extend or override the referenced object
+  if (
+    Object.keys(resolvedSiblings).length > 0 &&
+    resolved !== null &&
+    typeof resolved === 'object' &&
+    !Array.isArray(resolved)
+  ) {
+    return { ...resolved, ...resolvedSiblings };
+  }
+  return resolved;
+}
+
+/**
+ * Reads the route entries of a file
+ * @private
+ */
+function readRouteFile(
+  file: string,
+  cache: Map<string, unknown>
+): RouteDefinition[] {
+  const document = resolveRefs(parseDocument(file, cache), file, [file], cache);
+  // An empty YAML file holds no route
+  if (document === null || document === undefined) {
+    return [];
+  }
+  if (!Array.isArray(document)) {
+    throw new IOServerError(
+      `Invalid routes in ${displayPath(file)}: expected a list of routes`,
+      500
+    );
+  }
+
+  return document.map((route, index) => {
+    const source = `${displayPath(file)}[${index}]`;
+    if (route === null || typeof route !== 'object' || Array.isArray(route)) {
+      throw new IOServerError(
+        `Invalid route ${source}: expected a route object`,
+        500
+      );
+    }
+    return { route: route as ControllerRoute, source };
+  });
+}
+
+function routeKey(route: ControllerRoute): string {
+  return `${([] as string[]).concat(route.method).join(',')} ${route.url}`;
+}
+
+/**
+ * Lists the route files of a controller: `<name>.<ext>` files and the
+ * fragments of a `<name>/` directory, with their overlays for `env`, and
+ * the fragments skipped as overlays of other environments
+ * @private
+ */
+function findRouteFiles(
+  routesPath: string,
+  name: string,
+  env?: string
+): { files: string[]; overlays: string[]; skipped: string[] } {
+  const base = path.join(routesPath, name);
+  const files: string[] = [];
+  const overlays: string[] = [];
+  const skipped: string[] = [];
+
+  EXTENSIONS.forEach(ext => {
+    if (fs.existsSync(`${base}${ext}`)) {
+      files.push(`${base}${ext}`);
+    }
+    if (env && fs.existsSync(`${base}.${env}${ext}`)) {
+      overlays.push(`${base}.${env}${ext}`);
+    }
+  });
+
+  if (fs.existsSync(base) && fs.statSync(base).isDirectory()) {
+    fs.readdirSync(base)
+      .filter(entry => isRouteFile(entry))
+      .sort()
+      .forEach(entry => {
+        const stem = path.basename(entry, path.extname(entry));
+        // Fragments hold no dot, `<fragment>.<env>` files are overlays
+        const dot = stem.indexOf('.');
+        if (dot < 0) {
+          files.push(path.join(base, entry));
+        } else if (env && stem.slice(dot + 1) === env) {
+          overlays.push(path.join(base, entry));
+        } else {
+          skipped.push(path.join(base, entry));
+        }
+      });
+  }
+
+  return { files, overlays, skipped };
+}
+
+/**
+ * Loads the routes of a controller from the routes directory
+ *
+ * Overlay entries are merged into the base entry with the same method and
+ * URL, or appended when there is none. Only the overlays of `env` are
+ * applied: without it, every fragment named with a dot is skipped. Applied
+ * overlays and skipped fragments are logged.
+ *
+ * @param {string} routesPath - Routes directory
+ * @param {string} name - Controller name
+ * @param {string} env - Environment selecting overlays (e.g. 'dev')
+ * @param {Function} log - Receives the applied overlays and skipped fragments
+ * @returns {RouteDefinition[] | undefined} Routes, undefined without route file
+ * @throws {IOServerError} When a file cannot be read, parsed or resolved
+ */
+export function loadRoutes(
+  routesPath: string,
+  name: string,
+  env?: string,
+  log: (level: number, text: string) => void = () => undefined
+): RouteDefinition[] | undefined {
+  const { files, overlays, skipped } = findRouteFiles(routesPath, name, env);
+  skipped.forEach(file => {
+    log(
+      4,
+      env
+        ? `[!] Route file ${displayPath(file)} skipped: not an overlay of ${env}`
+        : `[!] Route file ${displayPath(file)} skipped: overlays require env`
+    );
+  });
+  if (files.length === 0 && overlays.length === 0) {
+    return undefined;
+  }
+
+  const cache = new Map<string, unknown>();
+  const definitions = files.flatMap(file => readRouteFile(file, cache));
+
+  overlays.forEach(file => {
+    log(6, `[*] Applying ${env} overlay ${displayPath(file)}`);
+    readRouteFile(file, cache).forEach(overlay => {
+      const existing = definitions.find(
+        definition => routeKey(definition.route) === routeKey(overlay.route)
+      );
+      if (existing) {
+        existing.route = { ...existing.route, ...overlay.route };
+        existing.source = `${overlay.source} (overlay of ${existing.source})`;
+      } else {
+        definitions.push(overlay);
+      }
+    });
+  });
+
+  return definitions;
+}
@@ -0,0 +1,654 @@
+/**
+ * @fileoverview Scheduler - Watcher lifecycle and scheduled jobs
+ *
+ * Starts and stops watchers, and runs the jobs they declare on cron
+ * expressions or fixed intervals. The scheduler owns the timers: a job never
+ * runs twice at the same time, and the outcome of its last run is recorded
+ * for inspection.
+ *
+ * @author Ben Mz <0x42en@users.noreply.github.com>
+ * @version 2.1.1
+ * @since 2.2.0
+ */
+
+import { IOServerError } from './IOServerError';
+
+/** Names of the methods of a watcher class */
+export type WatcherMethod<W> = {
+  [K in keyof W]: W[K] extends (...args: never[]) => unknown ? K : never;
+}[keyof W] &
+  string;
+
+/**
+ * Job declared by a watcher, its method checked against the watcher class
+ * `W` when given
+ * @interface WatcherSchedule
+ */
+export interface WatcherSchedule<W = Record<string, () => unknown>> {
+  /** Watcher method run by the job */
+  method: WatcherMethod<W>;
+  /** Job name, unique within the watcher - defaults to the method name */
+  name?: string;
+  /**
+   * Cron expression in local time, `minute hour day-of-month month
+   * day-of-week` optionally preceded by seconds, or one of `@yearly`,
+   * `@monthly`, `@weekly`, `@daily` and `@hourly`
+   */
+  cron?: string;
+  /** Milliseconds between two runs, when no cron expression is given */
+  interval?: number;
+  /** Maximum random delay in milliseconds added to each interval - defaults to 0 */
+  jitter?: number;
+  /** Also run the job when the server starts - defaults to false */
+  runOnStart?: boolean;
+}
+
+/**
+ * State of a scheduled job
+ * @interface WatcherJobStatus
+ */
+export interface WatcherJobStatus {
+  /** Watcher declaring the job */
+  watcher: string;
+  /** Job name */
+  name: string;
+  /** Cron expression of the job */
+  cron?: string;
+  /** Interval of the job in milliseconds */
+  interval?: number;
+  /** Whether a run is in progress */
+  running: boolean;
+  /** Completed runs */
+  runs: number;
+  /** Runs skipped because the previous one was still in progress */
+  skipped: number;
+  /** Start time of the last run */
+  lastRun?: Date;
+  /** Duration of the last completed run in milliseconds */
+  lastDuration?: number;
+  /** Error message of the last completed run, when it failed */
+  lastError?: string;
+  /** Time of the next scheduled run */
+  nextRun?: Date;
+}
+
+/** Lifecycle hooks of a watcher */
+interface WatcherHooks {
+  watch?(): Promise<void>;
+  stop?(): Promise<void> | void;
+}
+
+/** Scheduled job of a watcher */
+interface Job {
+  run: () => Promise<void> | void;
+  cron?: CronExpression;
+  jitter: number;
+  runOnStart: boolean;
+  timer?: NodeJS.Timeout;
+  running?: Promise<void>;
+  status: WatcherJobStatus;
+}
+
+/** Longest delay accepted by setTimeout */
+const MAX_DELAY = 2 ** 31 - 1;
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/** Allowed values of a cron field */
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  /** Names accepted for the values, starting at `min` */
+  aliases?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'second', min: 0, max: 59 },
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    aliases: 'jan feb mar apr may jun jul aug sep oct nov dec'.split(' '),
+  },
+  {
+    name: 'day of week',
+    min: 0,
+    max: 7,
+    aliases: 'sun mon tue wed thu fri sat'.split(' '),
+  },
+];
+
+/**
+ * Cron expression, computing the times it matches
+ * @class CronExpression
+ */
+export class CronExpression {
+  private readonly fields: Set<number>[];
+  private readonly anyDayOfMonth: boolean;
+  private readonly anyDayOfWeek: boolean;
+
+  /**
+   * @param {string} expression - Cron expression, see `WatcherSchedule.cron`
+   * @throws {IOServerError} When the expression is invalid
+   */
+  constructor(readonly expression: string) {
+    const parts = (CRON_MACROS[expression.trim()] || expression)
+      .trim()
+      .split(/\s+/);
+    if (parts.length === 5) {
+      parts.unshift('0');
+    }
+    if (parts.length !== 6) {
+      throw new IOServerError(
+        `Invalid cron expression ${expression}: expected 5 or 6 fields`,
+        400
+      );
+    }
+
+    this.fields = parts.map((part, index) => {
+      try {
+        return this.parseField(part, CRON_FIELDS[index]);
+      } catch (error) {
+        throw new IOServerError(
+          `Invalid cron expression ${expression}: ${(error as Error).message}`,
+          400
+        );
+      }
+    });
+    // Sunday is either 0 or 7
+    if (this.fields[5].delete(7)) {
+      this.fields[5].add(0);
+    }
+    this.anyDayOfMonth = parts[3].startsWith('*');
+    this.anyDayOfWeek = parts[5].startsWith('*');
+  }
+
+  /**
+   * Finds the first matching time after a date
+   * @param {Date} after - Date to start from
+   * @returns {Date | undefined} Next matching time, undefined when the
+   * expression matches no date (e.g. February 30th)
+   */
+  next(after: Date): Date | undefined {
+    const [seconds, minutes, hours, , months] = this.fields;
+    const date = new Date(after.getTime());
+    date.setMilliseconds(0);
+    date.setSeconds(date.getSeconds() + 1);
+
+    // Leap days on a given weekday come back within 28 years
+    const lastYear = date.getFullYear() + 28;
+    while (date.getFullYear() <= lastYear) {
+      if (!months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0, 0);
+      } else if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0);
+      } else if (!hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0);
+      } else if (!minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0);
+      } else if (!seconds.has(date.getSeconds())) {
+        date.setSeconds(date.getSeconds() + 1);
+      } else {
+        return date;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Matches the day of month and the day of week like cron does: either one
+   * when both are restricted
+   * @private
+   */
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.fields[3].has(date.getDate());
+    const dayOfWeek = this.fields[5].has(date.getDay());
+    if (this.anyDayOfMonth || this.anyDayOfWeek) {
+      return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+  }
+
+  /**
+   * Lists the values of a field: `*`, values, ranges and steps separated by
+   * commas, e.g. `1-5,10,*\/15`
+   * @private
+   */
+  private parseField(text: string, field: CronField): Set<number> {
+    const values = new Set<number>();
+    const parseValue = (value: string): number => {
+      const alias = field.aliases?.indexOf(value.toLowerCase()) ?? -1;
+      const number = alias >= 0 ? field.min + alias : Number(value || NaN);
+      if (
+        !Number.isInteger(number) ||
+        number < field.min ||
+        number > field.max
+      ) {
+        throw new Error(`${value} is not a valid ${field.name}`);
+      }
+      return number;
+    };
+
+    text.split(',').forEach(part => {
+      const [range, step, extra] = part.split('/');
+      const increment = step === undefined ? 1 : Number(step);
+      if (
+        extra !== undefined ||
+        !Number.isInteger(increment) ||
+        increment < 1
+      ) {
+        throw new Error(`${part} is not a valid ${field.name} step`);
+      }
+
+      let start = field.min;
+      let end = field.max;
+      if (range !== '*') {
+        const bounds = range.split('-');
+        if (bounds.length > 2) {
+          throw new Error(`${range} is not a valid ${field.name} range`);
+        }
+        start = parseValue(bounds[0]);
+        end =
+          bounds.length === 2
+            ? parseValue(bounds[1])
+            : step === undefined
+              ? start
+              : field.max;
+        if (end < start) {
+          throw new Error(`${range} is not a valid ${field.name} range`);
+        }
+      }
+      for (let value = start; value <= end; value += increment) {
+        values.add(value);
+      }
+    });
+    return values;
+  }
+}
+
+/**
+ * Starts and stops watchers, and runs their scheduled jobs
+ * @class Scheduler
+ */
+export class Scheduler {
+  private readonly jobs: Map<string, Map<string, Job>> = new Map();
+  private readonly watchers: Map<string, WatcherHooks> = new Map();
+  private readonly startedWatchers: Set<string> = new Set();
+  private started: boolean = false;
+
+  constructor(
+    private readonly log: (level: number, text: string, watcher: string) => void
+  ) {}
+
+  /**
+   * Whether the watchers are started, watchers added meanwhile being
+   * started and their jobs scheduled right away
+   */
+  get running(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Registers a watcher and its jobs, started once the scheduler starts or
+   * right away when it runs
+   * @param {string} watcher - Watcher name
+   * @param {object} instance - Watcher instance running the jobs
+   * @param {WatcherSchedule[]} schedules - Jobs declared by the watcher
+   * @throws {IOServerError} When a job is invalid
+   */
+  add<W extends WatcherHooks>(
+    watcher: string,
+    instance: W,
+    schedules: WatcherSchedule<W>[]
+  ): void {
+    const jobs = new Map<string, Job>();
+    schedules.forEach(schedule => {
+      const name = schedule.name || schedule.method;
+      const target = `job ${name} of ${watcher} watcher`;
+      const method = instance[schedule.method];
+      if (typeof method !== 'function') {
+        throw new IOServerError(
+          `Method ${schedule.method} of job ${name} is not a method of ${watcher} watcher`,
+          400
+        );
+      }
+      if (jobs.has(name)) {
+        throw new IOServerError(`Duplicate ${target}`, 400);
+      }
+      if ((schedule.cron === undefined) === (schedule.interval === undefined)) {
+        throw new IOServerError(
+          `Declare either a cron expression or an interval for ${target}`,
+          400
+        );
+      }
+      if (
+        schedule.interval !== undefined &&
+        !(Number.isFinite(schedule.interval) && schedule.interval > 0)
+      ) {
+        throw new IOServerError(
+          `Interval of ${target} must be a positive number`,
+          400
+        );
+      }
+      const jitter = schedule.jitter ?? 0;
+      if (!(Number.isFinite(jitter) && jitter >= 0)) {
+        throw new IOServerError(
+          `Jitter of ${target} must not be negative`,
+          400
+        );
+      }
+
+      jobs.set(name, {
+        run: () => method.call(instance),
+        cron:
+          schedule.cron === undefined
+            ? undefined
+            : new CronExpression(schedule.cron),
+        jitter,
+        runOnStart: Boolean(schedule.runOnStart),
+        status: {
+          watcher,
+          name,
+          cron: schedule.cron,
+          interval: schedule.interval,
+          running: false,
+          runs: 0,
+          skipped: 0,
+        },
+      });
+    });
+    this.jobs.set(watcher, jobs);
+    this.watchers.set(watcher, instance);
+    if (this.started) {
+      jobs.forEach(job => this.schedule(job, job.runOnStart));
+      this.startWatcher(watcher);
+    }
+  }
+
+  /**
+   * Starts every watcher without waiting for its watch() hook, then
+   * schedules every job, running those declared with `runOnStart`
+   */
+  start(): void {
+    this.started = true;
+    this.watchers.forEach((_instance, watcher) => this.startWatcher(watcher));
+    this.jobs.forEach(jobs => {
+      jobs.forEach(job => this.schedule(job, job.runOnStart));
+    });
+  }
+
+  /**
+   * Cancels the timers of every job and waits for the runs in progress.
+   * Watchers are stopped separately, once the components using them are.
+   * @param {number} timeout - Milliseconds to wait for the runs in progress
+   * @returns {Promise<boolean>} False when runs were still in progress at
+   * the timeout
+   */
+  stop(timeout: number): Promise<boolean> {
+    return this.cancel(timeout);
+  }
+
+  /**
+   * Calls the stop() hook of every started watcher
+   * @returns {Promise<void>} Promise that resolves when watchers are stopped
+   * @throws {IOServerError} When a stop() hook fails, every failure being
+   * logged
+   */
+  async stopWatchers(): Promise<void> {
+    const results = await Promise.allSettled(
+      Array.from(this.startedWatchers).map(watcher => this.stopWatcher(watcher))
+    );
+    const failure = results.find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * Removes a watcher once the runs in progress of its jobs completed,
+   * calling its stop() hook when it was started
+   * @param {string} watcher - Watcher name
+   * @param {number} timeout - Milliseconds to wait for the runs in progress
+   * @returns {Promise<void>} Promise that resolves when the watcher is removed
+   * @throws {IOServerError} When its stop() hook fails
+   */
+  async remove(watcher: string, timeout: number): Promise<void> {
+    await this.cancel(timeout, watcher);
+    if (this.startedWatchers.has(watcher)) {
+      await this.stopWatcher(watcher);
+    }
+    this.watchers.delete(watcher);
+  }
+
+  /**
+   * Calls the watch() hook of a watcher, recording it as started. Watchers
+   * keep running in the background, a failure being logged.
+   * @private
+   */
+  private async startWatcher(watcher: string): Promise<void> {
+    const instance = this.watchers.get(watcher);
+    this.startedWatchers.add(watcher);
+    try {
+      this.log(6, `[*] Start watcher ${instance?.constructor.name}`, watcher);
+      await instance?.watch?.();
+    } catch (error) {
+      this.log(3, `[!] Unable to start ${watcher} watcher: ${error}`, watcher);
+    }
+  }
+
+  /**
+   * Calls the stop() hook of a started watcher, logging its failure
+   * @private
+   * @throws {IOServerError} When the stop() hook fails
+   */
+  private async stopWatcher(watcher: string): Promise<void> {
+    const instance = this.watchers.get(watcher);
+    this.startedWatchers.delete(watcher);
+    try {
+      this.log(
+        6,
+        `[*] Stopping watcher ${instance?.constructor.name}`,
+        watcher
+      );
+      await instance?.stop?.();
+    } catch (error) {
+      this.log(3, `[!] Error stopping ${watcher} watcher: ${error}`, watcher);
+      throw new IOServerError(
+        `Error stopping ${watcher} watcher: ${error}`,
+        500
+      );
+    }
+  }
+
+  /**
+   * Cancels the timers of every job, or of the jobs of a watcher, and waits
+   * for the runs in progress
+   * @private
+   * @returns {Promise<boolean>} False when runs were still in progress at
+   * the timeout
+   */
+  private async cancel(timeout: number, watcher?: string): Promise<boolean> {
+    const stopped: Job[] = [];
+    this.jobs.forEach((jobs, name) => {
+      if (watcher === undefined || watcher === name) {
+        jobs.forEach(job => {
+          global.clearTimeout(job.timer);
+          job.timer = undefined;
+          job.status.nextRun = undefined;
+          stopped.push(job);
+        });
+      }
+    });
+    if (watcher !== undefined) {
+      this.jobs.delete(watcher);
+    } else {
+      this.started = false;
+    }
+
+    const running = stopped
+      .map(job => job.running)
+      .filter((run): run is Promise<void> => run !== undefined);
+    if (running.length === 0) {
+      return true;
+    }
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<boolean>(resolve => {
+      timer = global.setTimeout(() => resolve(false), timeout);
+    });
+    const completed = await Promise.race([
+      Promise.all(running).then(() => true),
+      expired,
+    ]);
+    global.clearTimeout(timer);
+    return completed;
+  }
+
+  /**
+   * Runs a job now, outside of its schedule
+   * @param {string} watcher - Watcher name
+   * @param {string} name - Job name
+   * @returns {Promise<WatcherJobStatus>} State of the job once the run
+   * completed, its error recorded in `lastError`
+   * @throws {IOServerError} When the job is unknown or already running
+   */
+  async trigger(watcher: string, name: string): Promise<WatcherJobStatus> {
+    const job = this.jobs.get(watcher)?.get(name);
+    if (!job) {
+      throw new IOServerError(
+        `Job ${name} of ${watcher} watcher is not registered`,
+        404
+      );
+    }
+    if (job.running) {
+      throw new IOServerError(
+        `Job ${name} of ${watcher} watcher is already running`,
+        409
+      );
+    }
+    await this.execute(job);
+    return { ...job.status };
+  }
+
+  /**
+   * Lists the state of every job, or of the jobs of a watcher
+   * @param {string} watcher - Watcher name
+   * @returns {WatcherJobStatus[]} Copies of the job states
+   */
+  getJobs(watcher?: string): WatcherJobStatus[] {
+    const statuses: WatcherJobStatus[] = [];
+    this.jobs.forEach((jobs, name) => {
+      if (watcher === undefined || watcher === name) {
+        jobs.forEach(job => statuses.push({ ...job.status }));
+      }
+    });
+    return statuses;
+  }
+
+  /**
+   * Arms the timer of the next run of a job
+   * @private
+   */
+  private schedule(job: Job, runNow: boolean = false): void {
+    const now = Date.now();
+    let delay: number;
+    if (job.cron) {
+      const next = job.cron.next(new Date(now));
+      if (!next) {
+        job.status.nextRun = undefined;
+        this.log(
+          4,
+          `[!] Cron expression of job ${job.status.name} never matches`,
+          job.status.watcher
+        );
+        return;
+      }
+      delay = next.getTime() - now;
+    } else {
+      delay = job.status.interval! + Math.round(Math.random() * job.jitter);
+    }
+    job.status.nextRun = new Date(now + delay);
+
+    // Long delays are armed in several steps
+    job.timer = global.setTimeout(
+      () => {
+        if (delay > MAX_DELAY) {
+          this.schedule(job);
+        } else {
+          this.tick(job);
+        }
+      },
+      Math.min(delay, MAX_DELAY)
+    );
+    if (runNow) {
+      this.tick(job, false);
+    }
+  }
+
+  /**
+   * Runs a job on schedule, unless its previous run is in progress
+   * @private
+   */
+  private tick(job: Job, reschedule: boolean = true): void {
+    if (reschedule) {
+      this.schedule(job);
+    }
+    if (job.running) {
+      job.status.skipped++;
+      this.log(
+        4,
+        `[!] Job ${job.status.name} skipped, its previous run is still in progress`,
+        job.status.watcher
+      );
+      return;
+    }
+    this.execute(job);
+  }
+
+  /**
+   * Runs a job, recording its outcome
+   * @private
+   */
+  private execute(job: Job): Promise<void> {
+    const { status } = job;
+    const started = Date.now();
+    status.running = true;
+    status.lastRun = new Date(started);
+    this.log(7, `[*] Running job ${status.name}`, status.watcher);
+
+    job.running = (async () => {
+      try {
+        await job.run();
+        status.lastError = undefined;
+      } catch (error) {
+        status.lastError = (error as Error)?.message || `${error}`;
+        this.log(
+          3,
+          `[!] Job ${status.name} failed: ${status.lastError}`,
+          status.watcher
+        );
+      } finally {
+        status.lastDuration = Date.now() - started;
+        status.runs++;
+        status.running = false;
+        job.running = undefined;
+      }
+    })();
+    return job.running;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Shutdown - In-flight calls and process signals of IOServer
+ *
+ * Keeps track of the service calls in progress, so that a graceful shutdown
+ * or the removal of a service waits for them up to the shutdown timeout,
+ * and installs the process signal handlers stopping the server.
+ *
+ * @author Ben Mz <0x42en@users.noreply.github.com>
+ * @version 2.1.1
+ * @since 2.2.0
+ */
+
+/**
+ * Graceful shutdown bookkeeping of a server
+ * @class GracefulShutdown
+ */
+export class GracefulShutdown {
+  private readonly pendingCalls: Map<Promise<unknown>, string> = new Map();
+  private readonly signalHandlers: Map<NodeJS.Signals, () => void> = new Map();
+
+  /**
+   * @param {number} timeout - Milliseconds to wait for in-flight calls
+   * @param {Function} log - Receives the progress of the shutdown
+   */
+  constructor(
+    readonly timeout: number,
+    private readonly log: (level: number, text: string) => void
+  ) {}
+
+  /**
+   * Tracks a promise so that a graceful shutdown, or the removal of its
+   * service, can wait for it
+   * @param {Promise} call - Call in progress
+   * @param {string} serviceName - Service handling the call
+   * @returns {Promise} The tracked call
+   */
+  track<T>(call: Promise<T>, serviceName: string): Promise<T> {
+    const untrack = () => {
+      this.pendingCalls.delete(call);
+    };
+    this.pendingCalls.set(call, serviceName);
+    // Failures are handled by the caller, not by this bookkeeping branch
+    call.then(untrack, untrack);
+    return call;
+  }
+
+  /**
+   * Waits for in-flight service calls, up to the shutdown timeout
+   * @param {string} serviceName - Only wait for the calls of this service
+   * @returns {Promise<void>} Promise that resolves once the calls settled or
+   * the timeout expired
+   */
+  async drain(serviceName?: string): Promise<void> {
+    const calls = Array.from(this.pendingCalls.entries())
+      .filter(([, name]) => serviceName === undefined || name === serviceName)
+      .map(([call]) => call);
+    if (calls.length === 0) {
+      return;
+    }
+
+    this.log(5, `[*] Waiting for ${calls.length} in-flight service calls...`);
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<boolean>(resolve => {
+      timer = global.setTimeout(() => resolve(true), this.timeout);
+    });
+    const timedOut = await Promise.race([
+      Promise.allSettled(calls).then(() => false),
+      expired,
+    ]);
+    global.clearTimeout(timer);
+
+    if (timedOut) {
+      this.log(
+        4,
+        `[!] Shutdown timeout reached with ${calls.filter(call => this.pendingCalls.has(call)).length} service calls still running`
+      );
+    }
+  }
+
+  /**
+   * Installs process signal handlers performing a graceful shutdown, then
+   * exiting the process
+   * @param {NodeJS.Signals[]} signals - Signals to handle
+   * @param {Function} stop - Stops the server
+   */
+  listen(signals: NodeJS.Signals[], stop: () => Promise<void>): void {
+    signals.forEach(signal => {
+      const handler = () => {
+        this.log(5, `[*] Received ${signal}, shutting down gracefully...`);
+        stop()
+          .then(() => process.exit(0))
+          .catch(error => {
+            this.log(3, `[!] Error during shutdown: ${error}`);
+            process.exit(1);
+          });
+      };
+      this.signalHandlers.set(signal, handler);
+      process.once(signal, handler);
+    });
+  }
+
+  /**
+   * Removes the process signal handlers
+   */
+  unlisten(): void {
+    this.signalHandlers.forEach((handler, signal) => {
+      process.removeListener(signal, handler);
+    });
+    this.signalHandlers.clear();
+  }
+}
@@ -35,6 +35,26 @@
 // Main framework exports
 export { IOServer as default, IOServer } from './IOServer';
 export { IOServerError } from './IOServerError';
+export { generateClient, schemaToType } from './ClientGenerator';
+export { createClusterAdapter, setupClusterPrimary } from './ClusterAdapter';
+export {
+  JwtStrategy,
+  ApiKeyStrategy,
+  SessionStrategy,
+  authorize,
+  getBearerToken,
+  parseCookies,
+} from './Auth';
+export { MemoryRateLimitStore } from './RateLimiter';
+export { CronExpression } from './Scheduler';
+export { loadRoutes } from './RouteLoader';
+export {
+  generateOpenApi,
+  renderSwaggerUi,
+  toOpenApiPath,
+} from './OpenApiGenerator';
+export { generateAsyncApi } from './AsyncApiGenerator';
+export { Container, InjectionToken, SOCKET } from './Container';
 
 // Base classes for extending
 export {
@@ -43,17 +63,98 @@ export {
   BaseManager,
   BaseWatcher,
   BaseMiddleware,
+  HttpMiddleware,
+  SocketMiddleware,
+  BaseEventMiddleware,
 } from './BaseClasses';
 
+// Decorators
+export {
+  SocketEvent,
+  Route,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Schedule,
+} from './Decorators';
+export type { RouteDecoratorOptions } from './Decorators';
+
 // Type definitions
 export type {
   IOServerOptions,
   ServiceOptions,
+  ServiceMethodSchema,
+  ServiceContract,
+  ServiceMethodContract,
+  ServiceEventContract,
+  RouteContract,
   ControllerOptions,
+  ControllerRoute,
+  ControllerMethod,
   ManagerOptions,
   WatcherOptions,
   SendToOptions,
+  SessionSocket,
+  EventContext,
+  MiddlewareContext,
+  MiddlewareEntry,
+  MiddlewareStage,
+  ShutdownOptions,
   AppHandle,
+  AppHandleCore,
+  AppHandleOf,
+  ComponentHandle,
+  WithManager,
+  DynamicManagers,
+  LogContext,
+  LogFunction,
   LogLevel,
   TransportMode,
 } from './IOServer';
+export type {
+  ClusterAdapterOptions,
+  ClusterChannel,
+  ClusterEnvelope,
+} from './ClusterAdapter';
+export type {
+  AccessRule,
+  AuthContext,
+  AuthOptions,
+  AuthPolicy,
+  AuthRequirement,
+  AuthStrategy,
+  AuthUser,
+  PolicyContext,
+  UserResolver,
+  JwtStrategyOptions,
+  ApiKeyStrategyOptions,
+  SessionStrategyOptions,
+} from './Auth';
+export type {
+  RateLimitAlgorithm,
+  RateLimitContext,
+  RateLimitKey,
+  RateLimitOptions,
+  RateLimitResult,
+  RateLimitRule,
+  RateLimitStore,
+} from './RateLimiter';
+export type { RouteDefinition } from './RouteLoader';
+export type {
+  OpenApiDocumentOptions,
+  OpenApiOptions,
+} from './OpenApiGenerator';
+export type {
+  AsyncApiDocumentOptions,
+  AsyncApiOptions,
+  AsyncApiServer,
+} from './AsyncApiGenerator';
+export type { Provider, Scope, Token } from './Container';
+export type { HotReloadOptions } from './HotReloader';
+export type {
+  WatcherJobStatus,
+  WatcherMethod,
+  WatcherSchedule,
+} from './Scheduler';
@@ -0,0 +1,111 @@
+/**
+ * @file AppHandle.test.ts
+ * @description Tests for the application handle typed with registered managers.
+ *
+ * Covered scenarios:
+ *  - Chained addManager() calls accumulate manager types
+ *  - Components typed with the handle reach managers at runtime
+ *  - Unregistered or misspelled managers fail to compile
+ *  - Servers with untyped managers accept typed components in separate calls
+ */
+
+import { IOServer } from '../../src/IOServer';
+import {
+  AppHandle,
+  AppHandleOf,
+  BaseManager,
+  BaseService,
+  BaseWatcher,
+} from '../../src';
+
+class StatsManager extends BaseManager {
+  private messages = 0;
+
+  count() {
+    this.messages += 1;
+  }
+
+  getStats() {
+    return { messages: this.messages };
+  }
+}
+
+class ReportManager extends BaseManager<AppHandle<{ stats: StatsManager }>> {
+  describe() {
+    return `${this.appHandle.stats.getStats().messages} messages`;
+  }
+}
+
+function createServer(port: number) {
+  return new IOServer({ host: 'localhost', port })
+    .addManager({ name: 'stats', manager: StatsManager })
+    .addManager({ name: 'report', manager: ReportManager });
+}
+
+type App = AppHandleOf<ReturnType<typeof createServer>>;
+
+const reports: string[] = [];
+
+class ReportWatcher extends BaseWatcher<App> {
+  async watch() {
+    this.appHandle.stats.count();
+    reports.push(this.appHandle.report.describe());
+  }
+
+  stop() {}
+}
+
+class LoosePingService extends BaseService {
+  async ping(socket: any, data: any, callback?: Function) {
+    // Untyped handles keep accepting any manager name
+    this.appHandle.anything?.call();
+    if (callback) callback('pong');
+  }
+}
+
+describe('AppHandle', () => {
+  it('gives typed components access to registered managers', async () => {
+    const server = createServer(3180)
+      .addWatcher({ name: 'reporter', watcher: ReportWatcher })
+      .addService({ name: 'ping', service: LoosePingService });
+
+    await server.start();
+    expect(reports).toEqual(['1 messages']);
+    await server.stop();
+  });
+
+  it('types managers accumulated by chained calls', () => {
+    // Type-checked only, never called
+    const use = (handle: App) => {
+      const stats: { messages: number } = handle.stats.getStats();
+      const report: string = handle.report.describe();
+      // @ts-expect-error - misspelled manager name
+      handle.statz.getStats();
+      return [stats, report];
+    };
+    expect(use).toBeInstanceOf(Function);
+  });
+
+  it('rejects components using unregistered managers at compile time', () => {
+    // Type-checked only, never called
+    const register = (server: IOServer<Record<never, never>>) => {
+      // @ts-expect-error - the report manager needs the stats manager
+      server.addManager({ name: 'report', manager: ReportManager });
+      // @ts-expect-error - the watcher needs the stats and report managers
+      server.addWatcher({ name: 'reporter', watcher: ReportWatcher });
+    };
+    expect(register).toBeInstanceOf(Function);
+  });
+
+  it('accepts typed components on servers with untyped managers', async () => {
+    const server: IOServer = new IOServer({ host: 'localhost', port: 3181 });
+    server.addManager({ name: 'stats', manager: StatsManager });
+    server.addManager({ name: 'report', manager: ReportManager });
+    server.addWatcher({ name: 'reporter', watcher: ReportWatcher });
+
+    reports.length = 0;
+    await server.start();
+    expect(reports).toEqual(['1 messages']);
+    await server.stop();
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * @file AsyncApiGenerator.test.ts
+ * @description Tests for the AsyncAPI document generated from services.
+ *
+ * Covered scenarios:
+ *  - Namespaces become channels, service methods received operations
+ *  - Acknowledgement schemas become operation replies
+ *  - Declared and shutdown events become sent operations
+ *  - Servers, security schemes and shared schemas
+ *  - The document is served, reserved events are rejected
+ */
+
+import { IOServer } from '../../src/IOServer';
+import { ApiKeyStrategy, BaseService } from '../../src';
+
+const supertest = require('supertest');
+
+class ChatService extends BaseService {
+  async send_message(socket: any, data: any, callback?: Function) {
+    if (callback) callback({ status: 'sent' });
+  }
+
+  async typing(socket: any) {
+    socket.broadcast.emit('typing');
+  }
+}
+
+class RootService extends BaseService {
+  async ping(socket: any, data: any, callback?: Function) {
+    if (callback) callback('pong');
+  }
+}
+
+describe('AsyncApiGenerator', () => {
+  const PORT = 3170;
+  let server: IOServer;
+  let document: any;
+
+  beforeAll(async () => {
+    server = new IOServer({
+      host: 'localhost',
+      port: PORT,
+      auth: {
+        strategies: [new ApiKeyStrategy({ keys: {} })],
+        required: false,
+      },
+      asyncapi: { info: { title: 'Chat API', version: '3.0.1' } },
+    });
+    server.getApp().addSchema({
+      $id: 'message',
+      type: 'object',
+      required: ['text'],
+      properties: { text: { type: 'string' } },
+    });
+    server.addService({
+      name: 'chat',
+      service: ChatService,
+      schemas: {
+        send_message: {
+          data: { $ref: 'message#' },
+          ack: {
+            type: 'object',
+            properties: { status: { type: 'string' } },
+          },
+        },
+      },
+      emits: {
+        new_message: { $ref: 'message#' },
+        'user:left': {
+          description: 'A user left the room',
+          type: 'object',
+          properties: { user: { type: 'string' } },
+        },
+      },
+    });
+    server.addService({ service: RootService });
+    await server.start();
+    document = server.generateAsyncApi();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('describes every namespace as a channel', () => {
+    expect(document.asyncapi).toBe('3.0.0');
+    expect(document.info).toEqual({ title: 'Chat API', version: '3.0.1' });
+    expect(document.channels.chat.address).toBe('/chat');
+    expect(document.channels.root.address).toBe('/');
+  });
+
+  it('describes service methods as received events', () => {
+    const operation = document.operations['chat.receive.send_message'];
+
+    expect(operation.action).toBe('receive');
+    expect(operation.channel).toEqual({ $ref: '#/channels/chat' });
+    expect(operation.messages).toEqual([
+      { $ref: '#/channels/chat/messages/receive.send_message' },
+    ]);
+    expect(document.channels.chat.messages['receive.send_message']).toEqual({
+      name: 'send_message',
+      payload: { $ref: '#/components/schemas/message' },
+    });
+    expect(document.operations['chat.receive.typing'].reply).toBeUndefined();
+    expect(document.operations['root.receive.ping']).toBeDefined();
+  });
+
+  it('describes acknowledgements as replies', () => {
+    const { reply } = document.operations['chat.receive.send_message'];
+
+    expect(reply.messages).toEqual([
+      { $ref: '#/channels/chat/messages/reply.send_message' },
+    ]);
+    expect(
+      document.channels.chat.messages['reply.send_message'].payload
+    ).toEqual({ type: 'object', properties: { status: { type: 'string' } } });
+  });
+
+  it('describes declared and shutdown events as sent events', () => {
+    const messages = document.channels.chat.messages;
+
+    expect(document.operations['chat.send.new_message'].action).toBe('send');
+    expect(messages['send.user_left']).toMatchObject({
+      name: 'user:left',
+      summary: 'A user left the room',
+    });
+    expect(messages['send.server_shutdown'].name).toBe('server_shutdown');
+    expect(document.operations['root.send.server_shutdown']).toBeDefined();
+  });
+
+  it('describes servers, security schemes and shared schemas', () => {
+    expect(document.servers.default).toEqual({
+      host: `localhost:${PORT}`,
+      protocol: 'ws',
+      pathname: '/socket.io/',
+      security: [{ $ref: '#/components/securitySchemes/api-key' }],
+    });
+    expect(document.components.securitySchemes['api-key']).toEqual({
+      type: 'httpApiKey',
+      in: 'header',
+      name: 'x-api-key',
+    });
+    expect(Object.keys(document.components.schemas)).toEqual(['message']);
+  });
+
+  it('serves the document', async () => {
+    const response = await supertest(`http://localhost:${PORT}`)
+      .get('/asyncapi.json')
+      .expect(200);
+
+    expect(response.body).toEqual(document);
+  });
+
+  it('rejects reserved event names', () => {
+    expect(() =>
+      server.addService({
+        name: 'broken',
+        service: RootService,
+        emits: { disconnect: {} },
+      })
+    ).toThrow('Reserved event disconnect declared in emits of broken service');
+    expect(server.isRegistered('service', 'broken')).toBe(false);
+  });
+});
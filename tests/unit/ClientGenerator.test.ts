@@ -0,0 +1,213 @@
+/**
+ * @file ClientGenerator.test.ts
+ * @description Tests for service contract extraction and client SDK generation.
+ *
+ * Covered scenarios:
+ *  - JSON Schema to TypeScript type conversion
+ *  - Contract extraction from registered services
+ *  - Generated SDK type-checks and calls services through acknowledgements
+ *  - Names shadowing members of the generated clients are rejected
+ */
+
+import * as ts from 'typescript';
+import { IOServer } from '../../src/IOServer';
+import { BaseService, generateClient, schemaToType } from '../../src';
+
+class ChatService extends BaseService {
+  async login(socket: any, data: any, callback?: Function) {
+    if (callback) callback({ status: 'success', username: data.username });
+  }
+
+  async send_message(socket: any, data: any, callback?: Function) {
+    if (callback) callback({ status: 'success' });
+  }
+
+  async _cleanup() {
+    return true;
+  }
+}
+
+class RootService extends BaseService {
+  async ping(socket: any, data: any, callback?: Function) {
+    if (callback) callback('pong');
+  }
+}
+
+function createServer(port: number): IOServer {
+  const server = new IOServer({ host: 'localhost', port });
+  server.addService({
+    name: 'chat',
+    service: ChatService,
+    schemas: {
+      login: {
+        data: {
+          type: 'object',
+          required: ['username'],
+          properties: { username: { type: 'string', minLength: 1 } },
+        },
+        ack: {
+          type: 'object',
+          required: ['status'],
+          properties: {
+            status: { enum: ['success', 'error'] },
+            username: { type: 'string' },
+          },
+        },
+      },
+    },
+  });
+  server.addService({ service: RootService });
+  return server;
+}
+
+describe('ClientGenerator', () => {
+  describe('schemaToType', () => {
+    it('converts primitive types', () => {
+      expect(schemaToType({ type: 'string' })).toBe('string');
+      expect(schemaToType({ type: 'integer' })).toBe('number');
+      expect(schemaToType({ type: ['string', 'null'] })).toBe('string | null');
+      expect(schemaToType(undefined)).toBe('any');
+    });
+
+    it('converts enums, arrays and objects', () => {
+      expect(schemaToType({ enum: ['a', 'b'] })).toBe('"a" | "b"');
+      expect(schemaToType({ type: 'array', items: { type: 'number' } })).toBe(
+        'Array<number>'
+      );
+      expect(
+        schemaToType({
+          type: 'object',
+          required: ['id'],
+          properties: { id: { type: 'string' }, 'x-tag': { type: 'string' } },
+          additionalProperties: false,
+        })
+      ).toBe('{\n  id: string;\n  "x-tag"?: string;\n}');
+      expect(schemaToType({ type: 'object' })).toBe('Record<string, any>');
+    });
+  });
+
+  describe('getServiceContracts', () => {
+    it('lists exposed methods with their schemas', () => {
+      const contracts = createServer(3050).getServiceContracts();
+
+      expect(contracts.map(c => c.namespace)).toEqual(['/chat', '/']);
+      expect(contracts[0].methods.map(m => m.name)).toEqual([
+        'login',
+        'send_message',
+      ]);
+      expect(contracts[0].methods[0].data).toBeDefined();
+      expect(contracts[0].methods[0].ack).toBeDefined();
+      expect(contracts[0].methods[1].data).toBeUndefined();
+    });
+  });
+
+  describe('generateClient', () => {
+    const PORT = 3051;
+    let server: IOServer;
+    let source: string;
+
+    beforeAll(async () => {
+      server = createServer(PORT);
+      source = server.generateClient();
+      await server.start();
+    });
+
+    afterAll(async () => {
+      await server.stop();
+    });
+
+    it('emits typed methods for every service', () => {
+      expect(source).toContain('export class ChatClient extends ServiceClient');
+      expect(source).toContain(
+        'login(data: ChatLoginData): Promise<ChatLoginAck>'
+      );
+      expect(source).toContain(
+        'send_message(data?: ChatSendMessageData): Promise<ChatSendMessageAck>'
+      );
+      expect(source).toContain('export class RootClient extends ServiceClient');
+      expect(source).not.toContain('_cleanup');
+    });
+
+    it('produces a module that type-checks', () => {
+      const file = 'client.ts';
+      const host = ts.createCompilerHost({});
+      const readFile = host.readFile;
+      host.readFile = name => (name === file ? source : readFile(name));
+      const getSourceFile = host.getSourceFile;
+      host.getSourceFile = (name, version) =>
+        name === file
+          ? ts.createSourceFile(name, source, version)
+          : getSourceFile(name, version);
+      host.fileExists = (
+        exists => (name: string) =>
+          name === file || exists(name)
+      )(host.fileExists);
+
+      const program = ts.createProgram(
+        [file],
+        {
+          strict: true,
+          noEmit: true,
+          target: ts.ScriptTarget.ES2020,
+          moduleResolution: ts.ModuleResolutionKind.Node10,
+          baseUrl: process.cwd(),
+          typeRoots: [],
+        },
+        host
+      );
+      const diagnostics = ts
+        .getPreEmitDiagnostics(program)
+        .filter(d => d.file?.fileName === file)
+        .map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+
+      expect(diagnostics).toEqual([]);
+    });
+
+    it('calls services and rejects error acknowledgements', async () => {
+      const { outputText } = ts.transpileModule(source, {
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2020,
+        },
+      });
+      const sdk: any = {};
+      new Function('require', 'exports', outputText)(require, sdk);
+
+      const client = sdk.createClient(`http://localhost:${PORT}/`, {
+        ackTimeout: 2000,
+      });
+
+      try {
+        await expect(client.chat.login({ username: 'alice' })).resolves.toEqual(
+          { status: 'success', username: 'alice' }
+        );
+        await expect(client.root.ping()).resolves.toBe('pong');
+        await expect(client.chat.login({})).rejects.toMatchObject({
+          name: 'ServiceCallError',
+          statusCode: 400,
+        });
+      } finally {
+        client.disconnect();
+      }
+    });
+
+    it('rejects names shadowing members of the generated clients', () => {
+      const contract = (name: string, method: string) => ({
+        name,
+        namespace: `/${name}`,
+        methods: [{ name: method }],
+        emits: [],
+      });
+
+      expect(() => generateClient([contract('chat', 'call')])).toThrow(
+        'Method call of chat service collides with a member of the generated client'
+      );
+      expect(() => generateClient([contract('chat', 'socket')])).toThrow(
+        'Method socket of chat service collides'
+      );
+      expect(() => generateClient([contract('disconnect', 'ping')])).toThrow(
+        'Service disconnect collides with the disconnect() member of the generated client'
+      );
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * @file ClusterAdapter.test.ts
+ * @description Tests for the pluggable Socket.IO adapter and the cluster adapter.
+ *
+ * Covered scenarios:
+ *  - Room broadcasts reach clients connected to another instance
+ *  - sendTo() targets a socket id connected to another instance
+ *  - Adapters see sockets of every instance
+ *  - Adapter messages only reach adapters of the same namespace
+ *  - Adapters leave the cluster once, on removal or on shutdown
+ */
+
+import { EventEmitter } from 'events';
+import { MessageType } from 'socket.io-adapter';
+import { IOServer } from '../../src/IOServer';
+import {
+  BaseService,
+  ClusterChannel,
+  ClusterEnvelope,
+  createClusterAdapter,
+} from '../../src';
+
+const io = require('socket.io-client');
+
+class RoomService extends BaseService {
+  async join(socket: any, data: { room: string }, callback?: Function) {
+    socket.join(data.room);
+    if (callback) callback({ status: 'joined' });
+  }
+
+  async count(socket: any, data: any, callback?: Function) {
+    const sockets = await socket.nsp.fetchSockets();
+    if (callback) callback(sockets.length);
+  }
+}
+
+/** In-memory channel standing in for the cluster IPC relay */
+function createBus(): () => ClusterChannel {
+  const bus = new EventEmitter();
+  bus.setMaxListeners(0);
+  return () => {
+    const id = Symbol('instance');
+    return {
+      send(message: ClusterEnvelope) {
+        setImmediate(() => bus.emit('message', id, message));
+      },
+      subscribe(listener) {
+        const handler = (sender: symbol, message: ClusterEnvelope) => {
+          if (sender !== id) {
+            listener(message);
+          }
+        };
+        bus.on('message', handler);
+        return () => {
+          bus.off('message', handler);
+        };
+      },
+    };
+  };
+}
+
+function connect(port: number): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const client = io(`http://localhost:${port}/rooms`, {
+      reconnection: false,
+    });
+    client.on('connect', () => resolve(client));
+    client.on('connect_error', reject);
+  });
+}
+
+function nextEvent(client: any, event: string): Promise<any> {
+  return new Promise(resolve => client.once(event, resolve));
+}
+
+describe('ClusterAdapter', () => {
+  const PORTS = [3100, 3101];
+  const servers: IOServer[] = [];
+  const clients: any[] = [];
+
+  beforeAll(async () => {
+    const channel = createBus();
+    for (const port of PORTS) {
+      const server = new IOServer({
+        host: 'localhost',
+        port,
+        adapter: createClusterAdapter({ channel: channel() }),
+      });
+      server.addService({ name: 'rooms', service: RoomService });
+      await server.start();
+      servers.push(server);
+    }
+    for (const port of PORTS) {
+      clients.push(await connect(port));
+    }
+  });
+
+  afterAll(async () => {
+    clients.forEach(client => client.close());
+    await Promise.all(servers.map(server => server.stop()));
+  });
+
+  it('broadcasts to rooms across instances', async () => {
+    await clients[0].emitWithAck('join', { room: 'lobby' });
+
+    const received = nextEvent(clients[0], 'news');
+    expect(
+      servers[1].sendTo({
+        namespace: 'rooms',
+        room: 'lobby',
+        event: 'news',
+        data: { text: 'hello' },
+      })
+    ).toBe(true);
+
+    await expect(received).resolves.toEqual({ text: 'hello' });
+  });
+
+  it('targets a socket id connected to another instance', async () => {
+    const received = nextEvent(clients[1], 'direct');
+    servers[0].sendTo({
+      namespace: '/rooms',
+      sid: clients[1].id,
+      event: 'direct',
+      data: 'ping',
+    });
+
+    await expect(received).resolves.toBe('ping');
+  });
+
+  it('fetches sockets of every instance', async () => {
+    await expect(clients[0].emitWithAck('count', {})).resolves.toBe(2);
+  });
+
+  it('keeps messages within their namespace', async () => {
+    let leaked = false;
+    clients[0].io.socket('/').on('news', () => {
+      leaked = true;
+    });
+    const received = nextEvent(clients[0], 'news');
+    servers[1].sendTo({ namespace: 'rooms', event: 'news', data: 'all' });
+
+    await expect(received).resolves.toBe('all');
+    expect(leaked).toBe(false);
+  });
+
+  it('closes each adapter once', async () => {
+    const sent: ClusterEnvelope[] = [];
+    const channel: ClusterChannel = {
+      send: message => sent.push(message),
+      subscribe: () => () => undefined,
+    };
+    const server = new IOServer({
+      host: 'localhost',
+      port: 3102,
+      adapter: createClusterAdapter({ channel }),
+    });
+    server.addService({ service: RoomService });
+    server.addService({ name: 'rooms', service: RoomService });
+    server.addService({ name: 'chat', service: RoomService });
+    await server.start();
+
+    await server.removeService('/');
+    await server.removeService('chat');
+    await server.stop();
+
+    const closed = sent
+      .filter(envelope => envelope.payload.type === MessageType.ADAPTER_CLOSE)
+      .map(envelope => envelope.nsp)
+      .sort();
+    expect(closed).toEqual(['/', '/chat', '/rooms']);
+  });
+});
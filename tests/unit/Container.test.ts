@@ -0,0 +1,299 @@
+/**
+ * @file Container.test.ts
+ * @description Tests for dependency injection into components.
+ *
+ * Covered scenarios:
+ *  - Value, class and factory providers, singletons cached once
+ *  - Missing providers, duplicates and circular dependencies
+ *  - Connection providers rejected outside of a connection scope
+ *  - Services, controllers and managers receive their `inject` dependencies
+ *  - Injected managers are started first
+ *  - Connection-scoped services get an instance per socket
+ */
+
+import { IOServer } from '../../src/IOServer';
+import {
+  BaseController,
+  BaseManager,
+  BaseService,
+  Container,
+  InjectionToken,
+  SOCKET,
+} from '../../src';
+
+const io = require('socket.io-client');
+
+const CONFIG = new InjectionToken<{ greeting: string }>('config');
+
+class Clock {
+  now() {
+    return 42;
+  }
+}
+
+class Greeter {
+  static inject = [CONFIG, Clock];
+
+  constructor(
+    readonly config: { greeting: string },
+    readonly clock: Clock
+  ) {}
+
+  greet(name: string) {
+    return `${this.config.greeting} ${name}`;
+  }
+}
+
+describe('Container', () => {
+  it('resolves values, classes and factories', () => {
+    const container = new Container();
+    container.provide(CONFIG, { useValue: { greeting: 'Hello' } });
+    container.provide(Clock, { useClass: Clock });
+    container.provide(Greeter, { useClass: Greeter });
+    container.provide('welcome', {
+      useFactory: (greeter: Greeter) => greeter.greet('you'),
+      inject: [Greeter],
+    });
+
+    expect(container.resolve<string>('welcome')).toBe('Hello you');
+    expect(container.resolve(Greeter).clock).toBe(container.resolve(Clock));
+    expect(container.resolve(Greeter)).toBe(container.resolve(Greeter));
+  });
+
+  it('rejects missing providers with the dependency path', () => {
+    const container = new Container();
+    container.provide(Greeter, { useClass: Greeter });
+
+    expect(() => container.resolve(Greeter)).toThrow(
+      'No provider for config (required by Greeter)'
+    );
+  });
+
+  it('rejects duplicate and invalid providers', () => {
+    const container = new Container();
+    container.provide(Clock, { useClass: Clock });
+
+    expect(() => container.provide(Clock, { useValue: new Clock() })).toThrow(
+      'Provider for Clock already registered'
+    );
+    expect(() => container.provide('broken', {} as any)).toThrow(
+      'Invalid provider for broken'
+    );
+  });
+
+  it('detects circular dependencies', () => {
+    const container = new Container();
+    container.provide('a', { useFactory: () => 'a', inject: ['b'] });
+    container.provide('b', { useFactory: () => 'b', inject: ['a'] });
+
+    expect(() => container.resolve('a')).toThrow(
+      'Circular dependency a -> b -> a'
+    );
+  });
+
+  it('creates connection providers once per scope', () => {
+    const container = new Container();
+    let created = 0;
+    container.provide('session', {
+      useFactory: () => ({ id: ++created }),
+      scope: 'connection',
+    });
+    container.provide('report', {
+      useFactory: (session: any) => session.id,
+      inject: ['session'],
+    });
+
+    const first = container.createScope();
+    const second = container.createScope();
+    expect(first.resolve('session')).toBe(first.resolve('session'));
+    expect(second.resolve('session')).not.toBe(first.resolve('session'));
+
+    expect(() => container.resolve('session')).toThrow(
+      'session is connection-scoped and cannot be injected outside of a connection'
+    );
+    // Singletons cannot capture a connection instance
+    expect(() => first.resolve('report')).toThrow(
+      'session is connection-scoped and cannot be injected outside of a connection (required by report)'
+    );
+  });
+});
+
+describe('IOServer — Dependency injection', () => {
+  const PORT = 3190;
+
+  it('injects providers and managers into components', async () => {
+    const events: string[] = [];
+
+    class DatabaseManager extends BaseManager {
+      async start() {
+        events.push('start:database');
+      }
+
+      find() {
+        return ['alice'];
+      }
+    }
+
+    class UsersManager extends BaseManager {
+      static inject = [DatabaseManager];
+
+      constructor(
+        appHandle: any,
+        private readonly database: DatabaseManager
+      ) {
+        super(appHandle);
+      }
+
+      async start() {
+        events.push('start:users');
+      }
+
+      list() {
+        return this.database.find();
+      }
+    }
+
+    class UsersController extends BaseController {
+      static inject = ['users', Greeter];
+      static routes = [
+        { method: 'GET' as const, url: '/all', handler: 'list' },
+      ];
+
+      constructor(
+        appHandle: any,
+        private readonly users: UsersManager,
+        private readonly greeter: Greeter
+      ) {
+        super(appHandle);
+      }
+
+      async list(request: any, reply: any) {
+        reply.send({
+          greeting: this.greeter.greet('users'),
+          users: this.users.list(),
+        });
+      }
+    }
+
+    const server = new IOServer({ host: 'localhost', port: PORT })
+      .provide(CONFIG, { useValue: { greeting: 'Hi' } })
+      .provide(Clock, { useClass: Clock })
+      .provide(Greeter, { useClass: Greeter });
+    // The users manager is started after the manager it injects
+    server
+      .addManager({ name: 'database', manager: DatabaseManager })
+      .addManager({ name: 'users', manager: UsersManager })
+      .addController({ name: 'users', controller: UsersController });
+
+    expect(server.resolve(Greeter).greet('all')).toBe('Hi all');
+
+    await server.start();
+    expect(events).toEqual(['start:database', 'start:users']);
+
+    const response = await server
+      .getApp()
+      .inject({ method: 'GET', url: '/users/all' });
+    expect(response.json()).toEqual({
+      greeting: 'Hi users',
+      users: ['alice'],
+    });
+
+    await server.stop();
+  });
+
+  it('rejects components with missing dependencies', () => {
+    class OrphanService extends BaseService {
+      static inject = ['missing'];
+
+      async ping() {}
+    }
+
+    const server = new IOServer({ host: 'localhost', port: PORT + 1 });
+    expect(() =>
+      server.addService({ name: 'orphan', service: OrphanService })
+    ).toThrow('No provider for missing (required by OrphanService)');
+    expect(() =>
+      server.addService({
+        name: 'orphan',
+        service: OrphanService,
+        scope: 'connection',
+      })
+    ).toThrow('No provider for missing (required by OrphanService)');
+    expect(server.isRegistered('service', 'orphan')).toBe(false);
+  });
+
+  describe('Connection scope', () => {
+    let server: IOServer;
+    let created = 0;
+
+    class SessionService extends BaseService {
+      static inject = [SOCKET, 'session'];
+      private messages: string[] = [];
+
+      constructor(
+        appHandle: any,
+        private readonly socket: any,
+        private readonly session: { id: number }
+      ) {
+        super(appHandle);
+      }
+
+      async say(socket: any, data: any, callback?: Function) {
+        this.messages.push(data.text);
+        if (callback) {
+          callback({
+            own: socket === this.socket,
+            session: this.session.id,
+            messages: this.messages,
+          });
+        }
+      }
+    }
+
+    beforeAll(async () => {
+      server = new IOServer({ host: 'localhost', port: PORT + 2 }).provide(
+        'session',
+        { useFactory: () => ({ id: ++created }), scope: 'connection' }
+      );
+      server.addService({
+        name: 'session',
+        service: SessionService,
+        scope: 'connection',
+      });
+      await server.start();
+    });
+
+    afterAll(async () => {
+      await server.stop();
+    });
+
+    it('creates a service instance for each socket', async () => {
+      const connect = () =>
+        new Promise<any>(resolve => {
+          const client = io(`http://localhost:${PORT + 2}/session`);
+          client.on('connect', () => resolve(client));
+        });
+      const first = await connect();
+      const second = await connect();
+
+      await first.emitWithAck('say', { text: 'one' });
+      const firstReply = await first.emitWithAck('say', { text: 'two' });
+      const secondReply = await second.emitWithAck('say', { text: 'three' });
+
+      expect(firstReply).toEqual({
+        own: true,
+        session: 1,
+        messages: ['one', 'two'],
+      });
+      expect(secondReply).toEqual({
+        own: true,
+        session: 2,
+        messages: ['three'],
+      });
+      expect(server.getService('session')).toBeUndefined();
+
+      first.disconnect();
+      second.disconnect();
+    });
+  });
+});
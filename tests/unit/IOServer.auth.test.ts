@@ -0,0 +1,418 @@
+/**
+ * @file IOServer.auth.test.ts
+ * @description Tests for the built-in authentication subsystem.
+ *
+ * Covered scenarios:
+ *  - JWT (secret and JWKS file), API key and session cookie strategies
+ *  - JWT expiration requirement and kid matching of a single JWKS key
+ *  - Controller routes populate request.user and answer 401 without credentials
+ *  - Routes and controllers opt out or opt in
+ *  - Socket handshakes populate socket.data.user or are refused with 401
+ *  - Per-method requirements on services
+ *  - Requirements without auth strategies are rejected
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IOServer } from '../../src/IOServer';
+import {
+  ApiKeyStrategy,
+  BaseController,
+  BaseService,
+  JwtStrategy,
+  SessionStrategy,
+} from '../../src';
+
+const io = require('socket.io-client');
+const supertest = require('supertest');
+
+const SECRET = 'test-secret';
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/** Tokens expire in an hour unless the payload sets (or unsets) `exp`. */
+function claims(payload: object): object {
+  return { exp: Math.floor(Date.now() / 1000) + 3600, ...payload };
+}
+
+function signHS256(payload: object, secret: string = SECRET): string {
+  const data = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims(payload))}`;
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(data)
+    .digest('base64url');
+  return `${data}.${signature}`;
+}
+
+function signRS256(
+  payload: object,
+  key: crypto.KeyObject,
+  kid?: string
+): string {
+  const data = `${encode({ alg: 'RS256', kid })}.${encode(claims(payload))}`;
+  const signature = crypto
+    .sign('sha256', Buffer.from(data), key)
+    .toString('base64url');
+  return `${data}.${signature}`;
+}
+
+class SecureController extends BaseController {
+  async getProfile(request: any, reply: any) {
+    reply.send({ user: request.user || null });
+  }
+
+  async getPublic(request: any, reply: any) {
+    reply.send({ user: request.user || null });
+  }
+}
+
+class ProfileService extends BaseService {
+  async whoami(socket: any, data: any, callback?: Function) {
+    if (callback) callback(socket.data.user || null);
+  }
+
+  async ping(socket: any, data: any, callback?: Function) {
+    if (callback) callback('pong');
+  }
+}
+
+function connect(port: number, namespace: string, auth?: object): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const client = io(`http://localhost:${port}/${namespace}`, {
+      reconnection: false,
+      auth,
+    });
+    client.on('connect', () => resolve(client));
+    client.on('connect_error', (error: any) => {
+      client.close();
+      reject(error);
+    });
+  });
+}
+
+describe('IOServer — Authentication', () => {
+  describe('JwtStrategy', () => {
+    const context = (authorization?: string) => ({
+      transport: 'http' as const,
+      headers: { authorization },
+      query: {},
+      cookies: {},
+      auth: {},
+    });
+
+    it('verifies HS256 tokens and registered claims', async () => {
+      const strategy = new JwtStrategy({ secret: SECRET, issuer: 'ioserver' });
+      const now = Math.floor(Date.now() / 1000);
+
+      await expect(
+        strategy.authenticate(
+          context(`Bearer ${signHS256({ sub: 'alice', iss: 'ioserver' })}`)
+        )
+      ).resolves.toMatchObject({ sub: 'alice' });
+      await expect(strategy.authenticate(context())).resolves.toBeUndefined();
+      await expect(
+        strategy.authenticate(
+          context(`Bearer ${signHS256({ sub: 'alice' }, 'other')}`)
+        )
+      ).rejects.toMatchObject({ statusCode: 401 });
+      await expect(
+        strategy.authenticate(
+          context(
+            `Bearer ${signHS256({ sub: 'alice', iss: 'ioserver', exp: now - 10 })}`
+          )
+        )
+      ).rejects.toThrow('Token expired');
+      await expect(
+        strategy.authenticate(
+          context(`Bearer ${signHS256({ sub: 'alice', iss: 'other' })}`)
+        )
+      ).rejects.toThrow('Invalid token issuer');
+    });
+
+    it('requires an expiration unless disabled', async () => {
+      const token = signHS256({ sub: 'alice', exp: undefined });
+
+      await expect(
+        new JwtStrategy({ secret: SECRET }).authenticate(
+          context(`Bearer ${token}`)
+        )
+      ).rejects.toThrow('Token without expiration');
+      await expect(
+        new JwtStrategy({ secret: SECRET, requireExp: false }).authenticate(
+          context(`Bearer ${token}`)
+        )
+      ).resolves.toMatchObject({ sub: 'alice' });
+    });
+
+    it('rejects unsigned tokens', async () => {
+      const strategy = new JwtStrategy({ secret: SECRET });
+      const token = `${encode({ alg: 'none' })}.${encode({ sub: 'eve' })}.`;
+
+      await expect(
+        strategy.authenticate(context(`Bearer ${token}`))
+      ).rejects.toThrow('Unsupported token algorithm none');
+    });
+
+    it('verifies tokens with keys of a local JWKS file', async () => {
+      const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+      });
+      const file = path.join(os.tmpdir(), `ioserver-jwks-${process.pid}.json`);
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'main' }],
+        })
+      );
+
+      try {
+        const strategy = new JwtStrategy({ jwksFile: file });
+        await expect(
+          strategy.authenticate(
+            context(`Bearer ${signRS256({ sub: 'bob' }, privateKey, 'main')}`)
+          )
+        ).resolves.toMatchObject({ sub: 'bob' });
+        // The single key verifies tokens without kid, never another kid
+        await expect(
+          strategy.authenticate(
+            context(`Bearer ${signRS256({ sub: 'bob' }, privateKey)}`)
+          )
+        ).resolves.toMatchObject({ sub: 'bob' });
+        await expect(
+          strategy.authenticate(
+            context(`Bearer ${signRS256({ sub: 'bob' }, privateKey, 'other')}`)
+          )
+        ).rejects.toThrow('Invalid token signature');
+        // A public key must never be usable as an HMAC secret
+        await expect(
+          strategy.authenticate(context(`Bearer ${signHS256({ sub: 'bob' })}`))
+        ).rejects.toMatchObject({ statusCode: 401 });
+      } finally {
+        fs.unlinkSync(file);
+      }
+    });
+
+    it('requires a key', () => {
+      expect(() => new JwtStrategy({})).toThrow(
+        'JWT strategy requires a secret, a public key or a JWKS file'
+      );
+    });
+  });
+
+  describe('Controllers and services', () => {
+    const PORT = 3110;
+    let server: IOServer;
+
+    beforeAll(async () => {
+      server = new IOServer({
+        host: 'localhost',
+        port: PORT,
+        routes: './tests/routes',
+        auth: {
+          strategies: [
+            new JwtStrategy({ secret: SECRET }),
+            new ApiKeyStrategy({ keys: { 'key-1': { id: 'robot' } } }),
+            new SessionStrategy({
+              resolve: sid =>
+                sid === 'session-1' ? { id: 'carol' } : undefined,
+            }),
+          ],
+        },
+      });
+      server.addController({ name: 'secure', controller: SecureController });
+      server.addService({ name: 'profile', service: ProfileService });
+      server.addService({
+        name: 'mixed',
+        service: ProfileService,
+        methodAuth: { ping: false },
+      });
+      await server.start();
+    });
+
+    afterAll(async () => {
+      await server.stop();
+    });
+
+    it('answers 401 without credentials', async () => {
+      const response = await supertest(`http://localhost:${PORT}`)
+        .get('/secure/profile')
+        .expect(401);
+
+      expect(response.body).toEqual({
+        statusCode: 401,
+        error: 'IOServerError',
+        message: 'Authentication required',
+      });
+    });
+
+    it('populates request.user with every strategy', async () => {
+      const http = supertest(`http://localhost:${PORT}`);
+
+      const jwt = await http
+        .get('/secure/profile')
+        .set('Authorization', `Bearer ${signHS256({ sub: 'alice' })}`)
+        .expect(200);
+      expect(jwt.body.user).toMatchObject({ sub: 'alice' });
+
+      const apiKey = await http
+        .get('/secure/profile')
+        .set('X-API-Key', 'key-1')
+        .expect(200);
+      expect(apiKey.body.user).toEqual({ id: 'robot' });
+
+      const session = await http
+        .get('/secure/profile')
+        .set('Cookie', 'theme=dark; sid=session-1')
+        .expect(200);
+      expect(session.body.user).toEqual({ id: 'carol' });
+
+      await http.get('/secure/profile').set('X-API-Key', 'nope').expect(401);
+    });
+
+    it('lets routes opt out', async () => {
+      const http = supertest(`http://localhost:${PORT}`);
+
+      await expect(
+        http.get('/secure/public').expect(200)
+      ).resolves.toMatchObject({ body: { user: null } });
+      // Credentials are still resolved on public routes
+      await expect(
+        http.get('/secure/public').set('X-API-Key', 'key-1').expect(200)
+      ).resolves.toMatchObject({ body: { user: { id: 'robot' } } });
+    });
+
+    it('refuses socket handshakes without credentials', async () => {
+      await expect(connect(PORT, 'profile')).rejects.toMatchObject({
+        message: 'Authentication required',
+        data: { status: 'error', statusCode: 401 },
+      });
+    });
+
+    it('populates socket.data.user on handshake', async () => {
+      const client = await connect(PORT, 'profile', {
+        token: signHS256({ sub: 'alice' }),
+      });
+      await expect(client.emitWithAck('whoami', {})).resolves.toMatchObject({
+        sub: 'alice',
+      });
+      client.close();
+    });
+
+    it('checks per-method requirements on calls', async () => {
+      const client = await connect(PORT, 'mixed');
+
+      await expect(client.emitWithAck('ping', {})).resolves.toBe('pong');
+      await expect(client.emitWithAck('whoami', {})).resolves.toEqual({
+        status: 'error',
+        type: 'IOServerError',
+        message: 'Authentication required',
+        statusCode: 401,
+      });
+      client.close();
+    });
+  });
+
+  describe('Opt-in mode', () => {
+    const PORT = 3111;
+    let server: IOServer;
+
+    beforeAll(async () => {
+      server = new IOServer({
+        host: 'localhost',
+        port: PORT,
+        routes: './tests/routes',
+        auth: {
+          strategies: [new JwtStrategy({ secret: SECRET })],
+          required: false,
+        },
+      });
+      server.addController({
+        name: 'secure',
+        controller: SecureController,
+        auth: true,
+      });
+      server.addService({
+        name: 'profile',
+        service: ProfileService,
+        methodAuth: { whoami: true },
+      });
+      await server.start();
+    });
+
+    afterAll(async () => {
+      await server.stop();
+    });
+
+    it('only protects controllers and methods opting in', async () => {
+      const http = supertest(`http://localhost:${PORT}`);
+      await http.get('/secure/profile').expect(401);
+      await http.get('/secure/public').expect(200);
+
+      const client = await connect(PORT, 'profile');
+      await expect(client.emitWithAck('ping', {})).resolves.toBe('pong');
+      await expect(client.emitWithAck('whoami', {})).resolves.toMatchObject({
+        statusCode: 401,
+      });
+      client.close();
+    });
+
+    it('rejects requirements on unknown methods', () => {
+      expect(() =>
+        server.addService({
+          name: 'broken',
+          service: ProfileService,
+          methodAuth: { missing: false },
+        })
+      ).toThrow('Auth declared for unknown method missing of broken service');
+    });
+  });
+
+  describe('Without strategies', () => {
+    it('rejects requirements that could not be enforced', () => {
+      class PrivateController extends BaseController {
+        static routes = [
+          {
+            method: 'GET' as const,
+            url: '/',
+            handler: 'getProfile',
+            auth: true,
+          },
+        ];
+
+        async getProfile(request: any, reply: any) {
+          reply.send({ user: null });
+        }
+      }
+      const plain = new IOServer({ port: 3251 });
+
+      expect(() =>
+        plain.addService({
+          name: 'profile',
+          service: ProfileService,
+          auth: true,
+        })
+      ).toThrow('Auth required on profile service without auth strategies');
+      expect(() =>
+        plain.addService({
+          name: 'profile',
+          service: ProfileService,
+          methodAuth: { whoami: true },
+        })
+      ).toThrow('Auth required on profile:whoami without auth strategies');
+      expect(() =>
+        plain.addController({ name: 'private', controller: PrivateController })
+      ).toThrow('Auth required on route GET / without auth strategies');
+      expect(plain.isRegistered('service', 'profile')).toBe(false);
+
+      // The default requirement only applies once strategies are configured
+      expect(() =>
+        plain.addService({ name: 'public', service: ProfileService })
+      ).not.toThrow();
+      return plain.stop();
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * @file IOServer.authorization.test.ts
+ * @description Tests for role-based authorization and access policies.
+ *
+ * Covered scenarios:
+ *  - Route files declare roles, permissions and named policies
+ *  - Service methods declare access rules with inline policies
+ *  - Denials return 403 through the standard error payloads
+ *  - Unenforceable rules are rejected at registration
+ */
+
+import { IOServer } from '../../src/IOServer';
+import { ApiKeyStrategy, BaseController, BaseService } from '../../src';
+
+const io = require('socket.io-client');
+const supertest = require('supertest');
+
+const USERS: Record<string, any> = {
+  'admin-key': {
+    id: 'root',
+    roles: ['admin'],
+    permissions: ['reports:read', 'stats:read'],
+    rooms: ['general'],
+  },
+  'user-key': {
+    id: 'bob',
+    roles: ['user'],
+    permissions: ['reports:read'],
+    rooms: ['random'],
+  },
+};
+
+class StatsController extends BaseController {
+  async getStats(request: any, reply: any) {
+    reply.send({ user: request.user.id });
+  }
+}
+
+class ChatService extends BaseService {
+  async kick(socket: any, data: any, callback?: Function) {
+    if (callback) callback({ status: 'kicked' });
+  }
+
+  async post(socket: any, data: { room: string }, callback?: Function) {
+    if (callback) callback({ status: 'posted' });
+  }
+
+  async history(socket: any, data: any, callback?: Function) {
+    if (callback) callback([]);
+  }
+}
+
+function connect(port: number, apiKey: string): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const client = io(`http://localhost:${port}/chat`, {
+      reconnection: false,
+      auth: { apiKey },
+    });
+    client.on('connect', () => resolve(client));
+    client.on('connect_error', reject);
+  });
+}
+
+function createServer(port: number): IOServer {
+  return new IOServer({
+    host: 'localhost',
+    port,
+    routes: './tests/routes',
+    auth: {
+      strategies: [new ApiKeyStrategy({ keys: USERS })],
+      policies: {
+        roomMember: (user, { request }) =>
+          user.rooms.includes(request.params.room),
+      },
+    },
+  });
+}
+
+describe('IOServer — Authorization', () => {
+  const PORT = 3120;
+  let server: IOServer;
+
+  beforeAll(async () => {
+    server = createServer(PORT);
+    server.addController({ name: 'stats', controller: StatsController });
+    server.addService({
+      name: 'chat',
+      service: ChatService,
+      methodAuth: {
+        kick: { roles: ['admin'] },
+        post: {
+          policy: (user, { data }) => user.rooms.includes(data.room),
+        },
+      },
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  describe('Controller routes', () => {
+    it('requires one of the declared roles', async () => {
+      const http = supertest(`http://localhost:${PORT}`);
+
+      await http
+        .get('/stats/summary')
+        .set('X-API-Key', 'admin-key')
+        .expect(200, { user: 'root' });
+      const denied = await http
+        .get('/stats/summary')
+        .set('X-API-Key', 'user-key')
+        .expect(403);
+      expect(denied.body).toEqual({
+        statusCode: 403,
+        error: 'IOServerError',
+        message: 'Insufficient role',
+      });
+      await http.get('/stats/summary').expect(401);
+    });
+
+    it('requires every declared permission', async () => {
+      const http = supertest(`http://localhost:${PORT}`);
+
+      await http
+        .get('/stats/reports')
+        .set('X-API-Key', 'admin-key')
+        .expect(200);
+      await http.get('/stats/reports').set('X-API-Key', 'user-key').expect(403);
+    });
+
+    it('runs named policies against the request', async () => {
+      const http = supertest(`http://localhost:${PORT}`);
+
+      await http
+        .get('/stats/rooms/random')
+        .set('X-API-Key', 'user-key')
+        .expect(200);
+      await http
+        .get('/stats/rooms/general')
+        .set('X-API-Key', 'user-key')
+        .expect(403);
+    });
+  });
+
+  describe('Service methods', () => {
+    it('returns the standard error payload on denial', async () => {
+      const client = await connect(PORT, 'user-key');
+
+      await expect(client.emitWithAck('history', {})).resolves.toEqual([]);
+      await expect(client.emitWithAck('kick', {})).resolves.toEqual({
+        status: 'error',
+        type: 'IOServerError',
+        message: 'Insufficient role',
+        statusCode: 403,
+      });
+      client.close();
+    });
+
+    it('runs inline policies against the payload', async () => {
+      const client = await connect(PORT, 'user-key');
+
+      await expect(
+        client.emitWithAck('post', { room: 'random' })
+      ).resolves.toEqual({ status: 'posted' });
+      await expect(
+        client.emitWithAck('post', { room: 'general' })
+      ).resolves.toMatchObject({ statusCode: 403, message: 'Access denied' });
+      client.close();
+    });
+
+    it('lets users with the role through', async () => {
+      const client = await connect(PORT, 'admin-key');
+
+      await expect(client.emitWithAck('kick', {})).resolves.toEqual({
+        status: 'kicked',
+      });
+      client.close();
+    });
+  });
+
+  describe('Registration', () => {
+    it('rejects unknown named policies', () => {
+      expect(() =>
+        server.addService({
+          name: 'broken',
+          service: ChatService,
+          methodAuth: { kick: { policy: 'missing' } },
+        })
+      ).toThrow('Unknown policy missing declared on broken:kick');
+      expect(server.isRegistered('service', 'broken')).toBe(false);
+    });
+
+    it('checks the access rule of controllers', () => {
+      const other = createServer(PORT + 2);
+
+      expect(() =>
+        other.addController({
+          name: 'stats',
+          controller: StatsController,
+          auth: { policy: 'missing' },
+        })
+      ).toThrow('Unknown policy missing declared on stats controller');
+      expect(other.isRegistered('controller', 'stats')).toBe(false);
+      return other.stop();
+    });
+
+    it('rejects access rules without auth strategies', () => {
+      const plain = new IOServer({ port: PORT + 1, routes: './tests/routes' });
+
+      expect(() =>
+        plain.addService({
+          name: 'chat',
+          service: ChatService,
+          auth: { roles: ['admin'] },
+        })
+      ).toThrow('Access rule declared on chat service without auth strategies');
+      expect(() =>
+        plain.addController({
+          name: 'stats',
+          controller: StatsController,
+          auth: { roles: ['admin'] },
+        })
+      ).toThrow(
+        'Access rule declared on stats controller without auth strategies'
+      );
+      expect(() =>
+        plain.addController({
+          name: 'stats',
+          controller: StatsController,
+          auth: true,
+        })
+      ).toThrow('Auth required on stats controller without auth strategies');
+      expect(plain.isRegistered('controller', 'stats')).toBe(false);
+      return plain.stop();
+    });
+  });
+});
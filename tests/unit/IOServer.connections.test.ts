@@ -0,0 +1,198 @@
+/**
+ * @file IOServer.connections.test.ts
+ * @description Tests for socket sessions and connection lifecycle hooks.
+ *
+ * Covered scenarios:
+ *  - Sessions are created per socket before the service connects
+ *  - Calls wait for the onConnection hook
+ *  - onDisconnect runs with the reason, including on shutdown
+ *  - A failing onConnection closes the connection
+ *  - onError runs before the error payload is sent
+ *  - Hooks are never bound as events
+ *  - Reserved event names are rejected as methods
+ */
+
+import { IOServer } from '../../src/IOServer';
+import { BaseService, IOServerError, SessionSocket } from '../../src';
+
+const io = require('socket.io-client');
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface CartSession {
+  items: string[];
+  greeted?: boolean;
+}
+
+const events: string[] = [];
+
+class CartService extends BaseService {
+  static events = ['add'];
+
+  async onConnection(socket: SessionSocket<CartSession>) {
+    await wait(20);
+    socket.data.session.greeted = true;
+    events.push('connect');
+  }
+
+  async onDisconnect(socket: SessionSocket<CartSession>, reason: string) {
+    await wait(20);
+    events.push(`disconnect:${socket.data.session.items.length}:${reason}`);
+  }
+
+  async onError(socket: any, error: Error, method: string) {
+    events.push(`error:${method}:${error.message}`);
+  }
+
+  async add(
+    socket: SessionSocket<CartSession>,
+    data: any,
+    callback?: Function
+  ) {
+    if (!data.item) {
+      throw new IOServerError('Item is required', 400);
+    }
+    socket.data.session.items.push(data.item);
+    if (callback) callback(socket.data.session);
+  }
+}
+
+class FailingService extends BaseService {
+  async onConnection() {
+    await wait(20);
+    throw new Error('Banned');
+  }
+
+  async onDisconnect() {
+    events.push('failing:disconnect');
+  }
+
+  async ping(socket: any, data: any, callback?: Function) {
+    if (callback) callback('pong');
+  }
+}
+
+function connect(port: number, namespace: string): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const client = io(`http://localhost:${port}/${namespace}`, {
+      reconnection: false,
+    });
+    client.on('connect', () => resolve(client));
+    client.on('connect_error', reject);
+  });
+}
+
+describe('IOServer — Connection lifecycle', () => {
+  const PORT = 3200;
+  let server: IOServer;
+
+  beforeEach(async () => {
+    events.length = 0;
+    server = new IOServer({ host: 'localhost', port: PORT });
+    server.addService({
+      name: 'cart',
+      service: CartService,
+      session: () => ({ items: [] }),
+    });
+    server.addService({ name: 'failing', service: FailingService });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('keeps a session per socket once connected', async () => {
+    const first = await connect(PORT, 'cart');
+    const second = await connect(PORT, 'cart');
+
+    // Sent before onConnection completes
+    const reply = await first.emitWithAck('add', { item: 'apple' });
+    await second.emitWithAck('add', { item: 'pear' });
+    const secondReply = await second.emitWithAck('add', { item: 'plum' });
+
+    expect(reply).toEqual({ items: ['apple'], greeted: true });
+    expect(secondReply).toEqual({ items: ['pear', 'plum'], greeted: true });
+
+    first.disconnect();
+    await wait(100);
+    expect(events).toEqual([
+      'connect',
+      'connect',
+      'disconnect:1:client namespace disconnect',
+    ]);
+    second.disconnect();
+  });
+
+  it('runs onDisconnect hooks before the server stops', async () => {
+    const client = await connect(PORT, 'cart');
+    await client.emitWithAck('add', { item: 'apple' });
+
+    await server.stop();
+    expect(events).toEqual([
+      'connect',
+      'disconnect:1:server namespace disconnect',
+    ]);
+    client.disconnect();
+  });
+
+  it('closes the connection when onConnection fails', async () => {
+    const client = io(`http://localhost:${PORT}/failing`, {
+      reconnection: false,
+    });
+    const reason = await new Promise(resolve =>
+      client.on('disconnect', resolve)
+    );
+
+    expect(reason).toBe('io server disconnect');
+    expect(events).not.toContain('failing:disconnect');
+    client.disconnect();
+  });
+
+  it('runs onError before replying with the error payload', async () => {
+    const client = await connect(PORT, 'cart');
+
+    const reply = await client.emitWithAck('add', {});
+    expect(reply).toMatchObject({ status: 'error', statusCode: 400 });
+    expect(events).toContain('error:add:Item is required');
+    client.disconnect();
+  });
+
+  it('does not bind hooks as events', () => {
+    const contracts = server.getServiceContracts();
+
+    expect(
+      contracts.find(contract => contract.name === 'failing')?.methods
+    ).toEqual([{ name: 'ping' }]);
+  });
+
+  it('rejects hooks declared as events', async () => {
+    class DeclaredHookService extends BaseService {
+      static events = ['onConnection'];
+
+      async onConnection() {}
+    }
+
+    expect(() =>
+      server.addService({ name: 'declared', service: DeclaredHookService })
+    ).toThrow('Event onConnection of declared service is a lifecycle hook');
+  });
+
+  it('rejects methods named after reserved events', () => {
+    class DisconnectService extends BaseService {
+      async disconnect() {}
+    }
+    class ErrorService extends BaseService {
+      static events = ['error'];
+
+      async error() {}
+    }
+
+    expect(() =>
+      server.addService({ name: 'legacy', service: DisconnectService })
+    ).toThrow('Method disconnect of legacy service uses a reserved event name');
+    expect(() =>
+      server.addService({ name: 'legacy', service: ErrorService })
+    ).toThrow('Method error of legacy service uses a reserved event name');
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * @file IOServer.events.test.ts
+ * @description Tests for explicit exposure of service methods as events.
+ *
+ * Covered scenarios:
+ *  - Undeclared services keep exposing every public method
+ *  - Static `events` lists and `@SocketEvent()` restrict bound methods
+ *  - Decorated events are inherited without leaking into parent classes
+ *  - Strict mode rejects services without declaration
+ *  - Undeclared methods are not reachable by clients
+ */
+
+import { IOServer } from '../../src/IOServer';
+import { BaseService, SocketEvent } from '../../src';
+
+const io = require('socket.io-client');
+
+class LegacyService extends BaseService {
+  async hello(socket: any, data: any, callback?: Function) {
+    if (callback) callback('hello');
+  }
+
+  async _hidden() {}
+}
+
+class StaticService extends BaseService {
+  static events = ['hello'];
+
+  async hello(socket: any, data: any, callback?: Function) {
+    if (callback) callback('hello');
+  }
+
+  async cleanup(socket: any, data: any, callback?: Function) {
+    if (callback) callback('cleaned');
+  }
+}
+
+class DecoratedService extends BaseService {
+  @SocketEvent()
+  async hello(socket: any, data: any, callback?: Function) {
+    if (callback) callback('hello');
+  }
+
+  async cleanup(socket: any, data: any, callback?: Function) {
+    if (callback) callback('cleaned');
+  }
+}
+
+class ChildService extends DecoratedService {
+  @SocketEvent()
+  async bye(socket: any, data: any, callback?: Function) {
+    if (callback) callback('bye');
+  }
+}
+
+function exposedMethods(server: IOServer, name: string): string[] {
+  const contract = server.getServiceContracts().find(c => c.name === name);
+  return contract ? contract.methods.map(m => m.name) : [];
+}
+
+describe('IOServer — Service event exposure', () => {
+  describe('Registration', () => {
+    it('exposes every public method of undeclared services', () => {
+      const server = new IOServer({ port: 3060 });
+      server.addService({ name: 'legacy', service: LegacyService });
+
+      expect(exposedMethods(server, 'legacy')).toEqual(['hello']);
+    });
+
+    it('only exposes methods of a static events list', () => {
+      const server = new IOServer({ port: 3060 });
+      server.addService({ name: 'static', service: StaticService });
+
+      expect(exposedMethods(server, 'static')).toEqual(['hello']);
+    });
+
+    it('only exposes decorated methods, including inherited ones', () => {
+      const server = new IOServer({ port: 3060 });
+      server.addService({ name: 'decorated', service: DecoratedService });
+      server.addService({ name: 'child', service: ChildService });
+
+      expect(exposedMethods(server, 'decorated')).toEqual(['hello']);
+      expect(exposedMethods(server, 'child')).toEqual(['bye', 'hello']);
+    });
+
+    it('rejects declared events that are not methods', () => {
+      class BrokenService extends BaseService {
+        static events = ['missing'];
+      }
+      const server = new IOServer({ port: 3060 });
+
+      expect(() =>
+        server.addService({ name: 'broken', service: BrokenService })
+      ).toThrow('Event missing of broken service is not a method');
+      expect(server.isRegistered('service', 'broken')).toBe(false);
+    });
+
+    it('rejects undeclared services in strict mode', () => {
+      const server = new IOServer({ port: 3060, strictEvents: true });
+
+      expect(() =>
+        server.addService({ name: 'legacy', service: LegacyService })
+      ).toThrow('Service legacy must declare its events in strict mode');
+      expect(() =>
+        server.addService({ name: 'decorated', service: DecoratedService })
+      ).not.toThrow();
+    });
+
+    it('lets a service opt out of strict mode', () => {
+      const server = new IOServer({ port: 3060, strictEvents: true });
+
+      expect(() =>
+        server.addService({
+          name: 'legacy',
+          service: LegacyService,
+          strictEvents: false,
+        })
+      ).not.toThrow();
+    });
+  });
+
+  describe('Dispatch', () => {
+    const PORT = 3061;
+    let server: IOServer;
+    let client: any;
+
+    beforeAll(async () => {
+      server = new IOServer({ host: 'localhost', port: PORT });
+      server.addService({ name: 'decorated', service: DecoratedService });
+      await server.start();
+    });
+
+    beforeEach(done => {
+      client = io(`http://localhost:${PORT}/decorated`);
+      client.on('connect', () => done());
+    });
+
+    afterEach(() => {
+      client.disconnect();
+    });
+
+    afterAll(async () => {
+      await server.stop();
+    });
+
+    it('dispatches declared events', async () => {
+      await expect(client.timeout(1000).emitWithAck('hello', {})).resolves.toBe(
+        'hello'
+      );
+    });
+
+    it('ignores methods that are not declared', async () => {
+      await expect(
+        client.timeout(300).emitWithAck('cleanup', {})
+      ).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * @file IOServer.hotreload.test.ts
+ * @description Tests for reloading services, controllers and route files
+ * while the server runs.
+ *
+ * Covered scenarios:
+ *  - Route files calling other methods are applied in place
+ *  - Route files changing their routes restart the server
+ *  - Reloaded services are bound again on connected sockets
+ *  - Reloaded controllers serve the registered routes
+ *  - Invalid reloads keep the running components
+ *  - Nested and new directories are watched without recursive watching
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IOServer } from '../../src/IOServer';
+import { BaseController, BaseService } from '../../src';
+import { HotReloader } from '../../src/HotReloader';
+
+const io = require('socket.io-client');
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class GreetingController extends BaseController {
+  async first(request: any, reply: any) {
+    reply.send({ handler: 'first' });
+  }
+
+  async second(request: any, reply: any) {
+    reply.send({ handler: 'second' });
+  }
+}
+
+function writeRoutes(dir: string, routes: any[]): void {
+  fs.writeFileSync(path.join(dir, 'greeting.json'), JSON.stringify(routes));
+}
+
+describe('IOServer — Hot reload', () => {
+  describe('Route files', () => {
+    const PORT = 3210;
+    let server: IOServer;
+    let routes: string;
+    let restarted: Promise<string>;
+
+    beforeEach(async () => {
+      routes = fs.mkdtempSync(path.join(os.tmpdir(), 'ioserver-reload-'));
+      writeRoutes(routes, [{ method: 'GET', url: '/', handler: 'first' }]);
+
+      let onRestart!: (reason: string) => void;
+      restarted = new Promise(resolve => (onRestart = resolve));
+      server = new IOServer({
+        host: 'localhost',
+        port: PORT,
+        routes,
+        hotReload: { debounce: 20, onRestart },
+      });
+      server.addController({
+        name: 'greeting',
+        controller: GreetingController,
+      });
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+      fs.rmSync(routes, { recursive: true, force: true });
+    });
+
+    it('applies handler changes without restarting', async () => {
+      writeRoutes(routes, [{ method: 'GET', url: '/', handler: 'second' }]);
+      await wait(200);
+
+      const response = await server
+        .getApp()
+        .inject({ method: 'GET', url: '/' });
+      expect(response.json()).toEqual({ handler: 'second' });
+    });
+
+    it('restarts when the routes change', async () => {
+      writeRoutes(routes, [
+        { method: 'GET', url: '/', handler: 'first' },
+        { method: 'GET', url: '/other', handler: 'second' },
+      ]);
+
+      expect(await restarted).toBe(
+        'Routes of greeting controller changed, restart required'
+      );
+      expect(server.getApp().server.listening).toBe(false);
+    });
+  });
+
+  describe('Components', () => {
+    const PORT = 3211;
+    let server: IOServer;
+
+    class ChatService extends BaseService {
+      async ping(socket: any, data: any, callback?: Function) {
+        if (callback) callback('v1');
+      }
+
+      async legacy(socket: any, data: any, callback?: Function) {
+        if (callback) callback('legacy');
+      }
+    }
+
+    class ChatServiceV2 extends BaseService {
+      async ping(socket: any, data: any, callback?: Function) {
+        if (callback) callback('v2');
+      }
+    }
+
+    class StatusController extends BaseController {
+      static routes = [
+        { method: 'GET' as const, url: '/current', handler: 'get' },
+      ];
+
+      async get(request: any, reply: any) {
+        reply.send({ version: 1 });
+      }
+    }
+
+    beforeEach(async () => {
+      server = new IOServer({ host: 'localhost', port: PORT });
+      server.addService({ name: 'chat', service: ChatService });
+      server.addController({ name: 'status', controller: StatusController });
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it('binds reloaded service methods on connected sockets', async () => {
+      const client = await new Promise<any>(resolve => {
+        const socket = io(`http://localhost:${PORT}/chat`, {
+          reconnection: false,
+        });
+        socket.on('connect', () => resolve(socket));
+      });
+      expect(await client.emitWithAck('ping', {})).toBe('v1');
+
+      server.reloadService('chat', ChatServiceV2);
+
+      expect(await client.emitWithAck('ping', {})).toBe('v2');
+      await expect(
+        client.timeout(100).emitWithAck('legacy', {})
+      ).rejects.toThrow();
+      expect(server.getService('chat')).toBeInstanceOf(ChatServiceV2);
+      client.disconnect();
+    });
+
+    it('serves registered routes with the reloaded controller', async () => {
+      class StatusControllerV2 extends BaseController {
+        static routes = StatusController.routes;
+
+        async get(request: any, reply: any) {
+          reply.send({ version: 2 });
+        }
+      }
+
+      server.reloadController('status', StatusControllerV2);
+
+      const response = await server
+        .getApp()
+        .inject({ method: 'GET', url: '/status/current' });
+      expect(response.json()).toEqual({ version: 2 });
+    });
+
+    it('keeps running components when a reload is invalid', async () => {
+      class BrokenController extends BaseController {
+        static routes = StatusController.routes;
+      }
+      class MovedController extends StatusController {
+        static routes = [
+          { method: 'GET' as const, url: '/moved', handler: 'get' },
+        ];
+      }
+
+      expect(() => server.reloadController('status', BrokenController)).toThrow(
+        'Handler get of route GET /current is not a method of status controller'
+      );
+      expect(() => server.reloadController('status', MovedController)).toThrow(
+        'Routes of status controller changed, restart required'
+      );
+      expect(() => server.reloadService('missing', ChatServiceV2)).toThrow(
+        'Service missing is not registered'
+      );
+
+      const response = await server
+        .getApp()
+        .inject({ method: 'GET', url: '/status/current' });
+      expect(response.json()).toEqual({ version: 1 });
+    });
+  });
+
+  describe('Watching', () => {
+    let root: string;
+    let reloader: HotReloader | undefined;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'ioserver-watch-'));
+      fs.mkdirSync(path.join(root, 'nested'));
+    });
+
+    afterEach(() => {
+      reloader?.close();
+      jest.restoreAllMocks();
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('watches nested and new directories without recursive watching', async () => {
+      // Recursive watching is not available on Linux before Node 20
+      const nodeFs = require('fs');
+      const watch = nodeFs.watch;
+      const spy = jest
+        .spyOn(nodeFs, 'watch')
+        .mockImplementation((target: any, ...args: any[]) => {
+          if (args.length > 1 && args[0]?.recursive) {
+            throw new Error('ERR_FEATURE_UNAVAILABLE_ON_PLATFORM');
+          }
+          return (watch as any)(target, ...args);
+        });
+      const batches: string[][] = [];
+      reloader = new HotReloader([root], 20, files => batches.push(files));
+      reloader.start();
+      expect(spy.mock.calls.map(([target]) => target)).toEqual([
+        root,
+        path.join(root, 'nested'),
+      ]);
+
+      fs.writeFileSync(path.join(root, 'nested', 'chat.ts'), '');
+      await wait(150);
+      expect(batches.flat()).toContain(path.join(root, 'nested', 'chat.ts'));
+
+      fs.mkdirSync(path.join(root, 'added'));
+      await wait(150);
+      fs.writeFileSync(path.join(root, 'added', 'status.ts'), '');
+      await wait(150);
+      expect(batches.flat()).toContain(path.join(root, 'added', 'status.ts'));
+    });
+  });
+});
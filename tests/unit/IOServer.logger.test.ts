@@ -0,0 +1,234 @@
+/**
+ * @file IOServer.logger.test.ts
+ * @description Tests for the pluggable structured logger.
+ *
+ * Covered scenarios:
+ *  - Syslog levels are mapped onto pino-compatible methods
+ *  - Components log with their own context, extendable with child()
+ *  - Socket events carry namespace and socket id
+ *  - Fastify shares the same logger (records carry the request id)
+ *  - request.appLog binds the controller context and the request id
+ *  - Middlewares log with the context of the guarded component
+ *  - Console output stays the default without logger
+ */
+
+import { IOServer } from '../../src/IOServer';
+import {
+  AppHandle,
+  BaseController,
+  BaseEventMiddleware,
+  BaseMiddleware,
+  BaseService,
+  EventContext,
+  MiddlewareContext,
+} from '../../src';
+
+const io = require('socket.io-client');
+const supertest = require('supertest');
+
+interface LogRecord {
+  level: string;
+  msg: string;
+  [key: string]: any;
+}
+
+/** Minimal pino-compatible logger capturing records in memory. */
+function createMemoryLogger(
+  records: LogRecord[],
+  bindings: Record<string, any> = {}
+): any {
+  const write = (level: string) => (obj: any, msg?: string) => {
+    if (typeof obj === 'string') {
+      records.push({ level, msg: obj, ...bindings });
+    } else {
+      records.push({ level, msg: msg || '', ...bindings, ...obj });
+    }
+  };
+  return {
+    level: 'trace',
+    fatal: write('fatal'),
+    error: write('error'),
+    warn: write('warn'),
+    info: write('info'),
+    debug: write('debug'),
+    trace: write('trace'),
+    silent: () => {},
+    child: (childBindings: Record<string, any>) =>
+      createMemoryLogger(records, { ...bindings, ...childBindings }),
+  };
+}
+
+class EchoService extends BaseService {
+  private readonly audit = this.appHandle.log.child!({ feature: 'audit' });
+
+  async echo(socket: any, data: any, callback?: Function) {
+    this.appHandle.log(6, 'echo received', { socketId: socket.id });
+    this.audit(5, 'echo audited');
+    if (callback) callback(data);
+  }
+}
+
+class TracingMiddleware extends BaseMiddleware {
+  handle(context: MiddlewareContext, appHandle: AppHandle) {
+    appHandle.log(6, `guarded ${context.transport}`);
+  }
+}
+
+class CallMiddleware extends BaseEventMiddleware {
+  before(context: EventContext, appHandle: AppHandle) {
+    appHandle.log(6, `before ${context.method}`);
+  }
+}
+
+class StatusController extends BaseController {
+  async getStatus(request: any, reply: any) {
+    this.appHandle.log(6, 'status requested', { reqId: request.id });
+    request.appLog(6, 'status served');
+    reply.send({ status: 'OK' });
+  }
+
+  async postData(request: any, reply: any) {
+    reply.send(request.body);
+  }
+}
+
+describe('IOServer — Structured logger', () => {
+  const PORT = 3090;
+  const records: LogRecord[] = [];
+  let server: IOServer;
+
+  beforeAll(async () => {
+    server = new IOServer({
+      host: 'localhost',
+      port: PORT,
+      routes: './tests/routes',
+      logger: createMemoryLogger(records),
+    });
+    server.addService({
+      name: 'echo',
+      service: EchoService,
+      middlewares: [TracingMiddleware],
+      eventMiddlewares: [CallMiddleware],
+    });
+    server.addController({
+      name: 'api',
+      controller: StatusController,
+      middlewares: [TracingMiddleware],
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('maps syslog levels onto logger methods', () => {
+    server.log(0, 'emergency');
+    server.log(3, 'error');
+    server.log(4, 'warning');
+    server.log(5, 'notification');
+    server.log(6, 'information');
+    server.log(7, 'debug');
+
+    expect(records.slice(-6).map(r => r.level)).toEqual([
+      'fatal',
+      'error',
+      'warn',
+      'info',
+      'debug',
+      'trace',
+    ]);
+  });
+
+  it('logs service calls with component, namespace and socket context', async () => {
+    const client = io(`http://localhost:${PORT}/echo`);
+    await new Promise(resolve => client.on('connect', resolve));
+    await client.emitWithAck('echo', { hello: 'world' });
+    const socketId = client.id;
+    client.disconnect();
+
+    const own = records.find(r => r.msg === 'echo received');
+    expect(own).toMatchObject({
+      level: 'debug',
+      componentType: 'service',
+      componentName: 'echo',
+      socketId,
+    });
+
+    const child = records.find(r => r.msg === 'echo audited');
+    expect(child).toMatchObject({
+      level: 'info',
+      componentType: 'service',
+      componentName: 'echo',
+      feature: 'audit',
+    });
+
+    const call = records.find(r => r.msg.startsWith('[*] Call method echo'));
+    expect(call).toMatchObject({
+      namespace: '/echo',
+      socketId,
+      method: 'echo',
+    });
+  });
+
+  it('shares the logger with Fastify', async () => {
+    await supertest(`http://localhost:${PORT}`).get('/api/status').expect(200);
+
+    const own = records.find(r => r.msg === 'status requested');
+    expect(own).toMatchObject({
+      componentType: 'controller',
+      componentName: 'api',
+      reqId: expect.any(String),
+    });
+    expect(
+      records.some(r => r.msg === 'incoming request' && r.reqId === own!.reqId)
+    ).toBe(true);
+  });
+
+  it('binds the request id to request.appLog', async () => {
+    await supertest(`http://localhost:${PORT}`).get('/api/status').expect(200);
+
+    const requested = records.filter(r => r.msg === 'status requested').pop();
+    const served = records.filter(r => r.msg === 'status served').pop();
+    expect(served).toMatchObject({
+      level: 'debug',
+      componentType: 'controller',
+      componentName: 'api',
+      reqId: requested!.reqId,
+    });
+  });
+
+  it('logs middlewares with the context of the guarded component', async () => {
+    const client = io(`http://localhost:${PORT}/echo`, { reconnection: false });
+    await new Promise(resolve => client.on('connect', resolve));
+    await client.emitWithAck('echo', {});
+    client.disconnect();
+    await supertest(`http://localhost:${PORT}`).get('/api/status').expect(200);
+
+    expect(records.find(r => r.msg === 'guarded socket')).toMatchObject({
+      componentType: 'service',
+      componentName: 'echo',
+    });
+    expect(records.find(r => r.msg === 'before echo')).toMatchObject({
+      componentType: 'service',
+      componentName: 'echo',
+    });
+    expect(records.find(r => r.msg === 'guarded http')).toMatchObject({
+      componentType: 'controller',
+      componentName: 'api',
+    });
+  });
+
+  it('keeps console output when no logger is provided', async () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const plain = new IOServer({ port: PORT + 1, verbose: 'ERROR' });
+
+    plain.log(3, 'plain error', { socketId: 'abc' });
+    plain.log(6, 'filtered out');
+
+    expect(spy).toHaveBeenCalledWith('plain error');
+    expect(spy).toHaveBeenCalledTimes(1);
+    spy.mockRestore();
+    await plain.stop();
+  });
+});
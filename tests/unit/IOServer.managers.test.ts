@@ -0,0 +1,156 @@
+/**
+ * @file IOServer.managers.test.ts
+ * @description Tests for the manager lifecycle.
+ *
+ * Covered scenarios:
+ *  - Managers are not started at registration time
+ *  - start() hooks are awaited in dependency order before listening
+ *  - stop() hooks run in reverse start order
+ *  - Unknown and circular dependencies abort startup
+ *  - A failing start() aborts startup and stops started managers
+ *  - A failing listen() stops started managers, watchers and jobs
+ */
+
+import * as net from 'net';
+import { IOServer } from '../../src/IOServer';
+import { BaseManager, BaseWatcher } from '../../src';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function createManager(name: string, events: string[], failStart = false) {
+  return class extends BaseManager {
+    async start() {
+      await wait(20);
+      if (failStart) {
+        throw new Error(`${name} unavailable`);
+      }
+      events.push(`start:${name}`);
+    }
+
+    async stop() {
+      events.push(`stop:${name}`);
+    }
+  };
+}
+
+describe('IOServer — Manager lifecycle', () => {
+  it('starts managers in dependency order and stops them in reverse', async () => {
+    const events: string[] = [];
+    const server = new IOServer({ host: 'localhost', port: 3080 });
+
+    server.addManager({
+      name: 'cache',
+      manager: createManager('cache', events),
+      dependencies: ['database'],
+    });
+    server.addManager({
+      name: 'database',
+      manager: createManager('database', events),
+      dependencies: ['config'],
+    });
+    server.addManager({
+      name: 'config',
+      manager: createManager('config', events),
+    });
+
+    expect(events).toEqual([]);
+
+    await server.start();
+    expect(events).toEqual(['start:config', 'start:database', 'start:cache']);
+
+    await server.stop();
+    expect(events.slice(3)).toEqual([
+      'stop:cache',
+      'stop:database',
+      'stop:config',
+    ]);
+  });
+
+  it('rejects unknown dependencies', async () => {
+    const server = new IOServer({ host: 'localhost', port: 3081 });
+    server.addManager({
+      name: 'cache',
+      manager: createManager('cache', []),
+      dependencies: ['database'],
+    });
+
+    await expect(server.start()).rejects.toThrow(
+      'Manager cache depends on unknown manager database'
+    );
+    await server.stop();
+  });
+
+  it('rejects circular dependencies', async () => {
+    const server = new IOServer({ host: 'localhost', port: 3082 });
+    server.addManager({
+      name: 'first',
+      manager: createManager('first', []),
+      dependencies: ['second'],
+    });
+    server.addManager({
+      name: 'second',
+      manager: createManager('second', []),
+      dependencies: ['first'],
+    });
+
+    await expect(server.start()).rejects.toThrow(
+      'Circular manager dependency: first -> second -> first'
+    );
+    await server.stop();
+  });
+
+  it('aborts startup and stops started managers when one fails', async () => {
+    const events: string[] = [];
+    const server = new IOServer({ host: 'localhost', port: 3083 });
+    server.addManager({
+      name: 'config',
+      manager: createManager('config', events),
+    });
+    server.addManager({
+      name: 'database',
+      manager: createManager('database', events, true),
+      dependencies: ['config'],
+    });
+
+    await expect(server.start()).rejects.toThrow(
+      'Unable to start database manager: Error: database unavailable'
+    );
+    expect(events).toEqual(['start:config', 'stop:config']);
+
+    await server.stop();
+    expect(events).toEqual(['start:config', 'stop:config']);
+  });
+
+  it('stops started components when the server cannot listen', async () => {
+    const PORT = 3084;
+    const events: string[] = [];
+    class PollWatcher extends BaseWatcher {
+      static schedules = [{ method: 'poll', interval: 10 }];
+
+      async poll() {}
+
+      async stop() {
+        events.push('stop:poll');
+      }
+    }
+
+    const blocker = net.createServer();
+    await new Promise<void>(resolve =>
+      blocker.listen(PORT, 'localhost', resolve)
+    );
+    const server = new IOServer({ host: 'localhost', port: PORT });
+    server.addManager({
+      name: 'cache',
+      manager: createManager('cache', events),
+    });
+    server.addWatcher({ name: 'poll', watcher: PollWatcher });
+
+    try {
+      await expect(server.start()).rejects.toThrow('Unable to start server');
+      expect(events).toEqual(['start:cache', 'stop:poll', 'stop:cache']);
+      expect(server.getWatcherJobs('poll')[0].nextRun).toBeUndefined();
+    } finally {
+      await new Promise(resolve => blocker.close(resolve));
+    }
+  });
+});
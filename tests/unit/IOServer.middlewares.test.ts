@@ -0,0 +1,776 @@
+/**
+ * @file IOServer.middlewares.test.ts
+ * @description Tests for connection, route and event middlewares.
+ *
+ * Covered scenarios:
+ *  - Service then method middlewares run before the call, in reverse after
+ *  - Middlewares normalize payloads and wrap acknowledgements
+ *  - Payloads are validated once normalized by the before hooks
+ *  - A failing before hook rejects the call with the error payload, and
+ *    only the middlewares entered before it are unwound
+ *  - After hooks see the error of failed calls
+ *  - Middlewares declared for unknown methods are rejected
+ *  - Transport-agnostic middlewares guard routes and connections alike
+ *  - Middleware metadata reaches route handlers and services
+ *  - HTTP and socket middlewares receive their transport objects
+ *  - Middlewares registered on the wrong transport are rejected
+ *  - Middlewares written to the former handle(appHandle) contract are
+ *    rejected, hooks returned at run time refusing the request
+ *  - Middleware classes, factories and instances are instantiated once
+ *  - Global middlewares run before the component ones, by transport
+ *  - Factories not returning a middleware are rejected
+ *  - Route middlewares run at their stage by priority, before route hooks
+ *  - Lists of route hooks are bound and reloaded
+ *  - Invalid stages are rejected
+ */
+
+import { IOServer } from '../../src/IOServer';
+import {
+  AppHandle,
+  BaseController,
+  BaseEventMiddleware,
+  BaseManager,
+  BaseMiddleware,
+  BaseService,
+  EventContext,
+  HttpMiddleware,
+  IOServerError,
+  MiddlewareContext,
+  SocketMiddleware,
+} from '../../src';
+
+const io = require('socket.io-client');
+
+const events: string[] = [];
+
+class AuditMiddleware extends BaseEventMiddleware {
+  before(context: EventContext) {
+    events.push(`audit:before:${context.method}`);
+  }
+
+  after(context: EventContext) {
+    const outcome = context.error ? (context.error as Error).message : 'ok';
+    events.push(`audit:after:${context.method}:${outcome}`);
+  }
+}
+
+class TrimMiddleware extends BaseEventMiddleware {
+  before(context: EventContext) {
+    events.push('trim:before');
+    context.data = { ...context.data, text: context.data.text.trim() };
+    const ack = context.ack;
+    context.ack = response => ack?.({ ...response, trimmed: true });
+  }
+
+  after() {
+    events.push('trim:after');
+  }
+}
+
+class ReadOnlyMiddleware extends BaseEventMiddleware {
+  before() {
+    throw new IOServerError('Read-only mode', 403);
+  }
+
+  after() {
+    events.push('readonly:after');
+  }
+}
+
+class ChatService extends BaseService {
+  async say(socket: any, data: any, callback?: Function) {
+    events.push(`say:${data.text}`);
+    if (callback) callback({ text: data.text });
+  }
+
+  async clear(socket: any, data: any, callback?: Function) {
+    events.push('clear');
+    if (callback) callback({ cleared: true });
+  }
+}
+
+describe('IOServer — Event middlewares', () => {
+  const PORT = 3230;
+  let server: IOServer;
+  let client: any;
+
+  beforeAll(async () => {
+    server = new IOServer({ host: 'localhost', port: PORT });
+    server.addService({
+      name: 'chat',
+      service: ChatService,
+      eventMiddlewares: [AuditMiddleware],
+      methodMiddlewares: {
+        say: [TrimMiddleware],
+        clear: [ReadOnlyMiddleware],
+      },
+      schemas: {
+        say: {
+          data: {
+            type: 'object',
+            properties: {
+              text: { type: 'string', minLength: 1, maxLength: 5 },
+            },
+            required: ['text'],
+          },
+        },
+      },
+    });
+    await server.start();
+    client = await new Promise(resolve => {
+      const socket = io(`http://localhost:${PORT}/chat`);
+      socket.on('connect', () => resolve(socket));
+    });
+  });
+
+  afterAll(async () => {
+    client.disconnect();
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    events.length = 0;
+  });
+
+  it('runs middlewares around the method', async () => {
+    const reply = await client.emitWithAck('say', { text: '  hello  ' });
+
+    expect(reply).toEqual({ text: 'hello', trimmed: true });
+    expect(events).toEqual([
+      'audit:before:say',
+      'trim:before',
+      'say:hello',
+      'trim:after',
+      'audit:after:say:ok',
+    ]);
+  });
+
+  it('validates the payload normalized by before hooks', async () => {
+    // Longer than 5 characters until trimmed
+    expect(await client.emitWithAck('say', { text: '  hey  ' })).toEqual({
+      text: 'hey',
+      trimmed: true,
+    });
+
+    events.length = 0;
+    const reply = await client.emitWithAck('say', { text: '   ' });
+    expect(reply).toMatchObject({ status: 'error', statusCode: 400 });
+    expect(events).toEqual([
+      'audit:before:say',
+      'trim:before',
+      'trim:after',
+      `audit:after:say:${reply.message}`,
+    ]);
+  });
+
+  it('rejects calls failing in a before hook', async () => {
+    const reply = await client.emitWithAck('clear', {});
+
+    expect(reply).toMatchObject({
+      status: 'error',
+      statusCode: 403,
+      message: 'Read-only mode',
+    });
+    expect(events).toEqual([
+      'audit:before:clear',
+      'audit:after:clear:Read-only mode',
+    ]);
+  });
+
+  it('rejects middlewares of unknown methods', () => {
+    expect(() =>
+      server.addService({
+        name: 'other',
+        service: ChatService,
+        methodMiddlewares: { shout: [AuditMiddleware] },
+      })
+    ).toThrow('Middlewares declared for unknown method shout of other service');
+  });
+});
+
+describe('IOServer — Transport middlewares', () => {
+  const PORT = 3231;
+  let server: IOServer;
+
+  class TenantMiddleware extends BaseMiddleware {
+    handle(context: MiddlewareContext) {
+      const tenant = context.headers['x-tenant'] || context.query.tenant;
+      if (!tenant) {
+        throw new IOServerError('Tenant is required', 403);
+      }
+      context.metadata.tenant = `${context.transport}:${tenant}`;
+    }
+  }
+
+  class TeapotMiddleware extends HttpMiddleware {
+    handle(request: any, reply: any) {
+      if (request.headers['x-teapot']) {
+        reply.code(418).send({ teapot: true });
+      }
+    }
+  }
+
+  class ClosedMiddleware extends SocketMiddleware {
+    handle(socket: any) {
+      if (socket.handshake.query.closed) {
+        throw new Error('Closed for maintenance');
+      }
+    }
+  }
+
+  // Returns a hook from a handle of the current signature, as JavaScript
+  // allows
+  class HookMiddleware extends BaseMiddleware {
+    handle(_context: MiddlewareContext, _appHandle: AppHandle): any {
+      return (_request: any, _reply: any, done: () => void) => done();
+    }
+  }
+
+  class TenantController extends BaseController {
+    static routes = [{ method: 'GET' as const, url: '/', handler: 'get' }];
+
+    async get(request: any, reply: any) {
+      reply.send(request.metadata);
+    }
+  }
+
+  class TenantService extends BaseService {
+    async whoami(socket: any, data: any, callback?: Function) {
+      if (callback) callback(socket.data.metadata);
+    }
+  }
+
+  function connect(query: Record<string, string>): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const client = io(`http://localhost:${PORT}/tenant`, {
+        query,
+        reconnection: false,
+      });
+      client.on('connect', () => resolve(client));
+      client.on('connect_error', (error: any) => {
+        client.close();
+        reject(error);
+      });
+    });
+  }
+
+  beforeAll(async () => {
+    server = new IOServer({ host: 'localhost', port: PORT });
+    server.addController({
+      name: 'tenant',
+      controller: TenantController,
+      prefix: '/tenant',
+      middlewares: [TeapotMiddleware, TenantMiddleware],
+    });
+    server.addService({
+      name: 'tenant',
+      service: TenantService,
+      middlewares: [ClosedMiddleware, TenantMiddleware],
+    });
+    server.addController({
+      name: 'legacy',
+      controller: TenantController,
+      prefix: '/legacy',
+      middlewares: [HookMiddleware],
+    });
+    server.addService({
+      name: 'legacy',
+      service: TenantService,
+      middlewares: [HookMiddleware],
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('guards routes with the normalized context', async () => {
+    const app = server.getApp();
+
+    const allowed = await app.inject({
+      method: 'GET',
+      url: '/tenant',
+      headers: { 'x-tenant': 'acme' },
+    });
+    expect(allowed.json()).toEqual({ tenant: 'http:acme' });
+
+    const refused = await app.inject({ method: 'GET', url: '/tenant' });
+    expect(refused.statusCode).toBe(403);
+    expect(refused.json().message).toBe('Tenant is required');
+
+    const teapot = await app.inject({
+      method: 'GET',
+      url: '/tenant',
+      headers: { 'x-teapot': '1' },
+    });
+    expect(teapot.statusCode).toBe(418);
+    expect(teapot.json()).toEqual({ teapot: true });
+  });
+
+  it('guards connections with the normalized context', async () => {
+    const client = await connect({ tenant: 'acme' });
+    expect(await client.emitWithAck('whoami', {})).toEqual({
+      tenant: 'socket:acme',
+    });
+    client.close();
+
+    await expect(connect({})).rejects.toMatchObject({
+      message: 'Tenant is required',
+      data: { status: 'error', statusCode: 403 },
+    });
+    await expect(
+      connect({ tenant: 'acme', closed: '1' })
+    ).rejects.toMatchObject({
+      message: 'Closed for maintenance',
+      data: { statusCode: 500 },
+    });
+  });
+
+  it('rejects middlewares of the other transport', () => {
+    expect(() =>
+      server.addService({
+        name: 'teapot',
+        service: TenantService,
+        middlewares: [TeapotMiddleware as any],
+      })
+    ).toThrow('HTTP middleware TeapotMiddleware cannot guard teapot service');
+    expect(() =>
+      server.addController({
+        name: 'closed',
+        controller: TenantController,
+        middlewares: [ClosedMiddleware as any],
+      })
+    ).toThrow(
+      'Socket middleware ClosedMiddleware cannot guard closed controller'
+    );
+  });
+
+  it('rejects middlewares written to the former contract', () => {
+    // Examples of the former documentation, as JavaScript callers would
+    // register them: TypeScript rejects the former signature
+    class AuthMiddleware extends BaseMiddleware {
+      handle(appHandle: any): any {
+        return (req: any, reply: any, done: any) => {
+          const authHeader = req.headers.authorization as string | undefined;
+
+          if (!authHeader?.startsWith('Bearer ')) {
+            return reply.code(401).send({
+              statusCode: 401,
+              error: 'Unauthorized',
+              message: 'Bearer token required',
+            });
+          }
+
+          const token = authHeader.slice(7);
+
+          try {
+            const userId = appHandle.sessionManager.validate(token);
+            if (!userId) {
+              return reply.code(401).send({
+                statusCode: 401,
+                error: 'Unauthorized',
+                message: 'Invalid or expired token',
+              });
+            }
+            req.userId = userId;
+            done();
+          } catch (err) {
+            appHandle.log(3, `Auth middleware error: ${err}`);
+            return reply
+              .code(500)
+              .send({ statusCode: 500, error: 'Internal Server Error' });
+          }
+        };
+      }
+    }
+
+    class SocketAuthMiddleware extends BaseMiddleware {
+      handle(appHandle: any): any {
+        return (socket: any, next: any) => {
+          const token = socket.handshake.auth?.token as string | undefined;
+
+          if (!token) {
+            return next(new Error('Authentication required'));
+          }
+
+          const userId = appHandle.sessionManager.validate(token);
+          if (!userId) {
+            return next(new Error('Invalid token'));
+          }
+
+          // Attach user data to socket for use in service methods
+          socket.userId = userId;
+          next();
+        };
+      }
+    }
+
+    expect(() =>
+      server.addController({
+        name: 'api',
+        controller: TenantController,
+        middlewares: [AuthMiddleware],
+      })
+    ).toThrow(
+      'Middleware AuthMiddleware implements the former handle(appHandle) contract, returning a hook: see "Migrating middlewares" in CHANGELOG.md'
+    );
+    expect(() =>
+      server.addService({
+        name: 'chat',
+        service: TenantService,
+        middlewares: [new SocketAuthMiddleware()],
+      })
+    ).toThrow(
+      'Middleware SocketAuthMiddleware implements the former handle(appHandle) contract'
+    );
+    expect(server.isRegistered('controller', 'api')).toBe(false);
+    expect(server.isRegistered('service', 'chat')).toBe(false);
+  });
+
+  it('refuses requests and connections when a middleware returns a hook at run time', async () => {
+    const response = await server
+      .getApp()
+      .inject({ method: 'GET', url: '/legacy' });
+    expect(response.statusCode).toBe(500);
+    expect(response.json().message).toBe(
+      'Middleware HookMiddleware returned a hook: handle(context, appHandle) must guard the request itself'
+    );
+
+    const client = io(`http://localhost:${PORT}/legacy`, {
+      reconnection: false,
+    });
+    const error = await new Promise<any>(resolve =>
+      client.on('connect_error', resolve)
+    );
+    client.close();
+    expect(error).toMatchObject({
+      message: expect.stringContaining('HookMiddleware returned a hook'),
+      data: { statusCode: 500 },
+    });
+  });
+});
+
+describe('IOServer — Middleware instances', () => {
+  const PORT = 3240;
+  const created: string[] = [];
+  let server: IOServer;
+
+  class AuditManager extends BaseManager {
+    readonly seen: string[] = [];
+  }
+
+  class GlobalMiddleware extends BaseMiddleware {
+    static inject = ['audit'];
+
+    constructor(
+      appHandle: AppHandle,
+      private readonly audit: AuditManager
+    ) {
+      super(appHandle);
+      created.push(`global:${typeof appHandle.log}`);
+    }
+
+    handle(context: MiddlewareContext) {
+      this.audit.seen.push(context.component);
+      context.metadata.order = ['global'];
+    }
+  }
+
+  class HeaderMiddleware extends HttpMiddleware {
+    handle(request: any, reply: any) {
+      reply.header('x-global', '1');
+    }
+  }
+
+  class CallMiddleware extends BaseEventMiddleware {
+    before(context: EventContext) {
+      events.push(`global:${context.method}`);
+    }
+  }
+
+  class ScopeMiddleware extends BaseMiddleware {
+    constructor(
+      appHandle: AppHandle,
+      private readonly scope: string
+    ) {
+      super(appHandle);
+      created.push(`scope:${scope}`);
+    }
+
+    handle(context: MiddlewareContext) {
+      if (context.headers['x-scope'] !== this.scope) {
+        throw new IOServerError(`Missing scope ${this.scope}`, 403);
+      }
+      context.metadata.order.push(`scope:${this.scope}`);
+    }
+  }
+
+  class HitsMiddleware extends BaseMiddleware {
+    private hits = 0;
+
+    handle(context: MiddlewareContext) {
+      context.metadata.hits = ++this.hits;
+    }
+  }
+
+  class PanelController extends BaseController {
+    static routes = [
+      { method: 'GET' as const, url: '/a', handler: 'get' },
+      { method: 'GET' as const, url: '/b', handler: 'get' },
+    ];
+
+    async get(request: any, reply: any) {
+      reply.send(request.metadata);
+    }
+  }
+
+  class PanelService extends BaseService {
+    async whoami(socket: any, data: any, callback?: Function) {
+      if (callback) callback(socket.data.metadata);
+    }
+  }
+
+  beforeAll(async () => {
+    const hits = new HitsMiddleware();
+    server = new IOServer({
+      host: 'localhost',
+      port: PORT,
+      middlewares: [GlobalMiddleware, HeaderMiddleware, CallMiddleware],
+    });
+    server
+      .addManager({ name: 'audit', manager: AuditManager })
+      .addController({
+        name: 'admin',
+        controller: PanelController,
+        middlewares: [
+          appHandle => new ScopeMiddleware(appHandle, 'admin'),
+          hits,
+        ],
+      })
+      .addController({
+        name: 'users',
+        controller: PanelController,
+        middlewares: [appHandle => new ScopeMiddleware(appHandle, 'user')],
+      })
+      .addService({
+        name: 'panel',
+        service: PanelService,
+        middlewares: [hits],
+      });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    events.length = 0;
+  });
+
+  it('instantiates each middleware once', () => {
+    expect(created).toEqual(['global:function', 'scope:admin', 'scope:user']);
+  });
+
+  it('shares middleware instances across routes and connections', async () => {
+    const app = server.getApp();
+    const request = (url: string, scope: string) =>
+      app.inject({ method: 'GET', url, headers: { 'x-scope': scope } });
+
+    const first = await request('/admin/a', 'admin');
+    expect(first.headers['x-global']).toBe('1');
+    expect(first.json()).toEqual({ order: ['global', 'scope:admin'], hits: 1 });
+    expect((await request('/admin/b', 'admin')).json().hits).toBe(2);
+
+    const refused = await request('/users/a', 'admin');
+    expect(refused.statusCode).toBe(403);
+    expect(refused.json().message).toBe('Missing scope user');
+
+    const client = await new Promise<any>(resolve => {
+      const socket = io(`http://localhost:${PORT}/panel`, {
+        reconnection: false,
+      });
+      socket.on('connect', () => resolve(socket));
+    });
+    expect(await client.emitWithAck('whoami', {})).toEqual({
+      order: ['global'],
+      hits: 3,
+    });
+    expect(events).toEqual(['global:whoami']);
+    expect(server.resolve<AuditManager>('audit').seen).toEqual([
+      'admin',
+      'admin',
+      'users',
+      'panel',
+    ]);
+    client.close();
+  });
+
+  it('rejects factories not returning a middleware', () => {
+    expect(() =>
+      server.addController({
+        name: 'broken',
+        controller: PanelController,
+        middlewares: [() => ({}) as any],
+      })
+    ).toThrow('Middleware factory anonymous must return a middleware instance');
+  });
+});
+
+describe('IOServer — Middleware stages', () => {
+  const PORT = 3241;
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  let server: IOServer;
+
+  class FirstMiddleware extends BaseMiddleware {
+    readonly stage = 'onRequest';
+    readonly priority = -1;
+
+    handle() {
+      events.push('first');
+    }
+  }
+
+  class ApiKeyMiddleware extends BaseMiddleware {
+    readonly stage = 'onRequest';
+    readonly priority = 10;
+
+    handle(context: MiddlewareContext) {
+      events.push('apikey');
+      if (!context.headers['x-key']) {
+        throw new IOServerError('API key is required', 401);
+      }
+    }
+  }
+
+  class TagMiddleware extends HttpMiddleware {
+    handle() {
+      events.push('tag');
+    }
+  }
+
+  class AuditMiddleware extends HttpMiddleware {
+    readonly stage = 'onResponse';
+
+    handle(request: any, reply: any) {
+      events.push(`audit:${reply.statusCode}`);
+    }
+  }
+
+  class StagedController extends BaseController {
+    static routes = [
+      {
+        method: 'GET' as const,
+        url: '/',
+        handler: 'get',
+        onRequest: ['traceA', 'traceB'],
+        preValidation: 'validate',
+      },
+    ];
+
+    async traceA() {
+      events.push('traceA');
+    }
+
+    async traceB() {
+      events.push('traceB');
+    }
+
+    async validate() {
+      events.push('validate');
+    }
+
+    async get(request: any, reply: any) {
+      events.push('get');
+      reply.send({ ok: true });
+    }
+  }
+
+  beforeAll(async () => {
+    server = new IOServer({
+      host: 'localhost',
+      port: PORT,
+      middlewares: [AuditMiddleware],
+    });
+    server.addController({
+      name: 'staged',
+      controller: StagedController,
+      prefix: '/staged',
+      middlewares: [TagMiddleware, ApiKeyMiddleware, FirstMiddleware],
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    events.length = 0;
+  });
+
+  const request = (headers: Record<string, string> = { 'x-key': 'k' }) =>
+    server.getApp().inject({ method: 'GET', url: '/staged', headers });
+
+  it('runs middlewares at their stage by priority, before route hooks', async () => {
+    expect((await request()).json()).toEqual({ ok: true });
+    await wait(20);
+    expect(events).toEqual([
+      'first',
+      'apikey',
+      'traceA',
+      'traceB',
+      'tag',
+      'validate',
+      'get',
+      'audit:200',
+    ]);
+
+    const refused = await request({});
+    await wait(20);
+    expect(refused.statusCode).toBe(401);
+    expect(events.slice(8)).toEqual(['first', 'apikey', 'audit:401']);
+  });
+
+  it('swaps the methods of reloaded hook lists', async () => {
+    class StagedControllerV2 extends StagedController {
+      static routes = [
+        { ...StagedController.routes[0], onRequest: ['traceB', 'traceA'] },
+      ];
+    }
+
+    server.reloadController('staged', StagedControllerV2);
+    await request();
+    expect(events.slice(2, 4)).toEqual(['traceB', 'traceA']);
+  });
+
+  it('rejects invalid stages and hooks', () => {
+    class TimeoutMiddleware extends HttpMiddleware {
+      readonly stage = 'onTimeout' as any;
+
+      handle() {}
+    }
+    class UnknownHookController extends StagedController {
+      static routes = [
+        { ...StagedController.routes[0], onRequest: ['traceA', 'missing'] },
+      ];
+    }
+
+    expect(() =>
+      server.addController({
+        name: 'timeout',
+        controller: StagedController,
+        middlewares: [TimeoutMiddleware],
+      })
+    ).toThrow('Invalid stage onTimeout of middleware TimeoutMiddleware');
+    expect(() =>
+      server.addController({
+        name: 'unknown',
+        controller: UnknownHookController,
+      })
+    ).toThrow(
+      'Handler missing of route GET / is not a method of unknown controller'
+    );
+  });
+});
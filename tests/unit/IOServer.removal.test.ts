@@ -0,0 +1,234 @@
+/**
+ * @file IOServer.removal.test.ts
+ * @description Tests for removing components from a running server.
+ *
+ * Covered scenarios:
+ *  - Removed services disconnect their sockets and refuse connections
+ *  - Removing a service does not wait for calls of other services
+ *  - Removing the main service detaches its middlewares and listeners
+ *  - Disabled and removed controllers answer 503
+ *  - Removed managers are stopped and leave the application handle
+ *  - Managers required by others cannot be removed
+ *  - Removed watchers are stopped
+ *  - Unknown components are rejected
+ */
+
+import { IOServer } from '../../src/IOServer';
+import {
+  BaseController,
+  BaseManager,
+  BaseService,
+  BaseWatcher,
+  SocketMiddleware,
+} from '../../src';
+
+const io = require('socket.io-client');
+
+describe('IOServer — Component removal', () => {
+  const PORT = 3220;
+  const events: string[] = [];
+  let server: IOServer;
+
+  class ChatService extends BaseService {
+    async onDisconnect(socket: any, reason: string) {
+      events.push(`disconnect:${reason}`);
+    }
+
+    async ping(socket: any, data: any, callback?: Function) {
+      if (callback) callback('pong');
+    }
+  }
+
+  class StatusController extends BaseController {
+    static routes = [{ method: 'GET' as const, url: '/', handler: 'get' }];
+
+    async get(request: any, reply: any) {
+      reply.send({ status: 'OK' });
+    }
+  }
+
+  class CacheManager extends BaseManager {
+    async stop() {
+      events.push('stop:cache');
+    }
+  }
+
+  class SessionManager extends BaseManager {
+    static inject = ['cache'];
+  }
+
+  class PollWatcher extends BaseWatcher {
+    async watch() {
+      events.push('watch:poll');
+    }
+
+    async stop() {
+      events.push('stop:poll');
+    }
+  }
+
+  beforeEach(async () => {
+    events.length = 0;
+    server = new IOServer({ host: 'localhost', port: PORT });
+    server
+      .addManager({ name: 'cache', manager: CacheManager })
+      .addManager({ name: 'sessions', manager: SessionManager })
+      .addService({ name: 'chat', service: ChatService })
+      .addController({
+        name: 'status',
+        controller: StatusController,
+        prefix: '/status',
+      })
+      .addWatcher({ name: 'poll', watcher: PollWatcher });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('disconnects sockets of a removed service', async () => {
+    const client = io(`http://localhost:${PORT}/chat`, {
+      reconnection: false,
+    });
+    const disconnected = new Promise(resolve =>
+      client.on('disconnect', resolve)
+    );
+    await new Promise(resolve => client.on('connect', resolve));
+
+    await server.removeService('chat');
+    expect(await disconnected).toBe('io server disconnect');
+    expect(events).toEqual([
+      'watch:poll',
+      'disconnect:server namespace disconnect',
+    ]);
+    expect(server.isRegistered('service', 'chat')).toBe(false);
+    expect(server.getServiceContracts()).toEqual([]);
+
+    const error = await new Promise<Error>(resolve => {
+      const retry = io(`http://localhost:${PORT}/chat`, {
+        reconnection: false,
+      });
+      retry.on('connect_error', (err: Error) => {
+        retry.close();
+        resolve(err);
+      });
+    });
+    expect(error.message).toBe('Invalid namespace');
+    client.close();
+  });
+
+  it('only waits for calls of the removed service', async () => {
+    class SlowService extends BaseService {
+      async work(socket: any, data: any, callback?: Function) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        if (callback) callback('done');
+      }
+    }
+    const other = new IOServer({ host: 'localhost', port: 3221 });
+    other
+      .addService({ name: 'chat', service: ChatService })
+      .addService({ name: 'slow', service: SlowService });
+    await other.start();
+    const client = io(`http://localhost:3221/slow`, { reconnection: false });
+
+    try {
+      await new Promise(resolve => client.on('connect', resolve));
+      const work = client.emitWithAck('work', {});
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const start = Date.now();
+      await other.removeService('chat');
+
+      expect(Date.now() - start).toBeLessThan(500);
+      await expect(work).resolves.toBe('done');
+    } finally {
+      client.close();
+      await other.stop();
+    }
+  });
+
+  it('detaches the middlewares and listeners of the main service', async () => {
+    class CountingMiddleware extends SocketMiddleware {
+      handle() {
+        events.push('middleware');
+      }
+    }
+    const other = new IOServer({ host: 'localhost', port: 3222 });
+    other.addService({
+      service: ChatService,
+      middlewares: [CountingMiddleware],
+    });
+    await other.start();
+    const connect = () =>
+      new Promise<any>((resolve, reject) => {
+        const client = io('http://localhost:3222', { reconnection: false });
+        client.on('connect', () => resolve(client));
+        client.on('connect_error', (error: Error) => {
+          client.close();
+          reject(error);
+        });
+      });
+
+    try {
+      events.length = 0;
+      (await connect()).close();
+      expect(events).toEqual(['middleware']);
+      const namespace = (other as any).socketio.of('/');
+      const listeners = namespace.listenerCount('connection');
+
+      await other.removeService('/');
+
+      expect(namespace.listenerCount('connection')).toBe(listeners - 1);
+      await expect(connect()).rejects.toThrow('Invalid namespace');
+      expect(events.filter(event => event === 'middleware')).toHaveLength(1);
+    } finally {
+      await other.stop();
+    }
+  });
+
+  it('answers 503 on routes of disabled and removed controllers', async () => {
+    const app = server.getApp();
+    const request = () => app.inject({ method: 'GET', url: '/status' });
+
+    server.disableController('status');
+    const disabled = await request();
+    expect(disabled.statusCode).toBe(503);
+    expect(disabled.json().message).toBe('Controller status is unavailable');
+
+    server.enableController('status');
+    expect((await request()).json()).toEqual({ status: 'OK' });
+
+    server.removeController('status');
+    expect((await request()).statusCode).toBe(503);
+    expect(server.isRegistered('controller', 'status')).toBe(false);
+    expect(server.getRouteContracts()).toEqual([]);
+  });
+
+  it('stops removed managers and watchers', async () => {
+    await expect(server.removeManager('cache')).rejects.toThrow(
+      'Manager cache is required by sessions'
+    );
+
+    await server.removeManager('sessions');
+    await server.removeManager('cache');
+    await server.removeWatcher('poll');
+
+    expect(events).toEqual(['watch:poll', 'stop:cache', 'stop:poll']);
+    expect(server.isRegistered('manager', 'cache')).toBe(false);
+    expect(server.isRegistered('watcher', 'poll')).toBe(false);
+    expect(() => server.resolve('cache')).toThrow('No provider for cache');
+    expect((server as any).appHandle.cache).toBeUndefined();
+  });
+
+  it('rejects unknown components', async () => {
+    await expect(server.removeService('missing')).rejects.toThrow(
+      'Service missing is not registered'
+    );
+    await expect(server.removeWatcher('missing')).rejects.toThrow(
+      'Watcher missing is not registered'
+    );
+    expect(() => server.removeController('missing')).toThrow(
+      'Controller missing is not registered'
+    );
+  });
+});
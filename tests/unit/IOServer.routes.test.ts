@@ -0,0 +1,205 @@
+/**
+ * @file IOServer.routes.test.ts
+ * @description Tests for routes declared on controllers in TypeScript.
+ *
+ * Covered scenarios:
+ *  - Static `routes` lists are type-checked against controller methods
+ *    and Fastify route options
+ *  - Route decorators, including inherited ones
+ *  - Declared routes are registered along with JSON route files
+ *  - Registration fails loudly on unknown handlers
+ */
+
+import { IOServer } from '../../src/IOServer';
+import {
+  BaseController,
+  ControllerRoute,
+  Delete,
+  Get,
+  Post,
+  Route,
+} from '../../src';
+
+const supertest = require('supertest');
+
+class StaticController extends BaseController {
+  static routes: ControllerRoute<StaticController>[] = [
+    { method: 'GET', url: '/status', handler: 'getStatus' },
+    {
+      method: ['POST', 'PUT'],
+      url: '/echo',
+      handler: 'echo',
+      schema: {
+        body: {
+          type: 'object',
+          required: ['text'],
+          properties: { text: { type: 'string' } },
+        },
+      },
+    },
+  ];
+
+  async getStatus(request: any, reply: any) {
+    reply.send({ status: 'OK' });
+  }
+
+  async echo(request: any, reply: any) {
+    reply.send(request.body);
+  }
+}
+
+class DecoratedController extends BaseController {
+  @Get('/items/:id')
+  async getItem(request: any, reply: any) {
+    reply.send({ id: request.params.id });
+  }
+
+  @Post('/items')
+  async createItem(request: any, reply: any) {
+    reply.code(201).send({ created: true });
+  }
+}
+
+class ChildController extends DecoratedController {
+  @Delete('/items/:id')
+  async deleteItem(request: any, reply: any) {
+    reply.code(204).send();
+  }
+
+  @Route(['GET', 'HEAD'], '/ping')
+  async ping(request: any, reply: any) {
+    reply.send('pong');
+  }
+}
+
+class ApiController extends BaseController {
+  static routes: ControllerRoute<ApiController>[] = [
+    { method: 'GET', url: '/extra', handler: 'getStatus' },
+  ];
+
+  async getStatus(request: any, reply: any) {
+    reply.send({ status: 'OK' });
+  }
+
+  async postData(request: any, reply: any) {
+    reply.send(request.body);
+  }
+}
+
+describe('IOServer — Declared routes', () => {
+  const PORT = 3140;
+  let server: IOServer;
+
+  beforeAll(async () => {
+    server = new IOServer({
+      host: 'localhost',
+      port: PORT,
+      routes: './tests/routes',
+    });
+    server.addController({ name: 'static', controller: StaticController });
+    server.addController({
+      name: 'decorated',
+      controller: DecoratedController,
+    });
+    server.addController({ name: 'child', controller: ChildController });
+    server.addController({ name: 'api', controller: ApiController });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('registers static route lists with their options', async () => {
+    const http = supertest(`http://localhost:${PORT}`);
+
+    await http.get('/static/status').expect(200, { status: 'OK' });
+    await http.put('/static/echo').send({ text: 'hi' }).expect(200);
+    await http.post('/static/echo').send({}).expect(400);
+  });
+
+  it('registers decorated methods, including inherited ones', async () => {
+    const http = supertest(`http://localhost:${PORT}`);
+
+    await http.get('/decorated/items/7').expect(200, { id: '7' });
+    await http.post('/decorated/items').expect(201);
+    await http.delete('/decorated/items/7').expect(404);
+
+    await http.get('/child/items/7').expect(200, { id: '7' });
+    await http.delete('/child/items/7').expect(204);
+    await http.get('/child/ping').expect(200, 'pong');
+  });
+
+  it('does not leak decorated routes into parent classes', () => {
+    expect(DecoratedController.routes!.map(r => r.handler)).toEqual([
+      'getItem',
+      'createItem',
+    ]);
+  });
+
+  it('keeps JSON route files working along declared routes', async () => {
+    const http = supertest(`http://localhost:${PORT}`);
+
+    await http.get('/api/status').expect(200);
+    await http.get('/api/extra').expect(200);
+  });
+
+  it('checks handler names at compile time', () => {
+    const routes: ControllerRoute<StaticController>[] = [
+      // @ts-expect-error - not a method of the controller
+      { method: 'GET', url: '/typo', handler: 'getStatuss' },
+    ];
+    expect(routes).toHaveLength(1);
+  });
+
+  it('checks route options at compile time', () => {
+    const routes: ControllerRoute<StaticController>[] = [
+      { method: 'GET', url: '/limit', handler: 'getStatus', bodyLimit: 1024 },
+      // @ts-expect-error - misspelled option
+      { method: 'GET', url: '/typo', handler: 'getStatus', bodyLimt: 1024 },
+    ];
+    expect(routes).toHaveLength(2);
+  });
+
+  describe('Registration errors', () => {
+    it('rejects unknown handlers of declared routes', () => {
+      class TypoController extends BaseController {
+        static routes = [{ method: 'GET', url: '/status', handler: 'missing' }];
+      }
+
+      expect(() =>
+        server.addController({ name: 'typo', controller: TypoController })
+      ).toThrow(
+        'Handler missing of route GET /status is not a method of typo controller'
+      );
+      expect(server.isRegistered('controller', 'typo')).toBe(false);
+    });
+
+    it('rejects unknown handlers of route files', () => {
+      expect(() =>
+        server.addController({ name: 'broken', controller: ApiController })
+      ).toThrow(
+        'Handler getStatuss of route GET /status is not a method of broken controller'
+      );
+    });
+
+    it('rejects routes without handler', () => {
+      class EmptyController extends BaseController {
+        static routes = [{ method: 'GET', url: '/status' } as any];
+      }
+
+      expect(() =>
+        server.addController({ name: 'empty', controller: EmptyController })
+      ).toThrow('Missing handler for route GET /status of empty controller');
+    });
+
+    it('requires a route file when no route is declared', () => {
+      class BareController extends BaseController {}
+
+      expect(() =>
+        server.addController({ name: 'bare', controller: BareController })
+      ).toThrow('Routes file does not exist');
+      expect(server.isRegistered('controller', 'bare')).toBe(false);
+    });
+  });
+});
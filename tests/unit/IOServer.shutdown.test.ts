@@ -0,0 +1,191 @@
+/**
+ * @file IOServer.shutdown.test.ts
+ * @description Tests for graceful shutdown with connection draining.
+ *
+ * Covered scenarios:
+ *  - Clients receive the shutdown event, even when no call is in flight
+ *  - In-flight service calls complete before sockets are closed
+ *  - Calls received while draining are refused with a 503 payload
+ *  - The shutdown timeout bounds the wait for in-flight calls
+ *  - Managers are stopped last, in reverse registration order
+ *  - Signal handlers stop the server and exit the process
+ *  - A failed shutdown can be retried
+ *  - Rejected in-flight calls do not leak unhandled rejections
+ */
+
+import { IOServer } from '../../src/IOServer';
+import { BaseManager, BaseService, BaseWatcher } from '../../src';
+import { GracefulShutdown } from '../../src/Shutdown';
+
+const io = require('socket.io-client');
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class SlowService extends BaseService {
+  async work(socket: any, data: { delay: number }, callback?: Function) {
+    await wait(data.delay);
+    if (callback) callback({ status: 'done' });
+  }
+}
+
+function connect(port: number): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const client = io(`http://localhost:${port}/slow`, {
+      reconnection: false,
+    });
+    client.on('connect', () => resolve(client));
+    client.on('connect_error', reject);
+  });
+}
+
+describe('IOServer — Graceful shutdown', () => {
+  it('drains in-flight calls and notifies clients', async () => {
+    const PORT = 3070;
+    const server = new IOServer({ host: 'localhost', port: PORT });
+    server.addService({ name: 'slow', service: SlowService });
+    await server.start();
+
+    const client = await connect(PORT);
+    const notified = new Promise(resolve =>
+      client.on('server_shutdown', resolve)
+    );
+    const ack = client.emitWithAck('work', { delay: 300 });
+    await wait(50);
+
+    const stopped = server.stop();
+    await expect(notified).resolves.toEqual({ timeout: 10000 });
+    await expect(client.emitWithAck('work', { delay: 0 })).resolves.toEqual(
+      expect.objectContaining({ status: 'error', statusCode: 503 })
+    );
+    await expect(ack).resolves.toEqual({ status: 'done' });
+    await stopped;
+
+    expect(client.connected).toBe(false);
+    client.close();
+  });
+
+  it('notifies idle clients before closing their sockets', async () => {
+    const PORT = 3075;
+    const server = new IOServer({ host: 'localhost', port: PORT });
+    server.addService({ name: 'slow', service: SlowService });
+    await server.start();
+
+    const client = await connect(PORT);
+    const events: string[] = [];
+    client.on('server_shutdown', () => events.push('server_shutdown'));
+    const disconnected = new Promise(resolve =>
+      client.on('disconnect', () => resolve(events.push('disconnect')))
+    );
+
+    await server.stop();
+    await disconnected;
+
+    expect(events).toEqual(['server_shutdown', 'disconnect']);
+    client.close();
+  });
+
+  it('stops waiting once the shutdown timeout is reached', async () => {
+    const PORT = 3071;
+    const server = new IOServer({
+      host: 'localhost',
+      port: PORT,
+      shutdown: { timeout: 100, event: 'bye' },
+    });
+    server.addService({ name: 'slow', service: SlowService });
+    await server.start();
+
+    const client = await connect(PORT);
+    client.emit('work', { delay: 2000 });
+    await wait(50);
+
+    const start = Date.now();
+    await server.stop();
+    expect(Date.now() - start).toBeLessThan(1000);
+    client.close();
+  });
+
+  it('stops managers last, in reverse registration order', async () => {
+    const stopped: string[] = [];
+    class FirstManager extends BaseManager {
+      async stop() {
+        stopped.push('first');
+      }
+    }
+    class SecondManager extends BaseManager {
+      async stop() {
+        stopped.push('second');
+      }
+    }
+
+    const server = new IOServer({ host: 'localhost', port: 3072 });
+    server.addManager({ name: 'first', manager: FirstManager });
+    server.addManager({ name: 'second', manager: SecondManager });
+    await server.start();
+    await server.stop();
+
+    expect(stopped).toEqual(['second', 'first']);
+  });
+
+  it('returns the same promise when stop() is called twice', async () => {
+    const server = new IOServer({ host: 'localhost', port: 3073 });
+    await server.start();
+
+    expect(server.stop()).toBe(server.stop());
+    await server.stop();
+  });
+
+  it('shuts down and exits on configured signals', async () => {
+    const exit = jest
+      .spyOn(process, 'exit')
+      .mockImplementation((() => undefined) as any);
+    const server = new IOServer({
+      host: 'localhost',
+      port: 3074,
+      shutdown: { signals: ['SIGUSR2'] },
+    });
+    await server.start();
+
+    process.emit('SIGUSR2' as any);
+    await server.stop();
+    await wait(10);
+
+    expect(exit).toHaveBeenCalledWith(0);
+    expect(process.listenerCount('SIGUSR2')).toBe(0);
+    exit.mockRestore();
+  });
+
+  it('can be stopped again after a failed shutdown', async () => {
+    let failures = 1;
+    class FlakyWatcher extends BaseWatcher {
+      async stop() {
+        if (failures-- > 0) {
+          throw new Error('busy');
+        }
+      }
+    }
+
+    const server = new IOServer({ host: 'localhost', port: 3076 });
+    server.addWatcher({ name: 'flaky', watcher: FlakyWatcher });
+    await server.start();
+
+    await expect(server.stop()).rejects.toThrow('Unable to stop server');
+    await expect(server.stop()).resolves.toBeUndefined();
+  });
+
+  it('does not leak rejections of tracked calls', async () => {
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+    const log = jest.fn();
+    const shutdown = new GracefulShutdown(1000, log);
+
+    const call = shutdown.track(Promise.reject(new Error('boom')), 'slow');
+    await expect(call).rejects.toThrow('boom');
+    await wait(10);
+
+    process.off('unhandledRejection', unhandled);
+    expect(unhandled).not.toHaveBeenCalled();
+    // Nothing is left to wait for
+    await shutdown.drain();
+    expect(log).not.toHaveBeenCalled();
+  });
+});
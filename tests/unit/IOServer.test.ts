@@ -209,5 +209,57 @@ describe('IOServer Unit Tests', () => {
       expect(defaultServer.getHost()).toBe('localhost');
       expect(defaultServer.getPort()).toBe(8080);
     });
+
+    it('should answer route errors with their HTTP status code', async () => {
+      const fail = (statusCode?: number) =>
+        Object.assign(new Error('failed'), { statusCode });
+      class FailingController extends BaseController {
+        static routes = [
+          {
+            method: 'POST' as const,
+            url: '/invalid',
+            handler: 'ok',
+            schema: { body: { type: 'object', required: ['name'] } },
+          },
+          { method: 'GET' as const, url: '/conflict', handler: 'conflict' },
+          { method: 'GET' as const, url: '/crash', handler: 'crash' },
+          { method: 'GET' as const, url: '/success', handler: 'success' },
+        ];
+
+        async ok(request: any, reply: any) {
+          reply.send({ ok: true });
+        }
+
+        async conflict() {
+          throw fail(409);
+        }
+
+        async crash() {
+          throw fail();
+        }
+
+        async success() {
+          throw fail(200);
+        }
+      }
+      server.addController({ name: 'failing', controller: FailingController });
+      const request = (method: 'GET' | 'POST', url: string) =>
+        server.getApp().inject({ method, url, payload: {} });
+
+      const invalid = await request('POST', '/failing/invalid');
+      expect(invalid.statusCode).toBe(400);
+      expect(invalid.json()).toMatchObject({
+        statusCode: 400,
+        message: "body must have required property 'name'",
+      });
+      expect((await request('GET', '/failing/conflict')).statusCode).toBe(409);
+      expect((await request('GET', '/failing/crash')).json()).toEqual({
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: 'failed',
+      });
+      // Only error codes are honored
+      expect((await request('GET', '/failing/success')).statusCode).toBe(500);
+    });
   });
 });
@@ -0,0 +1,119 @@
+/**
+ * @file IOServer.validation.test.ts
+ * @description Tests for JSON Schema validation of Socket.IO service payloads.
+ *
+ * Covered scenarios:
+ *  - Registration rejects schemas declared for unknown methods
+ *  - Valid payloads reach the service method (with schema defaults applied)
+ *  - Invalid payloads are rejected with the standard 400 error payload
+ *  - Methods without schema are dispatched untouched
+ */
+
+import { IOServer } from '../../src/IOServer';
+import { BaseService } from '../../src';
+
+const io = require('socket.io-client');
+
+class LoginService extends BaseService {
+  async login(socket: any, data: any, callback?: Function) {
+    if (callback) callback({ status: 'success', data });
+  }
+
+  async ping(socket: any, data: any, callback?: Function) {
+    if (callback) callback({ status: 'success', data });
+  }
+}
+
+const loginSchema = {
+  data: {
+    type: 'object',
+    required: ['username'],
+    properties: {
+      username: { type: 'string', minLength: 1 },
+      room: { type: 'string', default: 'general' },
+    },
+  },
+};
+
+describe('IOServer — Service payload validation', () => {
+  describe('Registration', () => {
+    it('rejects a schema declared for an unknown method', () => {
+      const server = new IOServer({ port: 3040 });
+
+      expect(() =>
+        server.addService({
+          name: 'login',
+          service: LoginService,
+          schemas: { logout: loginSchema },
+        })
+      ).toThrow('Schema declared for unknown method logout');
+      expect(server.isRegistered('service', 'login')).toBe(false);
+    });
+  });
+
+  describe('Dispatch', () => {
+    let server: IOServer;
+    let client: any;
+    const PORT = 3041;
+
+    beforeAll(async () => {
+      server = new IOServer({ host: 'localhost', port: PORT });
+      server.addService({
+        name: 'login',
+        service: LoginService,
+        schemas: { login: loginSchema },
+      });
+      await server.start();
+    });
+
+    beforeEach(done => {
+      client = io(`http://localhost:${PORT}/login`);
+      client.on('connect', () => done());
+    });
+
+    afterEach(() => {
+      client.disconnect();
+    });
+
+    afterAll(async () => {
+      await server.stop();
+    });
+
+    it('dispatches valid payloads with schema defaults applied', done => {
+      client.emit('login', { username: 'alice' }, (response: any) => {
+        expect(response).toEqual({
+          status: 'success',
+          data: { username: 'alice', room: 'general' },
+        });
+        done();
+      });
+    });
+
+    it('rejects invalid payloads with a 400 error payload', done => {
+      client.emit('login', { room: 'lobby' }, (response: any) => {
+        expect(response).toEqual({
+          status: 'error',
+          type: 'IOServerError',
+          message: "data must have required property 'username'",
+          statusCode: 400,
+        });
+        done();
+      });
+    });
+
+    it('emits the error payload when no callback is provided', done => {
+      client.on('error', (payload: any) => {
+        expect(payload.statusCode).toBe(400);
+        done();
+      });
+      client.emit('login', { username: '' });
+    });
+
+    it('leaves methods without schema untouched', done => {
+      client.emit('ping', { anything: true }, (response: any) => {
+        expect(response.data).toEqual({ anything: true });
+        done();
+      });
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * @file OpenApiGenerator.test.ts
+ * @description Tests for the OpenAPI document generated from controller routes.
+ *
+ * Covered scenarios:
+ *  - Paths include controller prefixes and OpenAPI path templates
+ *  - Route schemas become parameters, request bodies and responses
+ *  - Shared schemas and auth strategies become components
+ *  - The document and the Swagger UI are served, at a normalized path
+ */
+
+import { IOServer } from '../../src/IOServer';
+import {
+  BaseController,
+  ControllerRoute,
+  JwtStrategy,
+  toOpenApiPath,
+} from '../../src';
+
+const supertest = require('supertest');
+
+class ItemController extends BaseController {
+  static routes: ControllerRoute<ItemController>[] = [
+    {
+      method: 'GET',
+      url: '/items',
+      handler: 'list',
+      auth: false,
+      schema: {
+        summary: 'List items',
+        querystring: {
+          type: 'object',
+          required: ['page'],
+          properties: { page: { type: 'integer' }, q: { type: 'string' } },
+        },
+        response: {
+          200: { type: 'array', items: { $ref: 'item#' } },
+        },
+      },
+    },
+    {
+      method: ['PUT', 'PATCH'],
+      url: '/items/:id',
+      handler: 'update',
+      auth: { roles: ['admin'] },
+      rateLimit: { limit: 10, window: 1000 },
+      schema: {
+        body: { $ref: 'item#' },
+        response: { '2xx': { description: 'Updated item', $ref: 'item#' } },
+      },
+    },
+    {
+      method: 'GET',
+      url: '/internal',
+      handler: 'list',
+      schema: { hide: true },
+    },
+  ];
+
+  async list(request: any, reply: any) {
+    reply.send([]);
+  }
+
+  async update(request: any, reply: any) {
+    reply.send(request.body);
+  }
+}
+
+describe('OpenApiGenerator', () => {
+  const PORT = 3160;
+  let server: IOServer;
+  let document: any;
+
+  beforeAll(async () => {
+    server = new IOServer({
+      host: 'localhost',
+      port: PORT,
+      auth: { strategies: [new JwtStrategy({ secret: 'secret' })] },
+      openapi: {
+        ui: true,
+        info: { title: 'Shop API', version: '1.2.0' },
+        servers: [{ url: 'https://shop.example.com' }],
+      },
+    });
+    server.getApp().addSchema({
+      $id: 'item',
+      type: 'object',
+      properties: { name: { type: 'string' } },
+    });
+    server.addController({
+      name: 'items',
+      controller: ItemController,
+      prefix: '/api/v1',
+    });
+    await server.start();
+    document = server.generateOpenApi();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('converts Fastify URLs into path templates', () => {
+    expect(toOpenApiPath('/users/:id')).toBe('/users/{id}');
+    expect(toOpenApiPath('/files/:name(^\\w+$)/raw')).toBe('/files/{name}/raw');
+    expect(toOpenApiPath('/static/*')).toBe('/static/{wildcard}');
+  });
+
+  it('describes the server and every visible route', () => {
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.info).toEqual({ title: 'Shop API', version: '1.2.0' });
+    expect(document.servers).toEqual([{ url: 'https://shop.example.com' }]);
+    expect(Object.keys(document.paths)).toEqual([
+      '/api/v1/items',
+      '/api/v1/items/{id}',
+    ]);
+    expect(Object.keys(document.paths['/api/v1/items/{id}'])).toEqual([
+      'put',
+      'patch',
+    ]);
+  });
+
+  it('maps schemas to parameters and responses', () => {
+    const list = document.paths['/api/v1/items'].get;
+
+    expect(list.summary).toBe('List items');
+    expect(list.tags).toEqual(['items']);
+    expect(list.parameters).toEqual([
+      {
+        name: 'page',
+        in: 'query',
+        required: true,
+        schema: { type: 'integer' },
+      },
+      { name: 'q', in: 'query', required: false, schema: { type: 'string' } },
+    ]);
+    expect(list.responses['200'].content['application/json'].schema).toEqual({
+      type: 'array',
+      items: { $ref: '#/components/schemas/item' },
+    });
+  });
+
+  it('documents bodies, path parameters and access rules', () => {
+    const update = document.paths['/api/v1/items/{id}'].put;
+
+    expect(update.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+    ]);
+    expect(update.requestBody.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/item',
+    });
+    expect(update.responses['2XX'].description).toBe('Updated item');
+    expect(Object.keys(update.responses)).toEqual(
+      expect.arrayContaining(['400', '401', '403', '429'])
+    );
+    expect(update.security).toEqual([{ jwt: [] }]);
+  });
+
+  it('marks credentials optional on public routes', () => {
+    expect(document.paths['/api/v1/items'].get.security).toEqual([
+      { jwt: [] },
+      {},
+    ]);
+  });
+
+  it('exposes shared schemas and security schemes as components', () => {
+    expect(document.components).toEqual({
+      schemas: {
+        item: { type: 'object', properties: { name: { type: 'string' } } },
+      },
+      securitySchemes: {
+        jwt: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    });
+  });
+
+  it('serves the document and the Swagger UI', async () => {
+    const http = supertest(`http://localhost:${PORT}`);
+
+    const response = await http.get('/openapi.json').expect(200);
+    expect(response.body).toEqual(document);
+
+    const page = await http.get('/docs').expect(200);
+    expect(page.headers['content-type']).toContain('text/html');
+    expect(page.text).toContain('"/openapi.json"');
+
+    await http
+      .get('/docs/swagger-ui-bundle.js')
+      .expect(200)
+      .expect('Content-Type', /javascript/);
+    await http.get('/docs/package.json').expect(404);
+  });
+
+  it('normalizes the Swagger UI path', async () => {
+    const relative = new IOServer({
+      port: PORT + 1,
+      openapi: { ui: 'api-docs//' },
+    });
+    const page = await relative.getApp().inject('/api-docs');
+    expect(page.statusCode).toBe(200);
+    expect(page.body).toContain('/api-docs/swagger-ui-bundle.js');
+    await relative.stop();
+
+    expect(
+      () => new IOServer({ port: PORT + 2, openapi: { ui: '/' } })
+    ).toThrow('Swagger UI cannot be served at the root URL');
+  });
+});
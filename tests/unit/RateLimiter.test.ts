@@ -0,0 +1,246 @@
+/**
+ * @file RateLimiter.test.ts
+ * @description Tests for rate limiting of service calls and controller routes.
+ *
+ * Covered scenarios:
+ *  - Token bucket and sliding window algorithms of the memory store
+ *  - Counter keys by socket, user, IP address or custom function
+ *  - Global, service and method limits reject calls with a 429 payload
+ *  - Abusive sockets are disconnected
+ *  - Routes answer 429 with Retry-After, scopes are shared across transports
+ */
+
+import { IOServer } from '../../src/IOServer';
+import { BaseController, BaseService, MemoryRateLimitStore } from '../../src';
+import { getRateLimitKey } from '../../src/RateLimiter';
+
+const io = require('socket.io-client');
+const supertest = require('supertest');
+
+class ChatService extends BaseService {
+  async typing(socket: any, data: any, callback?: Function) {
+    if (callback) callback('ok');
+  }
+
+  async send_message(socket: any, data: any, callback?: Function) {
+    if (callback) callback('sent');
+  }
+
+  async ping(socket: any, data: any, callback?: Function) {
+    if (callback) callback('pong');
+  }
+}
+
+class LimitedController extends BaseController {
+  async search(request: any, reply: any) {
+    reply.send({ results: [] });
+  }
+
+  async health(request: any, reply: any) {
+    reply.send({ status: 'OK' });
+  }
+}
+
+function connect(port: number): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const client = io(`http://localhost:${port}/chat`, {
+      reconnection: false,
+    });
+    client.on('connect', () => resolve(client));
+    client.on('connect_error', reject);
+  });
+}
+
+describe('RateLimiter', () => {
+  describe('MemoryRateLimitStore', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('allows bursts and refills tokens over time', () => {
+      jest.useFakeTimers({ now: 0 });
+      const store = new MemoryRateLimitStore();
+      const rule = { limit: 2, window: 1000 };
+
+      expect(store.hit('a', rule)).toEqual({
+        allowed: true,
+        remaining: 1,
+        retryAfter: 0,
+      });
+      expect(store.hit('a', rule).allowed).toBe(true);
+      expect(store.hit('a', rule)).toEqual({
+        allowed: false,
+        remaining: 0,
+        retryAfter: 500,
+      });
+      expect(store.hit('b', rule).allowed).toBe(true);
+
+      jest.setSystemTime(500);
+      expect(store.hit('a', rule).allowed).toBe(true);
+      expect(store.hit('a', rule).allowed).toBe(false);
+    });
+
+    it('weights the previous window in sliding windows', () => {
+      jest.useFakeTimers({ now: 0 });
+      const store = new MemoryRateLimitStore();
+      const rule = {
+        limit: 2,
+        window: 1000,
+        algorithm: 'sliding-window' as const,
+      };
+
+      expect(store.hit('a', rule).allowed).toBe(true);
+      expect(store.hit('a', rule).allowed).toBe(true);
+      expect(store.hit('a', rule)).toMatchObject({
+        allowed: false,
+        retryAfter: 1000,
+      });
+
+      // Half of the previous window still counts
+      jest.setSystemTime(1500);
+      expect(store.hit('a', rule).allowed).toBe(true);
+      expect(store.hit('a', rule).allowed).toBe(false);
+
+      store.reset('a');
+      expect(store.hit('a', rule).allowed).toBe(true);
+    });
+
+    it('builds keys from the configured identity', () => {
+      const context = {
+        transport: 'socket' as const,
+        ip: '::ffff:127.0.0.1',
+        socketId: 'abc',
+        user: { id: 42 },
+      };
+      const rule = { limit: 1, window: 1000 };
+
+      expect(getRateLimitKey(rule, context)).toBe('socket:abc');
+      expect(getRateLimitKey({ ...rule, key: 'user' }, context)).toBe(
+        'user:42'
+      );
+      expect(getRateLimitKey({ ...rule, key: 'ip' }, context)).toBe(
+        'ip:127.0.0.1'
+      );
+      expect(
+        getRateLimitKey(
+          { ...rule, key: 'user' },
+          { ...context, user: undefined }
+        )
+      ).toBe('ip:127.0.0.1');
+      expect(
+        getRateLimitKey(
+          { ...rule, key: ctx => `tenant-${ctx.socketId}` },
+          context
+        )
+      ).toBe('custom:tenant-abc');
+    });
+  });
+
+  describe('IOServer integration', () => {
+    const PORT = 3130;
+    let server: IOServer;
+
+    beforeAll(async () => {
+      server = new IOServer({
+        host: 'localhost',
+        port: PORT,
+        routes: './tests/routes',
+        rateLimit: { global: { limit: 50, window: 60000 } },
+      });
+      server.addService({
+        name: 'chat',
+        service: ChatService,
+        methodRateLimit: {
+          typing: { limit: 2, window: 60000, disconnectAfter: 2 },
+          send_message: {
+            limit: 3,
+            window: 60000,
+            key: 'ip',
+            scope: 'messages',
+          },
+          ping: false,
+        },
+      });
+      server.addController({ name: 'limited', controller: LimitedController });
+      await server.start();
+    });
+
+    afterAll(async () => {
+      await server.stop();
+    });
+
+    it('rejects excess service calls with a 429 payload', async () => {
+      const client = await connect(PORT);
+      const disconnected = new Promise(resolve =>
+        client.on('disconnect', resolve)
+      );
+
+      await expect(client.emitWithAck('typing', {})).resolves.toBe('ok');
+      await expect(client.emitWithAck('typing', {})).resolves.toBe('ok');
+      await expect(client.emitWithAck('typing', {})).resolves.toEqual({
+        status: 'error',
+        type: 'IOServerError',
+        message: 'Too many requests',
+        statusCode: 429,
+      });
+      // Other methods keep their own budget
+      await expect(client.emitWithAck('ping', {})).resolves.toBe('pong');
+
+      // The second consecutive rejection disconnects the socket
+      await expect(client.emitWithAck('typing', {})).resolves.toMatchObject({
+        statusCode: 429,
+      });
+      await expect(disconnected).resolves.toBe('io server disconnect');
+      client.close();
+    });
+
+    it('counts calls per socket by default', async () => {
+      const client = await connect(PORT);
+
+      await expect(client.emitWithAck('typing', {})).resolves.toBe('ok');
+      client.close();
+    });
+
+    it('answers 429 with Retry-After on routes', async () => {
+      const http = supertest(`http://localhost:${PORT}`);
+
+      await http.get('/limited/search').expect(200);
+      await http.get('/limited/search').expect(200);
+      const response = await http.get('/limited/search').expect(429);
+
+      expect(response.headers['retry-after']).toBe('30');
+      expect(response.body).toEqual({
+        statusCode: 429,
+        error: 'IOServerError',
+        message: 'Too many requests',
+      });
+      await http.get('/limited/health').expect(200);
+    });
+
+    it('shares scopes between routes and service methods', async () => {
+      const http = supertest(`http://localhost:${PORT}`);
+      const client = await connect(PORT);
+
+      await http.post('/limited/messages').expect(200);
+      await expect(client.emitWithAck('send_message', {})).resolves.toBe(
+        'sent'
+      );
+      await http.post('/limited/messages').expect(200);
+      await expect(
+        client.emitWithAck('send_message', {})
+      ).resolves.toMatchObject({ statusCode: 429 });
+      await http.post('/limited/messages').expect(429);
+      client.close();
+    });
+
+    it('rejects invalid rules at registration', () => {
+      expect(() =>
+        server.addService({
+          name: 'broken',
+          service: ChatService,
+          methodRateLimit: { typing: { limit: 0, window: 1000 } },
+        })
+      ).toThrow('Invalid rate limit on broken:typing');
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * @file RouteLoader.test.ts
+ * @description Tests for route files in YAML, fragment directories, includes
+ * and environment overlays.
+ *
+ * Covered scenarios:
+ *  - YAML route files and directories of fragments
+ *  - `$ref` includes of shared schema snippets
+ *  - Environment overlays replacing or adding routes
+ *  - Logging of applied overlays and skipped fragments
+ *  - Loading errors pointing at the failing file and entry
+ */
+
+import * as path from 'path';
+import { IOServer } from '../../src/IOServer';
+import { BaseController, loadRoutes } from '../../src';
+
+const supertest = require('supertest');
+
+const ROUTES = './tests/routes';
+
+class CatalogController extends BaseController {
+  async listItems(request: any, reply: any) {
+    reply.send([]);
+  }
+
+  async createItem(request: any, reply: any) {
+    reply.code(201).send(request.body);
+  }
+
+  async listOrders(request: any, reply: any) {
+    reply.send({ scope: 'own' });
+  }
+
+  async listAllOrders(request: any, reply: any) {
+    reply.send({ scope: 'all' });
+  }
+
+  async resetOrders(request: any, reply: any) {
+    reply.code(204).send();
+  }
+}
+
+class InventoryController extends BaseController {
+  async count(request: any, reply: any) {
+    reply.send({ count: 3 });
+  }
+}
+
+class StatusController extends BaseController {
+  async getStatus(request: any, reply: any) {
+    reply.send({ status: 'OK' });
+  }
+}
+
+describe('RouteLoader', () => {
+  describe('loadRoutes', () => {
+    it('merges fragments of a directory in name order', () => {
+      const definitions = loadRoutes(ROUTES, 'catalog')!;
+
+      expect(definitions.map(d => d.source)).toEqual([
+        path.join('tests', 'routes', 'catalog', 'items.yaml[0]'),
+        path.join('tests', 'routes', 'catalog', 'items.yaml[1]'),
+        path.join('tests', 'routes', 'catalog', 'orders.json[0]'),
+      ]);
+    });
+
+    it('resolves $ref includes relative to the including file', () => {
+      const [, create] = loadRoutes(ROUTES, 'catalog')!;
+
+      expect(create.route.schema?.body).toEqual({
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string' },
+          price: { type: 'number', minimum: 0 },
+        },
+      });
+    });
+
+    it('applies the overlays of the environment', () => {
+      const definitions = loadRoutes(ROUTES, 'catalog', 'dev')!;
+
+      expect(definitions).toHaveLength(4);
+      expect(definitions[2].route.handler).toBe('listAllOrders');
+      expect(definitions[2].source).toContain('orders.dev.json[0] (overlay of');
+      expect(definitions[3].route).toMatchObject({
+        method: 'DELETE',
+        handler: 'resetOrders',
+      });
+    });
+
+    it('logs the overlays applied and the fragments skipped', () => {
+      const log = jest.fn();
+      const overlay = path.join(
+        'tests',
+        'routes',
+        'catalog',
+        'orders.dev.json'
+      );
+
+      loadRoutes(ROUTES, 'catalog', 'dev', log);
+      expect(log.mock.calls).toEqual([
+        [6, `[*] Applying dev overlay ${overlay}`],
+      ]);
+
+      log.mockClear();
+      loadRoutes(ROUTES, 'catalog', 'prod', log);
+      expect(log.mock.calls).toEqual([
+        [4, `[!] Route file ${overlay} skipped: not an overlay of prod`],
+      ]);
+
+      log.mockClear();
+      expect(loadRoutes(ROUTES, 'catalog', undefined, log)).toHaveLength(3);
+      expect(log.mock.calls).toEqual([
+        [4, `[!] Route file ${overlay} skipped: overlays require env`],
+      ]);
+    });
+
+    it('returns undefined without route file', () => {
+      expect(loadRoutes(ROUTES, 'missing')).toBeUndefined();
+    });
+
+    it('reports the file and position of syntax errors', () => {
+      expect(() => loadRoutes(ROUTES, 'malformed')).toThrow(
+        /Invalid syntax in tests\/routes\/malformed\.yaml: .*at line \d+, column \d+/
+      );
+      expect(() => loadRoutes(ROUTES, 'trailing')).toThrow(
+        /Invalid syntax in tests\/routes\/trailing\.json: .*\(line 2, column \d+\)/
+      );
+    });
+
+    it('rejects circular includes', () => {
+      expect(() => loadRoutes(ROUTES, 'looping')).toThrow('Circular $ref');
+    });
+  });
+
+  describe('Controllers', () => {
+    const PORT = 3150;
+    let server: IOServer;
+
+    beforeAll(async () => {
+      server = new IOServer({
+        host: 'localhost',
+        port: PORT,
+        routes: ROUTES,
+        env: 'dev',
+      });
+      server.addController({ name: 'catalog', controller: CatalogController });
+      server.addController({
+        name: 'inventory',
+        controller: InventoryController,
+      });
+      await server.start();
+    });
+
+    afterAll(async () => {
+      await server.stop();
+    });
+
+    it('registers routes of YAML files and fragments', async () => {
+      const http = supertest(`http://localhost:${PORT}`);
+
+      await http.get('/inventory/count').expect(200, { count: 3 });
+      await http.get('/catalog/items').expect(200, []);
+    });
+
+    it('validates payloads against included schemas', async () => {
+      const http = supertest(`http://localhost:${PORT}`);
+
+      await http.post('/catalog/items').send({ name: 'pen' }).expect(201);
+      await http.post('/catalog/items').send({ price: -1 }).expect(400);
+    });
+
+    it('registers overlay routes of the environment', async () => {
+      const http = supertest(`http://localhost:${PORT}`);
+
+      await http.get('/catalog/orders').expect(200, { scope: 'all' });
+      await http.delete('/catalog/orders').expect(204);
+    });
+
+    it('points registration errors at the failing entry', () => {
+      expect(() =>
+        server.addController({
+          name: 'misplaced',
+          controller: StatusController,
+        })
+      ).toThrow(
+        `Invalid route ${path.join('tests', 'routes', 'misplaced', 'second.yaml')}[1]: Handler getDetail of route GET /detail is not a method of misplaced controller`
+      );
+      expect(server.isRegistered('controller', 'misplaced')).toBe(false);
+    });
+  });
+});
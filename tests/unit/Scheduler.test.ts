@@ -0,0 +1,246 @@
+/**
+ * @file Scheduler.test.ts
+ * @description Tests for the scheduled jobs of watchers.
+ *
+ * Covered scenarios:
+ *  - Cron expressions with seconds, ranges, steps, names and macros
+ *  - Day of month and day of week match like cron
+ *  - Invalid cron expressions are rejected
+ *  - Interval jobs run on start and on schedule, recording their runs
+ *  - Runs never overlap, late ticks being skipped
+ *  - Jobs are triggered manually, failures recorded
+ *  - Invalid schedules are rejected at registration
+ *  - Watchers added to a running server start and schedule their jobs
+ *  - Stopping waits for the runs in progress before stopping watchers
+ */
+
+import { IOServer } from '../../src/IOServer';
+import { BaseWatcher, CronExpression, Schedule } from '../../src';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Scheduler', () => {
+  describe('CronExpression', () => {
+    const next = (expression: string, from: Date) =>
+      new CronExpression(expression).next(from);
+
+    it('finds the next matching time', () => {
+      const from = new Date(2026, 0, 1, 10, 7, 30);
+
+      expect(next('*/15 * * * *', from)).toEqual(
+        new Date(2026, 0, 1, 10, 15, 0)
+      );
+      expect(next('*/10 * * * * *', from)).toEqual(
+        new Date(2026, 0, 1, 10, 7, 40)
+      );
+      expect(next('0 9-17/4 * * *', from)).toEqual(
+        new Date(2026, 0, 1, 13, 0, 0)
+      );
+      expect(next('@daily', from)).toEqual(new Date(2026, 0, 2, 0, 0, 0));
+      expect(next('30 8 1 jun,dec *', from)).toEqual(
+        new Date(2026, 5, 1, 8, 30, 0)
+      );
+    });
+
+    it('matches days of month or days of week like cron', () => {
+      // Saturday October 17th
+      const saturday = new Date(2026, 9, 17, 12, 0, 0);
+
+      expect(next('0 9 * * mon-fri', saturday)).toEqual(
+        new Date(2026, 9, 19, 9, 0, 0)
+      );
+      expect(next('0 0 * * 7', saturday)).toEqual(
+        new Date(2026, 9, 18, 0, 0, 0)
+      );
+      expect(next('0 0 13 * fri', new Date(2026, 0, 1))).toEqual(
+        new Date(2026, 0, 2, 0, 0, 0)
+      );
+      expect(next('0 0 30 2 *', saturday)).toBeUndefined();
+    });
+
+    it('rejects invalid expressions', () => {
+      expect(() => new CronExpression('* * *')).toThrow(
+        'Invalid cron expression * * *: expected 5 or 6 fields'
+      );
+      expect(() => new CronExpression('61 * * * *')).toThrow(
+        'Invalid cron expression 61 * * * *: 61 is not a valid minute'
+      );
+      expect(() => new CronExpression('* * * * foo')).toThrow(
+        'foo is not a valid day of week'
+      );
+      expect(() => new CronExpression('*/0 * * * *')).toThrow(
+        '*/0 is not a valid minute step'
+      );
+      expect(() => new CronExpression('10-5 * * * *')).toThrow(
+        '10-5 is not a valid minute range'
+      );
+    });
+  });
+
+  describe('IOServer integration', () => {
+    const PORT = 3250;
+    const events: string[] = [];
+    let server: IOServer;
+    let release: () => void = () => undefined;
+
+    class JobsWatcher extends BaseWatcher {
+      static schedules = [
+        { method: 'poll', interval: 30, jitter: 10, runOnStart: true },
+        { method: 'slow', interval: 20 },
+      ];
+
+      polls = 0;
+
+      async poll() {
+        this.polls++;
+      }
+
+      async slow() {
+        await wait(150);
+      }
+
+      @Schedule({ cron: '0 0 1 1 *' })
+      async fail() {
+        throw new Error('boom');
+      }
+
+      @Schedule({ name: 'block', cron: '0 0 1 1 *' })
+      async blocking() {
+        events.push('block:start');
+        await new Promise<void>(resolve => (release = resolve));
+        events.push('block:end');
+      }
+
+      stop() {
+        events.push('watcher:stop');
+      }
+    }
+
+    beforeAll(async () => {
+      server = new IOServer({ host: 'localhost', port: PORT });
+      server.addWatcher({ name: 'jobs', watcher: JobsWatcher });
+      await server.start();
+    });
+
+    afterAll(async () => {
+      release();
+      await server.stop();
+    });
+
+    it('runs interval jobs on start and on schedule', async () => {
+      await wait(200);
+
+      const [poll] = server.getWatcherJobs('jobs');
+      expect(poll).toMatchObject({
+        watcher: 'jobs',
+        name: 'poll',
+        interval: 30,
+        running: false,
+        skipped: 0,
+      });
+      expect(poll.runs).toBeGreaterThanOrEqual(3);
+      expect(poll.lastRun).toBeInstanceOf(Date);
+      expect(poll.lastDuration).toEqual(expect.any(Number));
+      expect(poll.nextRun!.getTime()).toBeGreaterThan(Date.now() - 50);
+    });
+
+    it('skips runs while the previous one is in progress', () => {
+      const slow = server.getWatcherJobs('jobs')[1];
+      expect(slow.skipped).toBeGreaterThan(0);
+      expect(slow.runs).toBeLessThanOrEqual(2);
+    });
+
+    it('triggers jobs manually', async () => {
+      const failed = await server.triggerWatcherJob('jobs', 'fail');
+      expect(failed).toMatchObject({
+        name: 'fail',
+        cron: '0 0 1 1 *',
+        runs: 1,
+        lastError: 'boom',
+      });
+
+      const blocked = server.triggerWatcherJob('jobs', 'block');
+      await expect(server.triggerWatcherJob('jobs', 'block')).rejects.toThrow(
+        'Job block of jobs watcher is already running'
+      );
+      release();
+      expect((await blocked).lastError).toBeUndefined();
+
+      await expect(server.triggerWatcherJob('jobs', 'missing')).rejects.toThrow(
+        'Job missing of jobs watcher is not registered'
+      );
+      expect(() => server.getWatcherJobs('missing')).toThrow(
+        'Watcher missing is not registered'
+      );
+    });
+
+    it('rejects invalid schedules', () => {
+      class BrokenWatcher extends BaseWatcher {
+        static schedules: any[] = [{ method: 'missing', interval: 10 }];
+      }
+      class AmbiguousWatcher extends BaseWatcher {
+        static schedules = [{ method: 'run', interval: 10, cron: '* * * * *' }];
+
+        async run() {}
+      }
+      class InvalidCronWatcher extends BaseWatcher {
+        static schedules = [{ method: 'run', cron: '* * 32 * *' }];
+
+        async run() {}
+      }
+
+      expect(() =>
+        server.addWatcher({ name: 'broken', watcher: BrokenWatcher })
+      ).toThrow(
+        'Method missing of job missing is not a method of broken watcher'
+      );
+      expect(() =>
+        server.addWatcher({ name: 'ambiguous', watcher: AmbiguousWatcher })
+      ).toThrow(
+        'Declare either a cron expression or an interval for job run of ambiguous watcher'
+      );
+      expect(() =>
+        server.addWatcher({ name: 'invalid', watcher: InvalidCronWatcher })
+      ).toThrow('Invalid cron expression * * 32 * *: 32 is not a valid day');
+      expect(server.isRegistered('watcher', 'broken')).toBe(false);
+    });
+
+    it('starts watchers added to the running server', async () => {
+      class LateWatcher extends BaseWatcher {
+        static schedules = [{ method: 'tick', interval: 20 }];
+
+        ticks = 0;
+
+        async watch() {
+          events.push('late:watch');
+        }
+
+        async tick() {
+          this.ticks++;
+        }
+      }
+
+      events.length = 0;
+      server.addWatcher({ name: 'late', watcher: LateWatcher });
+      await wait(70);
+
+      expect(events).toEqual(['late:watch']);
+      const [tick] = server.getWatcherJobs('late');
+      expect(tick.runs).toBeGreaterThanOrEqual(2);
+      expect(tick.nextRun).toBeInstanceOf(Date);
+      await server.removeWatcher('late');
+    });
+
+    it('waits for running jobs before stopping watchers', async () => {
+      events.length = 0;
+      server.triggerWatcherJob('jobs', 'block');
+      const stopped = server.stop();
+      await wait(20);
+      release();
+      await stopped;
+
+      expect(events).toEqual(['block:start', 'block:end', 'watcher:stop']);
+      expect(server.getWatcherJobs('jobs')[0].nextRun).toBeUndefined();
+    });
+  });
+});